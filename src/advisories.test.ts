@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { AdvisoryDatasetError, BUNDLED_ADVISORIES, parseAdvisoryDataset, restoreAdvisoryDataset } from './advisories';
+
+describe('parseAdvisoryDataset', () => {
+  it('reads the plugin format and skips entries without a library, range or id', () => {
+    const { dataset, skipped } = parseAdvisoryDataset(JSON.stringify({
+      updated: '2025-06-01',
+      advisories: [
+        { library: ' jquery ', below: '3.5.0', severity: 'HIGH', identifiers: ['CVE-2020-11022'], summary: 'XSS' },
+        { library: 'lodash', atOrAbove: '4.0.0', severity: 'urgent', identifiers: ['CVE-2021-23337'] },
+        { library: 'lodash', severity: 'high', identifiers: ['CVE-2019-10744'] },
+        { library: 'moment.js', below: '2.29.2', identifiers: [] },
+        'not an advisory'
+      ]
+    }));
+
+    expect(dataset).toEqual({
+      updated: '2025-06-01',
+      advisories: [
+        { library: 'jquery', below: '3.5.0', severity: 'high', identifiers: ['CVE-2020-11022'], summary: 'XSS' },
+        { library: 'lodash', atOrAbove: '4.0.0', severity: 'medium', identifiers: ['CVE-2021-23337'], summary: '' }
+      ]
+    });
+    expect(skipped).toBe(3);
+  });
+
+  it('reads a retire.js repository', () => {
+    const { dataset, skipped } = parseAdvisoryDataset(JSON.stringify({
+      jquery: {
+        extractors: { filecontent: ['/\\*!? jQuery v(§§version§§)'] },
+        vulnerabilities: [
+          {
+            below: '1.9.0b1',
+            severity: 'medium',
+            identifiers: { CVE: ['CVE-2012-6708'], issue: '11290', summary: 'Selector interpreted as HTML' }
+          },
+          { atOrAbove: '3.0.0', below: '3.4.0', identifiers: { githubID: 'GHSA-6c3j-c64m-qhgq' } },
+          null
+        ]
+      },
+      dont_check: ['ignored']
+    }));
+
+    expect(dataset.updated).toBe('');
+    expect(dataset.advisories).toEqual([
+      { library: 'jquery', below: '1.9.0b1', severity: 'medium', identifiers: ['CVE-2012-6708', 'issue 11290'], summary: 'Selector interpreted as HTML' },
+      { library: 'jquery', atOrAbove: '3.0.0', below: '3.4.0', severity: 'medium', identifiers: ['GHSA-6c3j-c64m-qhgq'], summary: '' }
+    ]);
+    expect(skipped).toBe(1);
+  });
+
+  it('rejects files that are not JSON objects or hold no usable advisory', () => {
+    expect(() => parseAdvisoryDataset('{"advisories": [')).toThrow(/not valid JSON/);
+    expect(() => parseAdvisoryDataset('[]')).toThrow(/must contain a JSON object/);
+    expect(() => parseAdvisoryDataset('null')).toThrow(AdvisoryDatasetError);
+    expect(() => parseAdvisoryDataset('{"advisories": [{"library": "jquery"}]}')).toThrow(/no usable advisories/);
+    expect(() => parseAdvisoryDataset('{"jquery": {"vulnerabilities": "none"}}')).toThrow(/no usable advisories/);
+  });
+});
+
+describe('restoreAdvisoryDataset', () => {
+  it('falls back to the bundled dataset', () => {
+    const stored = { updated: '2025-06-01', advisories: [] };
+
+    expect(restoreAdvisoryDataset(stored)).toBe(stored);
+    expect(restoreAdvisoryDataset(undefined)).toBe(BUNDLED_ADVISORIES);
+    expect(restoreAdvisoryDataset({ advisories: 'corrupt' })).toBe(BUNDLED_ADVISORIES);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Offline advisory dataset for fingerprinted client-side libraries. A
+ * bundled snapshot is used until a newer dataset is loaded from a file.
+ */
+
+import { Severity } from './patterns';
+
+export const ADVISORIES_STORAGE_KEY = 'js-hunter.advisories';
+
+export interface Advisory {
+  // Library id as used by retire.js (`jquery`, `moment.js`...) or its display name
+  library: string;
+  // Affected version range; a missing bound is open
+  atOrAbove?: string;
+  above?: string;
+  below?: string;
+  severity: Severity;
+  // CVE, GHSA or other advisory ids
+  identifiers: string[];
+  summary: string;
+}
+
+export interface AdvisoryDataset {
+  // Date of the newest advisory the dataset knows about
+  updated: string;
+  advisories: Advisory[];
+}
+
+export interface AdvisoryImport {
+  dataset: AdvisoryDataset;
+  // Entries dropped for a missing library, range or id
+  skipped: number;
+}
+
+export class AdvisoryDatasetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AdvisoryDatasetError';
+  }
+}
+
+const SEVERITIES: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+export const BUNDLED_ADVISORIES: AdvisoryDataset = {
+  updated: '2025-03-01',
+  advisories: [
+    { library: 'jquery', below: '1.6.3', severity: 'medium', identifiers: ['CVE-2011-4969'], summary: 'XSS when location.hash is passed to $()' },
+    { library: 'jquery', below: '1.9.0', severity: 'medium', identifiers: ['CVE-2012-6708'], summary: 'XSS: selectors not starting with < are still parsed as HTML' },
+    { library: 'jquery', below: '3.0.0', severity: 'medium', identifiers: ['CVE-2015-9251'], summary: 'Cross-domain Ajax responses with a text/javascript type are executed' },
+    { library: 'jquery', below: '3.4.0', severity: 'medium', identifiers: ['CVE-2019-11358'], summary: 'Prototype pollution in jQuery.extend(true, ...)' },
+    { library: 'jquery', atOrAbove: '1.2.0', below: '3.5.0', severity: 'medium', identifiers: ['CVE-2020-11022'], summary: 'XSS in htmlPrefilter when untrusted HTML reaches DOM manipulation methods' },
+    { library: 'jquery', atOrAbove: '1.0.3', below: '3.5.0', severity: 'medium', identifiers: ['CVE-2020-11023'], summary: 'XSS when HTML containing <option> elements reaches DOM manipulation methods' },
+
+    { library: 'jquery-ui', below: '1.10.0', severity: 'medium', identifiers: ['CVE-2010-5312'], summary: 'XSS in the dialog title option' },
+    { library: 'jquery-ui', below: '1.12.0', severity: 'medium', identifiers: ['CVE-2016-7103'], summary: 'XSS in the dialog closeText option' },
+    { library: 'jquery-ui', below: '1.13.0', severity: 'medium', identifiers: ['CVE-2021-41182'], summary: 'XSS in the datepicker altField option' },
+    { library: 'jquery-ui', below: '1.13.0', severity: 'medium', identifiers: ['CVE-2021-41183'], summary: 'XSS in the datepicker *Text options' },
+    { library: 'jquery-ui', below: '1.13.0', severity: 'medium', identifiers: ['CVE-2021-41184'], summary: 'XSS in the of option of .position()' },
+    { library: 'jquery-ui', below: '1.13.2', severity: 'medium', identifiers: ['CVE-2022-31160'], summary: 'XSS when refreshing checkboxradio labels with encoded HTML' },
+
+    { library: 'lodash', below: '4.17.5', severity: 'medium', identifiers: ['CVE-2018-3721'], summary: 'Prototype pollution in merge, mergeWith and defaultsDeep' },
+    { library: 'lodash', below: '4.17.11', severity: 'high', identifiers: ['CVE-2018-16487'], summary: 'Prototype pollution in merge, mergeWith and defaultsDeep' },
+    { library: 'lodash', below: '4.17.12', severity: 'critical', identifiers: ['CVE-2019-10744'], summary: 'Prototype pollution in defaultsDeep' },
+    { library: 'lodash', atOrAbove: '3.7.0', below: '4.17.19', severity: 'high', identifiers: ['CVE-2020-8203'], summary: 'Prototype pollution in zipObjectDeep' },
+    { library: 'lodash', below: '4.17.21', severity: 'high', identifiers: ['CVE-2021-23337'], summary: 'Command injection through template' },
+    { library: 'lodash', below: '4.17.21', severity: 'medium', identifiers: ['CVE-2020-28500'], summary: 'ReDoS in toNumber, trim and trimEnd' },
+
+    { library: 'underscore.js', atOrAbove: '1.3.2', below: '1.12.1', severity: 'high', identifiers: ['CVE-2021-23358'], summary: 'Arbitrary code execution through the template variable option' },
+
+    { library: 'moment.js', below: '2.11.2', severity: 'medium', identifiers: ['CVE-2016-4055'], summary: 'ReDoS in duration parsing' },
+    { library: 'moment.js', below: '2.19.3', severity: 'high', identifiers: ['CVE-2017-18214'], summary: 'ReDoS in date string parsing' },
+    { library: 'moment.js', atOrAbove: '1.0.1', below: '2.29.2', severity: 'high', identifiers: ['CVE-2022-24785'], summary: 'Path traversal in locale loading' },
+    { library: 'moment.js', atOrAbove: '2.18.0', below: '2.29.4', severity: 'high', identifiers: ['CVE-2022-31129'], summary: 'ReDoS in RFC 2822 date parsing' },
+
+    { library: 'dompurify', below: '2.0.1', severity: 'medium', identifiers: ['CVE-2019-16728'], summary: 'Mutation XSS bypass' },
+    { library: 'dompurify', below: '2.0.17', severity: 'medium', identifiers: ['CVE-2020-26870'], summary: 'Mutation XSS bypass through nested math and svg elements' },
+    { library: 'dompurify', below: '2.5.0', severity: 'critical', identifiers: ['CVE-2024-47875'], summary: 'Nesting-based mutation XSS' },
+    { library: 'dompurify', atOrAbove: '3.0.0', below: '3.1.3', severity: 'critical', identifiers: ['CVE-2024-47875'], summary: 'Nesting-based mutation XSS' },
+    { library: 'dompurify', below: '2.5.4', severity: 'high', identifiers: ['CVE-2024-45801'], summary: 'Sanitizer bypass through deep nesting and prototype pollution' },
+    { library: 'dompurify', atOrAbove: '3.0.0', below: '3.1.3', severity: 'high', identifiers: ['CVE-2024-45801'], summary: 'Sanitizer bypass through deep nesting and prototype pollution' },
+    { library: 'dompurify', below: '3.2.4', severity: 'medium', identifiers: ['CVE-2025-26791'], summary: 'Mutation XSS with SAFE_FOR_TEMPLATES through template literals' },
+
+    { library: 'angularjs', below: '1.7.9', severity: 'high', identifiers: ['CVE-2019-10768'], summary: 'Prototype pollution in angular.merge' },
+    { library: 'angularjs', below: '1.8.0', severity: 'medium', identifiers: ['CVE-2020-7676'], summary: 'XSS through <option> elements wrapped by jqLite' },
+    { library: 'angularjs', atOrAbove: '1.7.0', severity: 'medium', identifiers: ['CVE-2022-25844'], summary: 'ReDoS in the currency filter; end-of-life, no fix' },
+    { library: 'angularjs', atOrAbove: '1.2.21', severity: 'medium', identifiers: ['CVE-2023-26116'], summary: 'ReDoS in angular.copy; end-of-life, no fix' },
+    { library: 'angularjs', atOrAbove: '1.0.0', severity: 'medium', identifiers: ['CVE-2023-26117'], summary: 'ReDoS in $resource; end-of-life, no fix' },
+    { library: 'angularjs', atOrAbove: '1.4.9', severity: 'medium', identifiers: ['CVE-2023-26118'], summary: 'ReDoS in input[url] validation; end-of-life, no fix' },
+
+    { library: 'handlebars', below: '4.3.0', severity: 'critical', identifiers: ['CVE-2019-19919'], summary: 'Prototype pollution leading to remote code execution' },
+    { library: 'handlebars', below: '4.7.7', severity: 'critical', identifiers: ['CVE-2021-23369'], summary: 'Remote code execution when compiling untrusted templates' },
+    { library: 'handlebars', below: '4.7.7', severity: 'critical', identifiers: ['CVE-2021-23383'], summary: 'Prototype pollution when compiling untrusted templates' },
+
+    { library: 'bootstrap', below: '3.4.0', severity: 'medium', identifiers: ['CVE-2018-14040'], summary: 'XSS in the collapse data-parent attribute' },
+    { library: 'bootstrap', atOrAbove: '4.0.0', below: '4.1.2', severity: 'medium', identifiers: ['CVE-2018-14040'], summary: 'XSS in the collapse data-parent attribute' },
+    { library: 'bootstrap', below: '3.4.0', severity: 'medium', identifiers: ['CVE-2018-14042'], summary: 'XSS in the tooltip data-container attribute' },
+    { library: 'bootstrap', atOrAbove: '4.0.0', below: '4.1.2', severity: 'medium', identifiers: ['CVE-2018-14042'], summary: 'XSS in the tooltip data-container attribute' },
+    { library: 'bootstrap', below: '3.4.1', severity: 'medium', identifiers: ['CVE-2019-8331'], summary: 'XSS in the tooltip and popover data-template attribute' },
+    { library: 'bootstrap', atOrAbove: '4.0.0', below: '4.3.1', severity: 'medium', identifiers: ['CVE-2019-8331'], summary: 'XSS in the tooltip and popover data-template attribute' },
+    { library: 'bootstrap', atOrAbove: '3.0.0', below: '4.0.0', severity: 'medium', identifiers: ['CVE-2024-6484'], summary: 'XSS in the carousel data-slide attributes; end-of-life, no fix' },
+    { library: 'bootstrap', atOrAbove: '4.0.0', below: '5.0.0', severity: 'medium', identifiers: ['CVE-2024-6531'], summary: 'XSS in the carousel data-slide attributes; end-of-life, no fix' },
+
+    { library: 'knockout', below: '3.5.0', severity: 'medium', identifiers: ['CVE-2019-14862'], summary: 'XSS through attr binding names in IE7 and older' },
+
+    { library: 'prototypejs', below: '1.6.0.2', severity: 'high', identifiers: ['CVE-2008-7220'], summary: 'Cross-site Ajax requests' },
+    { library: 'prototypejs', atOrAbove: '1.0.0', severity: 'medium', identifiers: ['CVE-2020-27511'], summary: 'ReDoS in stripTags and unescapeHTML; no fix' },
+
+    { library: 'axios', below: '0.21.1', severity: 'medium', identifiers: ['CVE-2020-28168'], summary: 'SSRF through redirects to restricted hosts' },
+    { library: 'axios', below: '0.21.2', severity: 'high', identifiers: ['CVE-2021-3749'], summary: 'ReDoS in trim' },
+    { library: 'axios', atOrAbove: '0.8.1', below: '1.6.0', severity: 'medium', identifiers: ['CVE-2023-45857'], summary: 'XSRF-TOKEN cookie value sent to every host' },
+    { library: 'axios', atOrAbove: '1.3.2', below: '1.7.4', severity: 'high', identifiers: ['CVE-2024-39338'], summary: 'SSRF through path-relative URLs handled as protocol-relative' },
+    { library: 'axios', atOrAbove: '1.0.0', below: '1.8.2', severity: 'high', identifiers: ['CVE-2025-27152'], summary: 'SSRF and credential leakage through absolute URLs' },
+
+    { library: 'vue', atOrAbove: '2.0.0', below: '3.0.0', severity: 'low', identifiers: ['CVE-2024-9506'], summary: 'ReDoS in the template compiler; end-of-life, no fix' }
+  ]
+};
+
+/**
+ * Parse an advisory file: this plugin's `{ updated, advisories }` format or a
+ * retire.js `jsrepository.json`. Malformed entries are counted and skipped.
+ */
+export function parseAdvisoryDataset(content: string): AdvisoryImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new AdvisoryDatasetError(`Advisory file is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!isRecord(data)) {
+    throw new AdvisoryDatasetError('Advisory file must contain a JSON object');
+  }
+
+  const entries: unknown[] = Array.isArray(data.advisories)
+    ? data.advisories
+    : retireAdvisories(data);
+
+  const advisories = entries
+    .map(entry => normalizeAdvisory(entry))
+    .filter((advisory): advisory is Advisory => advisory !== null);
+  if (advisories.length === 0) {
+    throw new AdvisoryDatasetError('Advisory file contains no usable advisories');
+  }
+
+  return {
+    dataset: { updated: typeof data.updated === 'string' ? data.updated : '', advisories },
+    skipped: entries.length - advisories.length
+  };
+}
+
+/**
+ * A stored dataset, or the bundled one when storage holds nothing usable
+ */
+export function restoreAdvisoryDataset(stored: unknown): AdvisoryDataset {
+  if (stored && typeof stored === 'object' && Array.isArray((stored as AdvisoryDataset).advisories)) {
+    return stored as AdvisoryDataset;
+  }
+  return BUNDLED_ADVISORIES;
+}
+
+/**
+ * retire.js keys components by id, each with a `vulnerabilities` list whose
+ * ids sit under `identifiers.CVE` / `identifiers.githubID`
+ */
+function retireAdvisories(repository: Record<string, unknown>): unknown[] {
+  const advisories: unknown[] = [];
+
+  for (const [library, component] of Object.entries(repository)) {
+    if (!isRecord(component) || !Array.isArray(component.vulnerabilities)) continue;
+
+    for (const vulnerability of component.vulnerabilities as unknown[]) {
+      // Kept as is so it is counted as skipped
+      if (!isRecord(vulnerability)) {
+        advisories.push(vulnerability);
+        continue;
+      }
+
+      const identifiers = isRecord(vulnerability.identifiers) ? vulnerability.identifiers : {};
+      advisories.push({
+        library,
+        atOrAbove: vulnerability.atOrAbove,
+        above: vulnerability.above,
+        below: vulnerability.below,
+        severity: vulnerability.severity,
+        identifiers: [
+          ...(Array.isArray(identifiers.CVE) ? identifiers.CVE : []),
+          ...(identifiers.githubID ? [identifiers.githubID] : []),
+          ...(identifiers.issue ? [`issue ${identifiers.issue}`] : []),
+          ...(identifiers.bug ? [`bug ${identifiers.bug}`] : [])
+        ],
+        summary: identifiers.summary || ''
+      });
+    }
+  }
+
+  return advisories;
+}
+
+function normalizeAdvisory(advisory: unknown): Advisory | null {
+  if (!isRecord(advisory)) return null;
+
+  const library = typeof advisory.library === 'string' ? advisory.library.trim() : '';
+  const bound = (value: unknown) => typeof value === 'string' && /^\d/.test(value) ? value : undefined;
+  const atOrAbove = bound(advisory.atOrAbove);
+  const above = bound(advisory.above);
+  const below = bound(advisory.below);
+  const identifiers = Array.isArray(advisory.identifiers)
+    ? advisory.identifiers.filter((id): id is string => typeof id === 'string' && id.length > 0)
+    : [];
+
+  // An advisory without a range would flag every version
+  if (!library || (!atOrAbove && !above && !below) || identifiers.length === 0) {
+    return null;
+  }
+
+  const severity = typeof advisory.severity === 'string' ? advisory.severity.toLowerCase() as Severity : 'medium';
+  return {
+    library,
+    atOrAbove,
+    above,
+    below,
+    severity: SEVERITIES.includes(severity) ? severity : 'medium',
+    identifiers,
+    summary: typeof advisory.summary === 'string' ? advisory.summary : ''
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
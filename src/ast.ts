@@ -0,0 +1,237 @@
+/**
+ * Tolerant JavaScript parsing and static string evaluation helpers
+ */
+
+import { parse, Program, AnyNode, Expression, ObjectExpression, Property } from 'acorn';
+
+// Bundles larger than this are left to the regex patterns only
+export const MAX_AST_SOURCE_LENGTH = 5 * 1024 * 1024;
+
+export type IdentifierResolver = (name: string) => string | null;
+
+export interface ResolvedString {
+  value: string;
+  // Every part of the expression was a known constant
+  isStatic: boolean;
+  // At least one part of the expression was literal text
+  hasLiteral: boolean;
+}
+
+/**
+ * Parse JavaScript as a module, falling back to a script. Returns null for
+ * anything acorn cannot read (JSON, TypeScript, truncated responses).
+ */
+export function parseJavaScript(content: string): Program | null {
+  if (!content || content.length > MAX_AST_SOURCE_LENGTH) {
+    return null;
+  }
+
+  for (const sourceType of ['module', 'script'] as const) {
+    try {
+      return parse(content, {
+        ecmaVersion: 'latest',
+        sourceType,
+        allowHashBang: true,
+        allowReturnOutsideFunction: true,
+        allowAwaitOutsideFunction: true,
+        allowImportExportEverywhere: true
+      });
+    } catch {
+      // Try the next source type
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Name used for the `{placeholder}` of a value that cannot be resolved
+ */
+export function placeholderName(node: AnyNode): string {
+  switch (node.type) {
+    case 'Identifier':
+      return node.name;
+    case 'MemberExpression':
+      if (!node.computed && node.property.type === 'Identifier') return node.property.name;
+      return placeholderName(node.property);
+    case 'CallExpression':
+      return placeholderName(node.callee);
+    case 'Literal':
+      return String(node.value);
+    default:
+      return 'param';
+  }
+}
+
+/**
+ * Statically evaluate a string expression built from literals, template
+ * literals and `+` concatenation. Unknown parts become `{name}` placeholders;
+ * `resolveIdentifier` may supply known values for identifiers and `a.b` members.
+ */
+export function resolveStringExpression(node: AnyNode, resolveIdentifier?: IdentifierResolver): ResolvedString {
+  switch (node.type) {
+    case 'Literal':
+      if (typeof node.value === 'string' || typeof node.value === 'number') {
+        return { value: String(node.value), isStatic: true, hasLiteral: true };
+      }
+      break;
+
+    case 'TemplateLiteral': {
+      let value = '';
+      let isStatic = true;
+      let hasLiteral = false;
+      node.quasis.forEach((quasi, index) => {
+        const text = quasi.value.cooked ?? quasi.value.raw;
+        value += text;
+        hasLiteral = hasLiteral || text.length > 0;
+        if (index < node.expressions.length) {
+          const part = resolveStringExpression(node.expressions[index], resolveIdentifier);
+          value += part.value;
+          isStatic = isStatic && part.isStatic;
+          hasLiteral = hasLiteral || part.hasLiteral;
+        }
+      });
+      return { value, isStatic, hasLiteral };
+    }
+
+    case 'BinaryExpression':
+      if (node.operator === '+' && node.left.type !== 'PrivateIdentifier') {
+        const left = resolveStringExpression(node.left, resolveIdentifier);
+        const right = resolveStringExpression(node.right, resolveIdentifier);
+        return {
+          value: left.value + right.value,
+          isStatic: left.isStatic && right.isStatic,
+          hasLiteral: left.hasLiteral || right.hasLiteral
+        };
+      }
+      break;
+
+    case 'CallExpression':
+      // "a".concat(b, c)
+      if (node.callee.type === 'MemberExpression' &&
+          !node.callee.computed &&
+          node.callee.property.type === 'Identifier' &&
+          node.callee.property.name === 'concat' &&
+          node.callee.object.type !== 'Super') {
+        const base = resolveStringExpression(node.callee.object, resolveIdentifier);
+        if (base.hasLiteral) {
+          return node.arguments.reduce<ResolvedString>((acc, arg) => {
+            const part = resolveStringExpression(arg, resolveIdentifier);
+            return {
+              value: acc.value + part.value,
+              isStatic: acc.isStatic && part.isStatic,
+              hasLiteral: true
+            };
+          }, base);
+        }
+      }
+      break;
+
+    case 'Identifier':
+    case 'MemberExpression': {
+      const name = staticReferenceName(node);
+      const known = name && resolveIdentifier ? resolveIdentifier(name) : null;
+      if (known !== null) {
+        return { value: known, isStatic: true, hasLiteral: true };
+      }
+      break;
+    }
+
+    case 'SequenceExpression':
+      return resolveStringExpression(node.expressions[node.expressions.length - 1], resolveIdentifier);
+  }
+
+  return { value: `{${placeholderName(node)}}`, isStatic: false, hasLiteral: false };
+}
+
+/**
+ * Dotted name of an identifier or `a.b` member chain, e.g. `config.apiBase`
+ */
+export function staticReferenceName(node: AnyNode): string | null {
+  if (node.type === 'Identifier') return node.name;
+  if (node.type === 'MemberExpression' && !node.computed && node.property.type === 'Identifier') {
+    const object = staticReferenceName(node.object);
+    return object ? `${object}.${node.property.name}` : null;
+  }
+  return null;
+}
+
+/**
+ * Whether a resolved string reads as an absolute or root-relative URL
+ */
+export function looksLikeUrl(resolved: ResolvedString): boolean {
+  if (!resolved.hasLiteral || /[\s<>]/.test(resolved.value)) return false;
+  return /^(?:(?:https?|wss?):)?\/\//i.test(resolved.value) ||
+    /^\{[^}]+\}\//.test(resolved.value) ||
+    /^\.{0,2}\/[^\s]*$/.test(resolved.value);
+}
+
+/**
+ * Static name of an object property key, if it has one
+ */
+export function propertyKeyName(property: Property): string | null {
+  if (!property.computed && property.key.type === 'Identifier') return property.key.name;
+  if (property.key.type === 'Literal' && typeof property.key.value === 'string') return property.key.value;
+  return null;
+}
+
+/**
+ * Find a property value of an object literal by key name
+ */
+export function getObjectProperty(object: ObjectExpression, name: string): Expression | null {
+  for (const property of object.properties) {
+    if (property.type === 'Property' && propertyKeyName(property) === name) {
+      return property.value as Expression;
+    }
+  }
+  return null;
+}
+
+/**
+ * Key names of an object literal, also looking through wrappers such as
+ * `JSON.stringify({...})`, `new Headers({...})` and `new URLSearchParams({...})`
+ */
+export function getObjectKeys(node: AnyNode | null | undefined): string[] {
+  if (!node) return [];
+
+  if (node.type === 'ObjectExpression') {
+    const keys: string[] = [];
+    for (const property of node.properties) {
+      if (property.type !== 'Property') continue;
+      const name = propertyKeyName(property);
+      if (name) keys.push(name);
+    }
+    return keys;
+  }
+
+  if ((node.type === 'CallExpression' || node.type === 'NewExpression') && node.arguments.length > 0) {
+    return getObjectKeys(node.arguments[0]);
+  }
+
+  return [];
+}
+
+/**
+ * Name of a callee, e.g. `fetch` or `axios.post` → `post` with object `axios`
+ */
+export function calleeParts(node: AnyNode): { object: string | null; property: string | null } {
+  if (node.type === 'Identifier') {
+    return { object: null, property: node.name };
+  }
+  if (node.type === 'MemberExpression') {
+    const property = !node.computed && node.property.type === 'Identifier'
+      ? node.property.name
+      : node.property.type === 'Literal' && typeof node.property.value === 'string'
+        ? node.property.value
+        : null;
+    const object = node.object.type === 'Identifier'
+      ? node.object.name
+      : node.object.type === 'MemberExpression' && !node.object.computed && node.object.property.type === 'Identifier'
+        ? node.object.property.name
+        : node.object.type === 'ThisExpression'
+          ? 'this'
+          : null;
+    return { object, property };
+  }
+  return { object: null, property: null };
+}
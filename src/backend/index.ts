@@ -1,4 +1,46 @@
-import { DETECTION_PATTERNS, shouldExclude, PatternConfig } from "../patterns";
+import { DETECTION_PATTERNS, PatternConfig, minimumLength } from "../patterns";
+import { ScanResult, scanContent, defaultSeverity, generateId } from "../findings";
+import { buildLineIndex, locateOffset } from "../location";
+import {
+  findSourceMapReference,
+  resolveSourceMapUrl,
+  decodeInlineSourceMap,
+  parseSourceMap,
+  extractOriginalSources
+} from "../sourcemap";
+import { resolveChunkUrls } from "../chunks";
+import { mergeRoute } from "../routes";
+import { configFlags } from "../config";
+import { ORIGIN_CHECK_LABELS } from "../postmessage";
+import { findAdvisories, advisorySeverity, advisoryIdentifiers } from "../libraries";
+import {
+  AdvisoryDataset,
+  ADVISORIES_STORAGE_KEY,
+  BUNDLED_ADVISORIES,
+  parseAdvisoryDataset,
+  restoreAdvisoryDataset
+} from "../advisories";
+import { formatSubdomainList, HOST_CLASS_LABELS, HOST_PATTERN_NAMES } from "../hosts";
+import { describeBucket } from "../buckets";
+import {
+  CustomPatternDefinition,
+  CUSTOM_PATTERNS_STORAGE_KEY,
+  compileCustomPattern,
+  testCustomPattern,
+  mergePatterns
+} from "../custompatterns";
+import { importRules, RuleFormat } from "../ruleimport";
+import {
+  PatternSettings,
+  PatternSettingsMap,
+  PATTERN_SETTINGS_STORAGE_KEY,
+  normalizePatternSettings,
+  applyPatternSettings
+} from "../patternsettings";
+import { MAX_FILTERED_RESULTS } from "../exclusions";
+import { summarizeJwt } from "../jwt";
+import { EXPOSURE_LABELS } from "../keyclass";
+import { printOperation, buildPartialSchema, GraphQLOperation } from "../graphql";
 
 // Caido SDK types
 interface CaidoRequest {
@@ -42,45 +84,95 @@ interface CaidoHttp {
   }): Promise<{ status: number; body: ArrayBuffer; headers: Record<string, string> }>;
 }
 
+interface CaidoStorage {
+  get(key: string): Promise<any>;
+  set(key: string, value: any): Promise<void>;
+}
+
 interface Caido {
   proxy: CaidoProxy;
   scope: CaidoScope;
   commands: CaidoCommands;
   console: CaidoConsole;
   http: CaidoHttp;
+  storage: CaidoStorage;
 }
 
-export interface ScanResult {
-  id: string;
-  fileUrl: string;
-  matchType: string;
-  matchValue: string;
-  sourceRequestId: string;
-  sourceUrl: string;
-  patternName: string;
-  timestamp: number;
-  severity: 'critical' | 'high' | 'medium' | 'low' | 'info';
-}
+export type { ScanResult } from "../findings";
 
 export interface JSFile {
   url: string;
   content: string;
   sourceRequestId: string;
   sourceUrl: string;
+  sourceMapUrl?: string;
 }
 
 class JSEndpointSecretHunter {
   private caido: Caido;
   private scannedFiles = new Set<string>();
   private results: ScanResult[] = [];
+  private filteredResults: ScanResult[] = [];
   private isEnabled: boolean = true;
   private processedRequests = new Set<string>();
   private cache = new Map<string, string>();
+  private customPatterns: CustomPatternDefinition[] = [];
+  private patternSettings: PatternSettingsMap = {};
+  private patterns: PatternConfig[] = DETECTION_PATTERNS;
+  private advisoryDataset: AdvisoryDataset = BUNDLED_ADVISORIES;
 
   constructor(caido: Caido) {
     this.caido = caido;
     this.setupResponseMonitoring();
     this.registerCommands();
+    this.loadPatterns();
+    this.loadAdvisories();
+  }
+
+  private async loadPatterns(): Promise<void> {
+    try {
+      const stored = await this.caido.storage.get(CUSTOM_PATTERNS_STORAGE_KEY);
+      this.customPatterns = Array.isArray(stored) ? stored : [];
+      const settings = await this.caido.storage.get(PATTERN_SETTINGS_STORAGE_KEY);
+      this.patternSettings = settings && typeof settings === 'object' ? settings : {};
+    } catch (error) {
+      this.caido.console.error('Failed to load patterns:', error);
+    }
+    this.refreshPatterns();
+  }
+
+  private async loadAdvisories(): Promise<void> {
+    try {
+      this.advisoryDataset = restoreAdvisoryDataset(await this.caido.storage.get(ADVISORIES_STORAGE_KEY));
+    } catch (error) {
+      this.caido.console.error('Failed to load advisories:', error);
+    }
+  }
+
+  /**
+   * Match library findings found so far against the current dataset
+   */
+  private refreshLibraryAdvisories(): void {
+    for (const result of this.results) {
+      if (!result.library) continue;
+      result.advisories = findAdvisories(result.library, this.advisoryDataset.advisories);
+      result.patternName = result.advisories.length > 0 ? 'Vulnerable Library' : 'Library Fingerprint';
+      result.severity = advisorySeverity(result.advisories);
+    }
+  }
+
+  private refreshPatterns(): void {
+    this.patterns = applyPatternSettings(mergePatterns(this.customPatterns), this.patternSettings);
+  }
+
+  private async saveCustomPatterns(): Promise<void> {
+    this.refreshPatterns();
+    await this.caido.storage.set(CUSTOM_PATTERNS_STORAGE_KEY, this.customPatterns);
+  }
+
+  private async savePatternSettings(): Promise<void> {
+    this.refreshPatterns();
+    await this.caido.storage.set(PATTERN_SETTINGS_STORAGE_KEY, this.patternSettings);
   }
 
   private setupResponseMonitoring(): void {
@@ -111,7 +203,8 @@ class JSEndpointSecretHunter {
             url,
             content: bodyText,
             sourceRequestId: requestId,
-            sourceUrl: url
+            sourceUrl: url,
+            sourceMapUrl: response.getHeader('sourcemap') || response.getHeader('x-sourcemap')
           });
         }
         // Extract JS files from HTML
@@ -148,6 +241,13 @@ class JSEndpointSecretHunter {
       }
     });
 
+    this.caido.commands.register('js-hunter.get-filtered-results', {
+      name: 'Get Filtered Out Results',
+      run: () => {
+        return { results: this.filteredResults };
+      }
+    });
+
     this.caido.commands.register('js-hunter.clear-results', {
       name: 'Clear Scan Results',
       run: () => {
@@ -158,11 +258,196 @@ class JSEndpointSecretHunter {
 
     this.caido.commands.register('js-hunter.export-results', {
       name: 'Export Results',
-      run: (format: 'json' | 'csv') => {
+      run: (format: 'json' | 'csv' | 'wordlist' | 'graphql' | 'subdomains') => {
         return this.exportResults(format);
       }
     });
 
+    this.caido.commands.register('js-hunter.list-patterns', {
+      name: 'List Detection Patterns',
+      run: () => {
+        return {
+          builtIn: DETECTION_PATTERNS.map(p => ({
+            name: p.name,
+            regex: p.regex.source,
+            flags: p.regex.flags,
+            type: p.type,
+            description: p.description,
+            provider: p.provider
+          })),
+          custom: this.customPatterns
+        };
+      }
+    });
+
+    this.caido.commands.register('js-hunter.save-pattern', {
+      name: 'Save Custom Pattern',
+      run: async (definition: CustomPatternDefinition) => {
+        try {
+          compileCustomPattern(definition);
+        } catch (error) {
+          return { success: false, error: (error as Error).message };
+        }
+
+        const pattern = { ...definition, id: definition.id || `custom-${generateId()}` };
+        const index = this.customPatterns.findIndex(p => p.id === pattern.id);
+        if (index >= 0) {
+          this.customPatterns[index] = pattern;
+        } else {
+          this.customPatterns.push(pattern);
+        }
+        await this.saveCustomPatterns();
+        return { success: true, pattern };
+      }
+    });
+
+    this.caido.commands.register('js-hunter.test-pattern', {
+      name: 'Test Custom Pattern',
+      run: (definition: CustomPatternDefinition, sample: string) => {
+        try {
+          return { success: true, matches: testCustomPattern(definition, sample || '') };
+        } catch (error) {
+          return { success: false, error: (error as Error).message };
+        }
+      }
+    });
+
+    this.caido.commands.register('js-hunter.import-rules', {
+      name: 'Import gitleaks/trufflehog Rules',
+      run: async (content: string, format?: RuleFormat) => {
+        let report;
+        try {
+          report = importRules(content || '', { format });
+        } catch (error) {
+          return { success: false, error: (error as Error).message };
+        }
+
+        // Re-importing a rule file updates the rules it imported before
+        for (const pattern of report.patterns) {
+          const index = this.customPatterns.findIndex(p => p.id === pattern.id);
+          if (index >= 0) {
+            this.customPatterns[index] = { ...pattern, enabled: this.customPatterns[index].enabled };
+          } else {
+            this.customPatterns.push(pattern);
+          }
+        }
+        await this.saveCustomPatterns();
+
+        return {
+          success: true,
+          format: report.format,
+          imported: report.patterns.length,
+          failures: report.failures,
+          warnings: report.warnings
+        };
+      }
+    });
+
+    this.caido.commands.register('js-hunter.get-advisories', {
+      name: 'Get Advisory Dataset',
+      run: () => {
+        return {
+          updated: this.advisoryDataset.updated,
+          advisories: this.advisoryDataset.advisories.length,
+          bundled: this.advisoryDataset === BUNDLED_ADVISORIES
+        };
+      }
+    });
+
+    this.caido.commands.register('js-hunter.load-advisories', {
+      name: 'Load Advisory Dataset',
+      run: async (content: string) => {
+        let report;
+        try {
+          report = parseAdvisoryDataset(content || '');
+        } catch (error) {
+          return { success: false, error: (error as Error).message };
+        }
+
+        this.advisoryDataset = report.dataset;
+        await this.caido.storage.set(ADVISORIES_STORAGE_KEY, report.dataset);
+        this.refreshLibraryAdvisories();
+        return {
+          success: true,
+          updated: report.dataset.updated,
+          advisories: report.dataset.advisories.length,
+          skipped: report.skipped
+        };
+      }
+    });
+
+    this.caido.commands.register('js-hunter.reset-advisories', {
+      name: 'Reset Advisory Dataset',
+      run: async () => {
+        this.advisoryDataset = BUNDLED_ADVISORIES;
+        await this.caido.storage.set(ADVISORIES_STORAGE_KEY, null);
+        this.refreshLibraryAdvisories();
+        return { success: true, updated: BUNDLED_ADVISORIES.updated, advisories: BUNDLED_ADVISORIES.advisories.length };
+      }
+    });
+
+    this.caido.commands.register('js-hunter.toggle-pattern', {
+      name: 'Enable/Disable Custom Pattern',
+      run: async (id: string, enabled: boolean) => {
+        const pattern = this.customPatterns.find(p => p.id === id);
+        if (!pattern) return { success: false, error: `Unknown pattern ${id}` };
+        pattern.enabled = enabled;
+        await this.saveCustomPatterns();
+        return { success: true, pattern };
+      }
+    });
+
+    this.caido.commands.register('js-hunter.delete-pattern', {
+      name: 'Delete Custom Pattern',
+      run: async (id: string) => {
+        const before = this.customPatterns.length;
+        this.customPatterns = this.customPatterns.filter(p => p.id !== id);
+        if (this.customPatterns.length === before) return { success: false, error: `Unknown pattern ${id}` };
+        await this.saveCustomPatterns();
+        return { success: true };
+      }
+    });
+
+    this.caido.commands.register('js-hunter.get-pattern-settings', {
+      name: 'Get Pattern Settings',
+      run: () => {
+        return mergePatterns(this.customPatterns).map(pattern => ({
+          name: pattern.name,
+          type: pattern.type,
+          provider: pattern.provider,
+          builtIn: DETECTION_PATTERNS.includes(pattern),
+          defaultSeverity: pattern.severity || defaultSeverity(pattern.type, pattern.name),
+          defaultMinLength: minimumLength(pattern),
+          settings: this.patternSettings[pattern.name] || {}
+        }));
+      }
+    });
+
+    this.caido.commands.register('js-hunter.update-pattern-settings', {
+      name: 'Update Pattern Settings',
+      run: async (patternName: string, settings: PatternSettings | null) => {
+        if (!mergePatterns(this.customPatterns).some(p => p.name === patternName)) {
+          return { success: false, error: `Unknown pattern ${patternName}` };
+        }
+
+        let normalized: PatternSettings;
+        try {
+          normalized = normalizePatternSettings(settings || {});
+        } catch (error) {
+          return { success: false, error: (error as Error).message };
+        }
+
+        // Settings back at their defaults are not stored
+        if (Object.keys(normalized).length === 0) {
+          delete this.patternSettings[patternName];
+        } else {
+          this.patternSettings[patternName] = normalized;
+        }
+        await this.savePatternSettings();
+        return { success: true, settings: normalized };
+      }
+    });
+
     this.caido.commands.register('js-hunter.toggle-enabled', {
       name: 'Toggle Scanner',
       run: () => {
@@ -259,8 +544,90 @@ class JSEndpointSecretHunter {
       jsFile.sourceRequestId,
       jsFile.sourceUrl
     );
+    await this.applyHostScope(results);
+    this.recordResults(results);
+
+    await this.processSourceMap(jsFile);
+    await this.processChunks(jsFile);
+  }
+
+  private async processChunks(jsFile: JSFile): Promise<void> {
+    for (const chunkUrl of resolveChunkUrls(jsFile.content, jsFile.url)) {
+      if (this.scannedFiles.has(chunkUrl)) continue;
 
+      const chunkContent = await this.downloadJSFile(chunkUrl);
+      if (!chunkContent) continue;
+
+      // Lazy chunks are attributed to the bundle that references them
+      await this.processJSFile({
+        url: chunkUrl,
+        content: chunkContent,
+        sourceRequestId: jsFile.sourceRequestId,
+        sourceUrl: jsFile.url
+      });
+    }
+  }
+
+  private async processSourceMap(jsFile: JSFile): Promise<void> {
+    const reference = findSourceMapReference(jsFile.content, jsFile.sourceMapUrl);
+    if (!reference) return;
+
+    const mapUrl = resolveSourceMapUrl(reference.url, jsFile.url);
+    if (!mapUrl || this.scannedFiles.has(mapUrl)) return;
+    this.scannedFiles.add(mapUrl);
+
+    const isInline = mapUrl.startsWith('data:');
+    const mapText = isInline ? decodeInlineSourceMap(mapUrl) : await this.downloadJSFile(mapUrl);
+    if (!mapText) return;
+
+    const map = parseSourceMap(mapText);
+    if (!map) return;
+
+    const originalSources = extractOriginalSources(map);
+    const exposure: ScanResult = {
+      id: generateId(),
+      fileUrl: jsFile.url,
+      matchType: 'sourcemap',
+      matchValue: isInline ? `${jsFile.url} (inline source map)` : mapUrl,
+      sourceRequestId: jsFile.sourceRequestId,
+      sourceUrl: jsFile.sourceUrl,
+      patternName: 'Exposed Source Map',
+      timestamp: Date.now(),
+      severity: originalSources.length > 0 ? 'medium' : 'low',
+      context: `${map.sources.length} sources, ${originalSources.length} with embedded content`
+    };
+    if (reference.offset >= 0) {
+      Object.assign(exposure, locateOffset(buildLineIndex(jsFile.content), reference.offset));
+    }
+    this.recordResults([exposure]);
+
+    // Findings in original sources point at the original file, not the bundle
+    for (const source of originalSources) {
+      const results = this.scanJSContent(
+        source.content,
+        source.path,
+        jsFile.sourceRequestId,
+        jsFile.sourceUrl
+      );
+      for (const result of results) {
+        result.bundleUrl = jsFile.url;
+      }
+      await this.applyHostScope(results);
+      this.recordResults(results);
+    }
+  }
+
+  private recordResults(results: ScanResult[]): void {
     for (const result of results) {
+      if (result.exclusion) {
+        this.filteredResults.push(result);
+        if (this.filteredResults.length > MAX_FILTERED_RESULTS) this.filteredResults.shift();
+        continue;
+      }
+
+      // Templates found in another file already have a row
+      if (mergeRoute(this.results, result)) continue;
+
       this.results.push(result);
       this.caido.console.log(
         `[JS Hunter] ${this.getTypeIcon(result.matchType)} Found ${result.patternName}: ${result.matchValue}`
@@ -268,66 +635,35 @@ class JSEndpointSecretHunter {
     }
   }
 
-  private scanJSContent(
-    content: string,
-    fileUrl: string,
-    sourceRequestId: string,
-    sourceUrl: string
-  ): ScanResult[] {
-    const results: ScanResult[] = [];
-
-    for (const pattern of DETECTION_PATTERNS) {
-      const matches = content.match(pattern.regex);
-      if (matches) {
-        for (const match of matches) {
-          const cleanMatch = match.replace(/["']/g, '').trim();
-          
-          // Skip if should be excluded
-          if (shouldExclude(cleanMatch)) continue;
-          
-          // Skip duplicates
-          if (results.some(r => r.matchValue === cleanMatch && r.matchType === pattern.type)) {
-            continue;
-          }
+  private scanJSContent(content: string, fileUrl: string, sourceRequestId: string, sourceUrl: string): ScanResult[] {
+    return scanContent(content, fileUrl, sourceRequestId, sourceUrl, {
+      patterns: this.patterns,
+      advisories: this.advisoryDataset.advisories,
+      onPatternError: (pattern, error) => this.caido.console.error(`Pattern "${pattern.name}" failed:`, error)
+    });
+  }
 
-          // Apply minimum length requirements
-          if (pattern.type === 'secret' && cleanMatch.length < 8) continue;
-          if (pattern.type === 'endpoint' && cleanMatch.length < 5) continue;
-
-          const result: ScanResult = {
-            id: this.generateId(),
-            fileUrl,
-            matchType: pattern.type,
-            matchValue: cleanMatch,
-            sourceRequestId,
-            sourceUrl,
-            patternName: pattern.name,
-            timestamp: Date.now(),
-            severity: this.getSeverity(pattern.type, pattern.name)
-          };
-
-          results.push(result);
-        }
-      }
-    }
+  /**
+   * Promote `host` findings the proxy scope covers to in-scope. Scope is
+   * only known asynchronously, so this runs after the synchronous scan.
+   */
+  private async applyHostScope(results: ScanResult[]): Promise<void> {
+    const scopes = new Map<string, boolean>();
 
-    return results;
-  }
+    for (const result of results) {
+      if (result.matchType !== 'host') continue;
 
-  private getSeverity(type: string, patternName: string): 'critical' | 'high' | 'medium' | 'low' | 'info' {
-    if (type === 'secret') {
-      if (patternName.includes('AWS') || patternName.includes('Private Key') || patternName.includes('Database')) {
-        return 'critical';
-      }
-      if (patternName.includes('API Key') || patternName.includes('JWT') || patternName.includes('Token')) {
-        return 'high';
+      let inScope = scopes.get(result.matchValue);
+      if (inScope === undefined) {
+        inScope = await this.caido.scope.isInScope(`https://${result.matchValue}/`);
+        scopes.set(result.matchValue, inScope);
       }
-      return 'medium';
+      if (!inScope) continue;
+
+      result.hostClass = 'in-scope';
+      result.patternName = HOST_PATTERN_NAMES['in-scope'];
+      result.severity = defaultSeverity('host', result.patternName);
     }
-    if (type === 'endpoint') return 'medium';
-    if (type === 'email') return 'low';
-    if (type === 'ip') return 'info';
-    return 'info';
   }
 
   private getTypeIcon(type: string): string {
@@ -336,14 +672,20 @@ class JSEndpointSecretHunter {
       case 'endpoint': return '🌐';
       case 'email': return '📧';
       case 'ip': return '🖥️';
+      case 'sourcemap': return '🗺️';
+      case 'parameter': return '🧷';
+      case 'graphql': return '🕸️';
+      case 'bucket': return '🪣';
+      case 'host': return '🏠';
+      case 'route': return '🚪';
+      case 'config': return '⚙️';
+      case 'library': return '📚';
+      case 'sink': return '💉';
+      case 'postmessage': return '📨';
       default: return '🔍';
     }
   }
 
-  private generateId(): string {
-    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  }
-
   private getStats() {
     const stats = {
       totalResults: this.results.length,
@@ -363,12 +705,30 @@ class JSEndpointSecretHunter {
 
   private clearResults(): void {
     this.results = [];
+    this.filteredResults = [];
     this.scannedFiles.clear();
     this.processedRequests.clear();
     this.cache.clear();
   }
 
-  private exportResults(format: 'json' | 'csv'): string {
+  private exportResults(format: 'json' | 'csv' | 'wordlist' | 'graphql' | 'subdomains'): string {
+    if (format === 'subdomains') {
+      // Every harvested hostname once, grouped under its root domain
+      return formatSubdomainList(this.results.filter(r => r.matchType === 'host').map(r => r.matchValue));
+    }
+    if (format === 'graphql') {
+      // Operations seen in several files are counted once
+      const operations = new Map<string, GraphQLOperation>();
+      for (const r of this.results) {
+        if (r.graphql) operations.set(printOperation(r.graphql), r.graphql);
+      }
+      return buildPartialSchema([...operations.values()]);
+    }
+    if (format === 'wordlist') {
+      // One parameter name per line, for parameter discovery tools
+      const names = new Set(this.results.filter(r => r.matchType === 'parameter').map(r => r.matchValue));
+      return [...names].sort().join('\n');
+    }
     if (format === 'json') {
       return JSON.stringify({
         metadata: {
@@ -379,14 +739,46 @@ class JSEndpointSecretHunter {
         results: this.results
       }, null, 2);
     } else {
-      const headers = ['ID', 'Type', 'Severity', 'Pattern', 'Value', 'File URL', 'Source URL', 'Timestamp'];
+      const headers = ['ID', 'Type', 'Severity', 'Pattern', 'Provider', 'Format Valid', 'Exposure', 'Value', 'Samples', 'Protocol', 'Method', 'Headers', 'Body Keys', 'Parameter Locations', 'Linked Endpoints', 'GraphQL', 'Bucket', 'Bucket Path', 'Host Class', 'Route Chunk', 'Route Guards', 'Route Roles', 'Config', 'Config Flags', 'Sink', 'Sink Source', 'Origin Check', 'Message Actions', 'Advisories', 'Decoding', 'Entropy', 'Charset', 'JWT Flags', 'JWT Claims', 'File URL', 'Line', 'Column', 'Bundle URL', 'Source URL', 'Timestamp'];
       const rows = this.results.map(r => [
         r.id,
         r.matchType,
         r.severity,
         r.patternName,
+        r.provider ?? '',
+        r.formatValid ?? '',
+        r.classification ? EXPOSURE_LABELS[r.classification.exposure] : '',
         r.matchValue,
+        (r.samples || []).join(' '),
+        r.protocol ?? '',
+        r.httpMethod ?? '',
+        (r.requestHeaders || []).join(' '),
+        (r.bodyKeys || []).join(' '),
+        (r.parameterLocations || []).join(' '),
+        (r.parameterEndpoints || []).join(' '),
+        r.graphql ? printOperation(r.graphql) : '',
+        r.bucket ? describeBucket(r.bucket) : '',
+        r.bucket?.path ?? '',
+        r.hostClass ? HOST_CLASS_LABELS[r.hostClass] : '',
+        r.clientRoute?.chunk ?? '',
+        (r.clientRoute?.guards || []).join(' '),
+        (r.clientRoute?.roles || []).join(' '),
+        (r.config || []).map(entry => `${entry.key}=${entry.value}`).join('; '),
+        r.config ? configFlags(r.config).join(' ') : '',
+        r.sink?.sink ?? '',
+        r.sink?.source ?? '',
+        r.messageHandler ? ORIGIN_CHECK_LABELS[r.messageHandler.originCheck] : '',
+        (r.messageHandler?.actions || []).join(' '),
+        advisoryIdentifiers(r.advisories || []).join(' '),
+        (r.decodingChain || []).join(' → '),
+        r.entropy ?? '',
+        r.charset ?? '',
+        (r.jwt?.flags || []).join(' '),
+        r.jwt ? summarizeJwt(r.jwt) : '',
         r.fileUrl,
+        r.line ?? '',
+        r.column ?? '',
+        r.bundleUrl ?? '',
         r.sourceUrl,
         new Date(r.timestamp).toISOString()
       ]);
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { describeBucket, extractBuckets, parseBucketUrl } from './buckets';
+
+describe('parseBucketUrl', () => {
+  it('reads virtual-hosted, path-style and website S3 URLs', () => {
+    expect(parseBucketUrl('https://assets-prod.s3.eu-west-1.amazonaws.com/img/logo.png')).toEqual(
+      { provider: 'AWS S3', kind: 'storage', bucket: 'assets-prod', region: 'eu-west-1', path: 'img/logo.png' }
+    );
+    expect(parseBucketUrl('https://s3.us-east-2.amazonaws.com/backups/db.sql.gz')).toEqual(
+      { provider: 'AWS S3', kind: 'storage', bucket: 'backups', region: 'us-east-2', path: 'db.sql.gz' }
+    );
+    expect(parseBucketUrl('http://www.example.com.s3-website-us-west-2.amazonaws.com/')).toEqual(
+      { provider: 'AWS S3', kind: 'storage', bucket: 'www.example.com', region: 'us-west-2', path: undefined }
+    );
+    expect(parseBucketUrl('https://s3.amazonaws.com/')).toBeNull();
+  });
+
+  it('reads Google Cloud Storage hosts and paths', () => {
+    expect(parseBucketUrl('https://storage.googleapis.com/acme-uploads/avatars/1.png')).toMatchObject(
+      { provider: 'Google Cloud Storage', bucket: 'acme-uploads', path: 'avatars/1.png' }
+    );
+    expect(parseBucketUrl('//acme-media.storage.googleapis.com/video.mp4')).toMatchObject(
+      { provider: 'Google Cloud Storage', bucket: 'acme-media', path: 'video.mp4' }
+    );
+    expect(parseBucketUrl('https://firebasestorage.googleapis.com/v0/b/acme.appspot.com/o/users%2F42%2Fid.jpg?alt=media')).toMatchObject(
+      { provider: 'Firebase Storage', bucket: 'acme.appspot.com', path: 'users/42/id.jpg' }
+    );
+  });
+
+  it('reads Azure Blob containers under their account', () => {
+    expect(parseBucketUrl('https://acmestore.blob.core.windows.net/invoices/2024/01.pdf')).toEqual(
+      { provider: 'Azure Blob Storage', kind: 'storage', bucket: 'acmestore/invoices', region: undefined, path: '2024/01.pdf' }
+    );
+  });
+
+  it('reads DigitalOcean Spaces with their region', () => {
+    expect(parseBucketUrl('https://acme-static.nyc3.cdn.digitaloceanspaces.com/app.css')).toMatchObject(
+      { provider: 'DigitalOcean Spaces', bucket: 'acme-static', region: 'nyc3', path: 'app.css' }
+    );
+    expect(parseBucketUrl('https://ams3.digitaloceanspaces.com/acme-backups')).toMatchObject(
+      { provider: 'DigitalOcean Spaces', bucket: 'acme-backups', region: 'ams3' }
+    );
+  });
+
+  it('reports CloudFront and Front Door hosts as CDN origins', () => {
+    expect(parseBucketUrl('https://d111111abcdef8.cloudfront.net/static/app.js')).toEqual(
+      { provider: 'AWS CloudFront', kind: 'cdn', bucket: 'd111111abcdef8.cloudfront.net', path: 'static/app.js' }
+    );
+    expect(parseBucketUrl('https://acme-prod-h7dzb2c8f3e4.z01.azurefd.net/')).toMatchObject(
+      { provider: 'Azure Front Door', kind: 'cdn', bucket: 'acme-prod-h7dzb2c8f3e4.z01.azurefd.net' }
+    );
+  });
+
+  it('reads storage URIs and ignores other hosts', () => {
+    expect(parseBucketUrl('s3://data-lake/raw/events.json')).toMatchObject({ provider: 'AWS S3', bucket: 'data-lake', path: 'raw/events.json' });
+    expect(parseBucketUrl('gs://acme.firebasestorage.app')).toMatchObject({ provider: 'Firebase Storage', bucket: 'acme.firebasestorage.app' });
+    expect(parseBucketUrl('https://ec2.us-east-1.amazonaws.com/')).toBeNull();
+    expect(parseBucketUrl('https://example.com/bucket')).toBeNull();
+  });
+});
+
+describe('extractBuckets', () => {
+  it('finds bucket URLs and the storageBucket of a Firebase config', () => {
+    const content = [
+      'const firebaseConfig = { apiKey: key, authDomain: "acme.firebaseapp.com", storageBucket: "acme.appspot.com" };',
+      'img.src = "https://assets-prod.s3.amazonaws.com/logo.png";',
+      'const docs = "https://example.com/docs";'
+    ].join('\n');
+    const buckets = extractBuckets(content);
+
+    expect(buckets.map(bucket => [bucket.url, describeBucket(bucket.location)])).toEqual([
+      ['https://assets-prod.s3.amazonaws.com/logo.png', 'AWS S3 assets-prod'],
+      ['gs://acme.appspot.com', 'Firebase Storage acme.appspot.com']
+    ]);
+    expect(content.substring(buckets[1].offset, buckets[1].offset + buckets[1].length)).toBe('storageBucket: "acme.appspot.com"');
+  });
+});
+
+describe('describeBucket', () => {
+  it('adds the region when known', () => {
+    expect(describeBucket({ provider: 'AWS S3', kind: 'storage', bucket: 'assets-prod', region: 'eu-west-1' })).toBe('AWS S3 assets-prod (eu-west-1)');
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Cloud storage bucket and CDN origin references, parsed into provider,
+ * bucket, region and object path
+ */
+
+export type BucketKind = 'storage' | 'cdn';
+
+export interface BucketLocation {
+  provider: string;
+  kind: BucketKind;
+  // Bucket or container name; Azure containers are `account/container`
+  bucket: string;
+  region?: string;
+  // Object key or path inside the bucket, without a leading slash
+  path?: string;
+}
+
+export interface BucketReference {
+  url: string;
+  location: BucketLocation;
+  offset: number;
+  length: number;
+}
+
+interface HostRule {
+  regex: RegExp;
+  parse: (host: RegExpExecArray, segments: string[]) => BucketLocation | null;
+}
+
+// Storage URIs, and URLs or bare hosts on a storage or CDN domain
+const CANDIDATE_REGEX = /\b(?:s3|gs):\/\/[^\s"'<>\[\]{}|\\^`]+|(?:https?:)?(?:\/\/)?\b[a-z0-9][a-z0-9.\-]*\.(?:amazonaws\.com|googleapis\.com|storage\.cloud\.google\.com|core\.windows\.net|digitaloceanspaces\.com|cloudfront\.net|azureedge\.net|azurefd\.net)(?::\d+)?(?:\/[^\s"'<>\[\]{}|\\^`]*)?/gi;
+
+// Firebase web config: storageBucket: "project.appspot.com"
+const STORAGE_BUCKET_REGEX = /["']?storageBucket["']?\s*:\s*["']([a-z0-9][a-z0-9.\-_]{2,221})["']/gi;
+
+const AWS_REGION = '[a-z]{2}(?:-gov|-iso[a-z]?)?-[a-z]+-\\d';
+
+// Default buckets of Firebase projects are GCS buckets on these domains
+const FIREBASE_BUCKET_REGEX = /\.(?:appspot\.com|firebasestorage\.app)$/i;
+
+const HOST_RULES: HostRule[] = [
+  {
+    // bucket.s3.amazonaws.com, bucket.s3.eu-west-1.amazonaws.com, bucket.s3-website-us-east-1.amazonaws.com
+    // and the path-style s3.amazonaws.com/bucket forms
+    regex: new RegExp(`^(?:(.+)\\.)?s3(?:[.-]website)?(?:[.-]accelerate)?(?:[.-]dualstack)?(?:[.-](${AWS_REGION}|external-1))?\\.amazonaws\\.com(?:\\.cn)?$`, 'i'),
+    parse: (host, segments) => host[1]
+      ? storage('AWS S3', host[1], segments, host[2])
+      : pathStyle('AWS S3', segments, host[2])
+  },
+  {
+    regex: /^firebasestorage\.googleapis\.com$/i,
+    // /v0/b/{bucket}/o/{url-encoded path}
+    parse: (_host, segments) => segments[0] === 'v0' && segments[1] === 'b' && segments[2]
+      ? storage('Firebase Storage', segments[2], segments.slice(4))
+      : null
+  },
+  {
+    regex: /^(?:(.+)\.)?storage\.googleapis\.com$|^storage\.cloud\.google\.com$/i,
+    parse: (host, segments) => host[1]
+      ? storage(gcsProvider(host[1]), host[1], segments)
+      : segments[0] ? storage(gcsProvider(segments[0]), segments[0], segments.slice(1)) : null
+  },
+  {
+    regex: /^([a-z0-9]{3,24})\.(?:blob|dfs)\.core\.windows\.net$/i,
+    parse: (host, segments) => storage('Azure Blob Storage', segments[0] ? `${host[1]}/${segments[0]}` : host[1], segments.slice(1))
+  },
+  {
+    // bucket.nyc3.digitaloceanspaces.com, bucket.nyc3.cdn.digitaloceanspaces.com and nyc3.digitaloceanspaces.com/bucket
+    regex: /^(?:(.+)\.)?([a-z]{3}\d)\.(?:cdn\.)?digitaloceanspaces\.com$/i,
+    parse: (host, segments) => host[1]
+      ? storage('DigitalOcean Spaces', host[1], segments, host[2])
+      : pathStyle('DigitalOcean Spaces', segments, host[2])
+  },
+  {
+    regex: /^([a-z0-9]+)\.cloudfront\.net$/i,
+    parse: (host, segments) => cdn('AWS CloudFront', host[0], segments)
+  },
+  {
+    regex: /^([a-z0-9\-]+)\.azureedge\.net$/i,
+    parse: (host, segments) => cdn('Azure CDN', host[0], segments)
+  },
+  {
+    regex: /^([a-z0-9.\-]+)\.azurefd\.net$/i,
+    parse: (host, segments) => cdn('Azure Front Door', host[0], segments)
+  }
+];
+
+/**
+ * Parse a storage URI or URL into its bucket location, or null when it does
+ * not point at a known storage service or CDN
+ */
+export function parseBucketUrl(value: string): BucketLocation | null {
+  const uri = /^(s3|gs):\/\/([^\/?#]+)([^?#]*)/i.exec(value);
+  if (uri) {
+    const segments = splitPath(uri[3]);
+    return uri[1].toLowerCase() === 's3'
+      ? storage('AWS S3', uri[2], segments)
+      : storage(gcsProvider(uri[2]), uri[2], segments);
+  }
+
+  const url = /^(?:https?:)?(?:\/\/)?([^\/?#:]+)(?::\d+)?([^?#]*)/i.exec(value);
+  if (!url) return null;
+
+  const host = url[1].toLowerCase();
+  for (const rule of HOST_RULES) {
+    const match = rule.regex.exec(host);
+    if (match) return rule.parse(match, splitPath(url[2]));
+  }
+  return null;
+}
+
+/**
+ * Every bucket and CDN origin referenced in a script
+ */
+export function extractBuckets(content: string): BucketReference[] {
+  const references: BucketReference[] = [];
+
+  for (const match of content.matchAll(CANDIDATE_REGEX)) {
+    const location = parseBucketUrl(match[0]);
+    if (location) {
+      references.push({ url: match[0], location, offset: match.index ?? 0, length: match[0].length });
+    }
+  }
+
+  for (const match of content.matchAll(STORAGE_BUCKET_REGEX)) {
+    references.push({
+      url: `gs://${match[1]}`,
+      location: storage(gcsProvider(match[1]), match[1], []),
+      offset: match.index ?? 0,
+      length: match[0].length
+    });
+  }
+
+  return references;
+}
+
+/**
+ * Short label used to group findings, e.g. `AWS S3 assets-prod (eu-west-1)`
+ */
+export function describeBucket(location: BucketLocation): string {
+  return `${location.provider} ${location.bucket}${location.region ? ` (${location.region})` : ''}`;
+}
+
+function gcsProvider(bucket: string): string {
+  return FIREBASE_BUCKET_REGEX.test(bucket) ? 'Firebase Storage' : 'Google Cloud Storage';
+}
+
+function storage(provider: string, bucket: string, segments: string[], region?: string): BucketLocation {
+  return { provider, kind: 'storage', bucket, region: region?.toLowerCase(), path: joinPath(segments) };
+}
+
+function pathStyle(provider: string, segments: string[], region?: string): BucketLocation | null {
+  return segments[0] ? storage(provider, segments[0], segments.slice(1), region) : null;
+}
+
+function cdn(provider: string, host: string, segments: string[]): BucketLocation {
+  return { provider, kind: 'cdn', bucket: host, path: joinPath(segments) };
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+function joinPath(segments: string[]): string | undefined {
+  if (segments.length === 0) return undefined;
+  const path = segments.join('/');
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { resolveChunkUrls } from './chunks';
+
+describe('resolveChunkUrls', () => {
+  it('expands the webpack 5 production runtime against its public path', () => {
+    const runtime = 'r.p="/assets/";r.u=e=>"js/"+e+"."+{12:"a1b2",34:"c3d4"}[e]+".js";';
+
+    expect(resolveChunkUrls(runtime, 'https://example.com/assets/runtime.js')).toEqual([
+      'https://example.com/assets/js/12.a1b2.js',
+      'https://example.com/assets/js/34.c3d4.js'
+    ]);
+  });
+
+  it('expands the block-bodied webpack 5 development runtime', () => {
+    const runtime = [
+      '/******/ \t\t__webpack_require__.u = (chunkId) => {',
+      '/******/ \t\t\t// return url for filenames based on template',
+      '/******/ \t\t\treturn "" + chunkId + "." + {"src_admin_js":"9f8e7d"}[chunkId] + ".js";',
+      '/******/ \t\t};',
+      '/******/ \t\t__webpack_require__.p = "/";'
+    ].join('\n');
+
+    expect(resolveChunkUrls(runtime, 'https://example.com/main.js')).toEqual([
+      'https://example.com/src_admin_js.9f8e7d.js'
+    ]);
+  });
+
+  it('does not apply the webpack 4 chunk prefix twice when the public path is unknown', () => {
+    const runtime = 'function s(e){return a.p+"static/js/"+({}[e]||e)+"."+{0:"aa11",1:"bb22"}[e]+".chunk.js"}';
+
+    expect(resolveChunkUrls(runtime, 'https://example.com/static/js/main.5f3c.js')).toEqual([
+      'https://example.com/static/js/0.aa11.chunk.js',
+      'https://example.com/static/js/1.bb22.chunk.js'
+    ]);
+  });
+
+  it('uses a known webpack 4 public path as is', () => {
+    const runtime = 'a.p="https://cdn.example.com/";function s(e){return a.p+"static/js/"+({}[e]||e)+"."+{0:"aa11"}[e]+".chunk.js"}';
+
+    expect(resolveChunkUrls(runtime, 'https://example.com/static/js/main.js')).toEqual([
+      'https://cdn.example.com/static/js/0.aa11.chunk.js'
+    ]);
+  });
+
+  it('follows Vite dynamic imports and preload lists', () => {
+    const content = 'const Page=()=>import("./Page-3a4b.js");__vitePreload(()=>import("./Page-3a4b.js"),["assets/vendor-9c8d.js"]);';
+
+    expect(resolveChunkUrls(content, 'https://example.com/assets/index.js').sort()).toEqual([
+      'https://example.com/assets/Page-3a4b.js',
+      'https://example.com/assets/vendor-9c8d.js'
+    ]);
+  });
+});
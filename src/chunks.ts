@@ -0,0 +1,354 @@
+/**
+ * Lazy chunk discovery for webpack, Vite/Rollup and Next.js bundles
+ */
+
+// Upper bound on chunk URLs taken from a single bundle
+export const MAX_CHUNKS_PER_FILE = 500;
+
+type ChunkPart =
+  | { kind: 'literal'; value: string }
+  | { kind: 'id' }
+  | { kind: 'publicPath' }
+  | { kind: 'lookup'; table: Record<string, string>; fallbackToId: boolean };
+
+/**
+ * Compute the URLs of every lazily loaded chunk a bundle knows about
+ */
+export function resolveChunkUrls(content: string, fileUrl: string): string[] {
+  const urls = new Set<string>();
+  const add = (path: string, base: string) => {
+    if (urls.size >= MAX_CHUNKS_PER_FILE) return;
+    try {
+      urls.add(new URL(path, base).href);
+    } catch {
+      // Ignore paths that cannot form a URL
+    }
+  };
+
+  const publicPath = findWebpackPublicPath(content);
+  for (const chunk of resolveWebpackChunks(content, publicPath)) {
+    if (publicPath === null) {
+      add(stripScriptDirectory(chunk.path, fileUrl), fileUrl);
+    } else {
+      add(chunk.path, chunk.hasPublicPath ? fileUrl : resolveWebpackBase(publicPath, fileUrl));
+    }
+  }
+
+  for (const path of findDynamicImports(content)) {
+    add(path, fileUrl);
+  }
+
+  for (const path of findVitePreloadDeps(content)) {
+    add(path, fileUrl);
+  }
+
+  if (content.includes('__BUILD_MANIFEST')) {
+    const nextBase = getNextBase(fileUrl);
+    for (const path of findNextManifestChunks(content)) {
+      add(path, nextBase);
+    }
+  }
+
+  urls.delete(fileUrl);
+  return [...urls];
+}
+
+/**
+ * Expand the webpack chunk filename function (`__webpack_require__.u` in
+ * webpack 5, `jsonpScriptSrc` in webpack 4) over its id→hash tables
+ */
+function resolveWebpackChunks(content: string, publicPath: string | null): { path: string; hasPublicPath: boolean }[] {
+  const chunks: { path: string; hasPublicPath: boolean }[] = [];
+
+  // The development runtime wraps the single return in a commented block body
+  const runtimeRegexes = [
+    /(?:__webpack_require__|[\w$]+)\.u\s*=\s*function\s*\(([\w$]+)\)\s*\{(?:\s|\/\*[\s\S]*?\*\/|\/\/[^\n]*)*return\s*/g,
+    /(?:__webpack_require__|[\w$]+)\.u\s*=\s*\(?([\w$]+)\)?\s*=>\s*(?:\{(?:\s|\/\*[\s\S]*?\*\/|\/\/[^\n]*)*return\s+)?/g,
+    /function\s*[\w$]*\s*\(([\w$]+)\)\s*\{\s*return\s+(?=(?:__webpack_require__|[\w$]+)\.p\s*\+)/g
+  ];
+
+  for (const regex of runtimeRegexes) {
+    let match;
+    while ((match = regex.exec(content)) !== null) {
+      const expression = readExpression(content, match.index + match[0].length);
+      const parts = parseChunkExpression(expression, match[1]);
+      if (!parts) continue;
+
+      const hasPublicPath = parts.some(part => part.kind === 'publicPath');
+      for (const path of expandChunkParts(parts, publicPath)) {
+        chunks.push({ path, hasPublicPath });
+      }
+    }
+  }
+
+  return chunks;
+}
+
+function findWebpackPublicPath(content: string): string | null {
+  const match = content.match(/(?:__webpack_require__|\b[\w$]+)\.p\s*=\s*["']([^"']*)["']/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Chunk paths are relative to the public path
+ */
+function resolveWebpackBase(publicPath: string, fileUrl: string): string {
+  try {
+    return new URL(publicPath || './', fileUrl).href;
+  } catch {
+    return fileUrl;
+  }
+}
+
+/**
+ * A public path computed at runtime is the site directory the bundles are
+ * served from, while chunk paths repeat the runtime's own directory below it
+ * (`static/js/1.chunk.js` next to `/static/js/main.js`). Drop that overlap so
+ * the path resolves against the runtime's directory without doubling it.
+ */
+function stripScriptDirectory(path: string, fileUrl: string): string {
+  let directories: string[];
+  try {
+    directories = new URL(fileUrl).pathname.split('/').slice(1, -1);
+  } catch {
+    return path;
+  }
+
+  for (let start = 0; start < directories.length; start++) {
+    const prefix = `${directories.slice(start).join('/')}/`;
+    if (path.startsWith(prefix)) return path.substring(prefix.length);
+  }
+  return path;
+}
+
+/**
+ * Read a JS expression up to the first top-level terminator
+ */
+function readExpression(content: string, start: number, maxLength: number = 20000): string {
+  let depth = 0;
+  let quote: string | null = null;
+  const end = Math.min(content.length, start + maxLength);
+
+  for (let i = start; i < end; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      if (depth === 0) return content.substring(start, i);
+      depth--;
+    } else if ((char === ';' || char === ',') && depth === 0) {
+      return content.substring(start, i);
+    }
+  }
+
+  return content.substring(start, end);
+}
+
+/**
+ * Split an expression on a top-level operator, ignoring nested brackets and strings
+ */
+function splitTopLevel(expression: string, operator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let last = 0;
+
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+    } else if (depth === 0 && expression.startsWith(operator, i)) {
+      parts.push(expression.substring(last, i).trim());
+      last = i + operator.length;
+      i += operator.length - 1;
+    }
+  }
+
+  parts.push(expression.substring(last).trim());
+  return parts;
+}
+
+function stripParens(expression: string): string {
+  let value = expression.trim();
+  while (value.startsWith('(') && value.endsWith(')') && closingParenIndex(value) === value.length - 1) {
+    value = value.slice(1, -1).trim();
+  }
+  return value;
+}
+
+function closingParenIndex(expression: string): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseObjectTable(literal: string): Record<string, string> {
+  const table: Record<string, string> = {};
+  const entryRegex = /["']?([\w\-\/.~@]+)["']?\s*:\s*["']([^"']*)["']/g;
+  let match;
+  while ((match = entryRegex.exec(literal)) !== null) {
+    table[match[1]] = match[2];
+  }
+  return table;
+}
+
+/**
+ * Turn a chunk filename expression into parts; null if it has anything
+ * we cannot evaluate statically
+ */
+function parseChunkExpression(expression: string, idName: string): ChunkPart[] | null {
+  const parts: ChunkPart[] = [];
+
+  for (const rawPart of splitTopLevel(stripParens(expression), '+')) {
+    const part = stripParens(rawPart);
+    if (!part) return null;
+
+    const literal = part.match(/^(["'])((?:(?!\1)[^\\]|\\.)*)\1$/);
+    if (literal) {
+      parts.push({ kind: 'literal', value: literal[2] });
+      continue;
+    }
+
+    if (part === idName) {
+      parts.push({ kind: 'id' });
+      continue;
+    }
+
+    if (/^(?:__webpack_require__|[\w$]+)\.p$/.test(part)) {
+      parts.push({ kind: 'publicPath' });
+      continue;
+    }
+
+    const [lookup, fallback] = splitTopLevel(part, '||');
+    const table = stripParens(lookup).match(/^\(?\s*(\{[\s\S]*\})\s*\)?\s*\[\s*([\w$]+)\s*\]$/);
+    if (table && table[2] === idName && (fallback === undefined || fallback === idName)) {
+      parts.push({ kind: 'lookup', table: parseObjectTable(table[1]), fallbackToId: fallback === idName });
+      continue;
+    }
+
+    // Nested concatenation such as ("a"+e)+".js"
+    if (splitTopLevel(part, '+').length > 1) {
+      const nested = parseChunkExpression(part, idName);
+      if (!nested) return null;
+      parts.push(...nested);
+      continue;
+    }
+
+    return null;
+  }
+
+  return parts.some(part => part.kind === 'lookup') ? parts : null;
+}
+
+function expandChunkParts(parts: ChunkPart[], publicPath: string | null): string[] {
+  const ids = new Set<string>();
+  for (const part of parts) {
+    if (part.kind === 'lookup') {
+      Object.keys(part.table).forEach(id => ids.add(id));
+    }
+  }
+
+  const paths: string[] = [];
+  for (const id of ids) {
+    let path = '';
+    let complete = true;
+    for (const part of parts) {
+      if (part.kind === 'literal') path += part.value;
+      else if (part.kind === 'id') path += id;
+      else if (part.kind === 'publicPath') path += publicPath || '';
+      else if (id in part.table) path += part.table[id];
+      else if (part.fallbackToId) path += id;
+      else complete = false;
+    }
+    if (complete && path) paths.push(path);
+  }
+
+  return paths;
+}
+
+/**
+ * Rollup/Vite code-split chunks loaded through `import("./Chunk-hash.js")`
+ */
+function findDynamicImports(content: string): string[] {
+  const paths: string[] = [];
+  const importRegex = /\bimport\s*\(\s*["'`]([^"'`$]+\.m?js)["'`]\s*\)/g;
+  let match;
+  while ((match = importRegex.exec(content)) !== null) {
+    paths.push(match[1]);
+  }
+  return paths;
+}
+
+/**
+ * Vite preload dependency lists from `__vite__mapDeps` and `__vitePreload`
+ */
+function findVitePreloadDeps(content: string): string[] {
+  const paths: string[] = [];
+  const listRegex = /(?:\.f\s*=\s*|__vitePreload\s*\([\s\S]{0,300}?,\s*)\[([^\]]*)\]/g;
+  let match;
+  while ((match = listRegex.exec(content)) !== null) {
+    const stringRegex = /["']([^"']+\.m?js)["']/g;
+    let entry;
+    while ((entry = stringRegex.exec(match[1])) !== null) {
+      // Preload deps are relative to the app base, not the importing module
+      paths.push(entry[1].startsWith('.') || entry[1].startsWith('/') ? entry[1] : `/${entry[1]}`);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Page and shared chunks listed in Next.js `_buildManifest.js`
+ */
+function findNextManifestChunks(content: string): string[] {
+  const paths: string[] = [];
+  const chunkRegex = /["'](static\/[^"']+\.js)["']/g;
+  let match;
+  while ((match = chunkRegex.exec(content)) !== null) {
+    paths.push(match[1]);
+  }
+  return paths;
+}
+
+function getNextBase(fileUrl: string): string {
+  const index = fileUrl.indexOf('/_next/');
+  if (index >= 0) {
+    return fileUrl.substring(0, index + '/_next/'.length);
+  }
+  try {
+    return new URL('/_next/', fileUrl).href;
+  } catch {
+    return fileUrl;
+  }
+}
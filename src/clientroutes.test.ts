@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseJavaScript } from './ast';
+import { extractClientRoutes } from './clientroutes';
+
+const routesOf = (content: string) =>
+  extractClientRoutes(parseJavaScript(content)).map(route => `${route.framework} ${route.path}`);
+
+describe('extractClientRoutes', () => {
+  it('takes the framework from the enclosing router call', () => {
+    expect(routesOf('RouterModule.forRoot([{ path: "admin", component: AdminComponent }]);')).toEqual(['Angular /admin']);
+    expect(routesOf('i.RouterModule.forChild([{ path: "users", component: UsersComponent }]);')).toEqual(['Angular /users']);
+    expect(routesOf('createBrowserRouter([{ path: "/settings", name: "settings", component: Settings }]);')).toEqual(['React Router /settings']);
+    expect(routesOf('createRouter({ history, routes: [{ path: "/billing", component: Billing }] });')).toEqual(['Vue Router /billing']);
+  });
+
+  it('follows route arrays bound to a variable and passed to the router', () => {
+    const content = [
+      'const routes = [{ path: "reports", component: ReportsComponent }];',
+      'RouterModule.forRoot(routes);'
+    ].join('\n');
+
+    expect(routesOf(content)).toEqual(['Angular /reports']);
+  });
+
+  it('falls back to the shape of the route object', () => {
+    expect(routesOf('const a = [{ path: "/a", element: jsx(A, {}) }];')).toEqual(['React Router /a']);
+    expect(routesOf('const b = [{ path: "/b", loadChildren: () => import("./b") }];')).toEqual(['Angular /b']);
+    expect(routesOf('const c = [{ path: "/c", name: "c", component: C }];')).toEqual(['Vue Router /c']);
+  });
+
+  it('joins nested paths and reads guards, roles and lazy chunks', () => {
+    const content = `RouterModule.forRoot([{
+      path: "admin",
+      canActivate: [AuthGuard],
+      children: [{ path: "audit", loadChildren: () => import("./audit.module"), data: { roles: ["auditor"] } }]
+    }]);`;
+
+    const routes = extractClientRoutes(parseJavaScript(content));
+    const admin = routes.find(route => route.path === '/admin');
+    const audit = routes.find(route => route.path === '/admin/audit');
+
+    expect(admin).toMatchObject({ path: '/admin', framework: 'Angular', guards: ['canActivate: AuthGuard'] });
+    expect(audit).toMatchObject({ path: '/admin/audit', framework: 'Angular', chunk: './audit.module', roles: ['auditor'] });
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Client-side router definitions: React Router, Angular, Vue Router route
+ * configs and Next.js page manifests
+ */
+
+import { ancestor, simple } from 'acorn-walk';
+import { AnyNode, Expression, ObjectExpression, Program } from 'acorn';
+import {
+  calleeParts,
+  getObjectProperty,
+  propertyKeyName,
+  staticReferenceName,
+  IdentifierResolver,
+  resolveStringExpression
+} from './ast';
+
+export type RouterFramework = 'React Router' | 'Angular' | 'Vue Router' | 'Next.js';
+
+export interface ClientRoute {
+  // Full path, nested routes joined with their parents
+  path: string;
+  framework: RouterFramework;
+  component?: string;
+  // Lazily loaded module or chunk id
+  chunk?: string;
+  // Guard functions and auth flags, e.g. `canActivate: AdminGuard`, `meta.requiresAuth`
+  guards: string[];
+  roles: string[];
+  offset: number;
+  length: number;
+}
+
+// Keys only a route config object has next to `path`
+const REACT_KEYS = ['element', 'Component', 'lazy', 'errorElement', 'loader', 'action'];
+const ANGULAR_KEYS = ['loadChildren', 'loadComponent', 'redirectTo', 'pathMatch', 'canActivate', 'canActivateChild', 'canLoad', 'canMatch', 'canDeactivate', 'resolve', 'outlet'];
+const VUE_KEYS = ['beforeEnter', 'meta', 'redirect', 'alias', 'props', 'components'];
+const SHARED_KEYS = ['component', 'children'];
+
+// Router factories taking the route configs, e.g. createBrowserRouter([...])
+const REACT_ROUTER_CALLS = ['createBrowserRouter', 'createHashRouter', 'createMemoryRouter', 'useRoutes'];
+const ANGULAR_ROUTER_CALLS = ['forRoot', 'forChild'];
+
+const GUARD_KEYS = ['canActivate', 'canActivateChild', 'canLoad', 'canMatch', 'canDeactivate', 'beforeEnter'];
+const LAZY_KEYS = ['lazy', 'loadChildren', 'loadComponent', 'component', 'Component'];
+// Route metadata holders: Angular `data`, Vue `meta`, React Router `handle`
+const METADATA_KEYS = ['data', 'meta', 'handle'];
+
+const ROLE_KEY_REGEX = /^(?:roles?|permissions?|scopes?|authorities|allowedRoles|requiredRoles?)$/i;
+const AUTH_FLAG_REGEX = /auth|login|admin|guard|protected|private|secure/i;
+
+// Route path characters, including `:id(\\d+)` params; rules out SVG path data
+const ROUTE_PATH_REGEX = /^[\w\-.~:*\/()?+|\\\[\]$@]*$/;
+
+/**
+ * Find route definitions in router configs, compiled `<Route>` JSX and
+ * Next.js `__BUILD_MANIFEST` page maps
+ */
+export function extractClientRoutes(program: Program | null, resolve?: IdentifierResolver): ClientRoute[] {
+  if (!program) {
+    return [];
+  }
+
+  const routes: ClientRoute[] = [];
+  const routerBindings = findRouterBindings(program);
+
+  ancestor(program, {
+    ObjectExpression(node, _state, ancestors) {
+      if (!isRouteObject(node)) return;
+
+      const path = routePath(node, resolve);
+      if (path === null) return;
+
+      // The router call the config is handed to decides; the keys are only a guess
+      const enclosing = (ancestors as AnyNode[]).filter(ancestorNode => ancestorNode !== node);
+      const framework = enclosingRouterFramework(enclosing, routerBindings) || routeFramework(node);
+      if (!framework) return;
+
+      // Nested route objects are prefixed with every enclosing route's path
+      const parents = enclosing
+        .filter(ancestorNode => isRouteObject(ancestorNode))
+        .map(parent => routePath(parent as ObjectExpression, resolve) ?? '');
+
+      routes.push({
+        path: [...parents, path].reduce(joinRoutePath, '/'),
+        framework,
+        component: routeComponent(node),
+        chunk: routeChunk(node),
+        guards: routeGuards(node),
+        roles: routeRoles(node),
+        offset: node.start,
+        length: node.end - node.start
+      });
+    }
+  });
+
+  simple(program, {
+    AssignmentExpression(node) {
+      const name = staticReferenceName(node.left);
+      if (name && name.endsWith('__BUILD_MANIFEST')) {
+        routes.push(...nextManifestRoutes(node.right));
+      }
+    }
+  });
+
+  return routes;
+}
+
+/**
+ * Join a child route path onto its parent; absolute children stand alone
+ */
+export function joinRoutePath(parent: string, child: string): string {
+  if (child.startsWith('/')) return child;
+  if (!child) return parent;
+  return `${parent.replace(/\/$/, '')}/${child}`;
+}
+
+function objectKeys(node: ObjectExpression): string[] {
+  return node.properties
+    .map(property => property.type === 'Property' ? propertyKeyName(property) : null)
+    .filter((key): key is string => key !== null);
+}
+
+/**
+ * A `path` next to a key only route configs have
+ */
+function isRouteObject(node: AnyNode): node is ObjectExpression {
+  if (node.type !== 'ObjectExpression') return false;
+  const keys = objectKeys(node);
+  return keys.includes('path') &&
+    keys.some(key => ANGULAR_KEYS.includes(key) || REACT_KEYS.includes(key) || VUE_KEYS.includes(key) || SHARED_KEYS.includes(key));
+}
+
+/**
+ * Framework of a router factory call: RouterModule.forRoot / forChild and
+ * provideRouter, createBrowserRouter and friends, createRouter and new VueRouter
+ */
+function routerCallFramework(node: AnyNode): RouterFramework | null {
+  if (node.type !== 'CallExpression' && node.type !== 'NewExpression') return null;
+
+  const { object, property } = calleeParts(node.callee);
+  if (!property) return null;
+  if ((object === 'RouterModule' && ANGULAR_ROUTER_CALLS.includes(property)) || property === 'provideRouter') return 'Angular';
+  if (REACT_ROUTER_CALLS.includes(property)) return 'React Router';
+  if (property === 'createRouter' || (node.type === 'NewExpression' && property === 'VueRouter')) return 'Vue Router';
+  return null;
+}
+
+/**
+ * Variables holding route configs that are passed to a router call, as in
+ * `const routes = [...]; RouterModule.forRoot(routes)` or `createRouter({ routes })`
+ */
+function findRouterBindings(program: Program): Map<string, RouterFramework> {
+  const bindings = new Map<string, RouterFramework>();
+
+  const record = (node: AnyNode) => {
+    const framework = routerCallFramework(node);
+    if (!framework || (node.type !== 'CallExpression' && node.type !== 'NewExpression')) return;
+
+    for (const argument of node.arguments) {
+      const routes = argument.type === 'ObjectExpression' ? getObjectProperty(argument, 'routes') : argument;
+      if (routes && routes.type === 'Identifier') bindings.set(routes.name, framework);
+    }
+  };
+
+  simple(program, { CallExpression: record, NewExpression: record });
+  return bindings;
+}
+
+function enclosingRouterFramework(ancestors: AnyNode[], bindings: Map<string, RouterFramework>): RouterFramework | null {
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    const node = ancestors[i];
+    const framework = routerCallFramework(node);
+    if (framework) return framework;
+    if (node.type === 'VariableDeclarator' && node.id.type === 'Identifier' && bindings.has(node.id.name)) {
+      return bindings.get(node.id.name)!;
+    }
+  }
+  return null;
+}
+
+/**
+ * Best guess from the keys when no router call is in sight
+ */
+function routeFramework(node: ObjectExpression): RouterFramework | null {
+  const keys = objectKeys(node);
+
+  if (keys.some(key => ANGULAR_KEYS.includes(key))) return 'Angular';
+  if (keys.some(key => REACT_KEYS.includes(key))) return 'React Router';
+  if (keys.some(key => VUE_KEYS.includes(key))) return 'Vue Router';
+  // `{ path, name, component }` is the Vue Router shape, `{ path, component }` the React Router v5 one
+  if (keys.some(key => SHARED_KEYS.includes(key))) return keys.includes('name') ? 'Vue Router' : 'React Router';
+  return null;
+}
+
+function routePath(node: ObjectExpression, resolve?: IdentifierResolver): string | null {
+  const value = getObjectProperty(node, 'path');
+  if (!value) return null;
+
+  const path = resolveStringExpression(value, resolve);
+  if (!path.isStatic || /\s/.test(path.value) || path.value.startsWith('.') || !ROUTE_PATH_REGEX.test(path.value)) {
+    return null;
+  }
+  return path.value;
+}
+
+function routeComponent(node: ObjectExpression): string | undefined {
+  for (const key of ['component', 'Component', 'element']) {
+    const value = getObjectProperty(node, key);
+    if (!value) continue;
+
+    const name = staticReferenceName(value);
+    if (name) return name;
+
+    // Compiled JSX: jsx(Admin, {...}) / React.createElement(Admin, ...)
+    if (value.type === 'CallExpression' && value.arguments[0]) {
+      const element = staticReferenceName(value.arguments[0]);
+      if (element) return element;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Module of a lazily loaded route: `import('./admin')`, or the chunk id of
+ * a bundler loader such as webpack's `n.e(123)`
+ */
+function routeChunk(node: ObjectExpression): string | undefined {
+  for (const key of LAZY_KEYS) {
+    const value = getObjectProperty(node, key);
+    if (!value || (value.type !== 'ArrowFunctionExpression' && value.type !== 'FunctionExpression')) continue;
+
+    let chunk: string | undefined;
+    simple(value, {
+      ImportExpression(importNode) {
+        if (!chunk && importNode.source.type === 'Literal' && typeof importNode.source.value === 'string') {
+          chunk = importNode.source.value;
+        }
+      },
+      CallExpression(call) {
+        const loaded = call.arguments[0];
+        if (!chunk && call.callee.type === 'MemberExpression' && !call.callee.computed &&
+            call.callee.property.type === 'Identifier' && call.callee.property.name === 'e' &&
+            loaded && loaded.type === 'Literal' && loaded.value !== null) {
+          chunk = `chunk ${String(loaded.value)}`;
+        }
+      }
+    });
+    if (chunk) return chunk;
+  }
+  return undefined;
+}
+
+function routeGuards(node: ObjectExpression): string[] {
+  const guards: string[] = [];
+
+  for (const key of GUARD_KEYS) {
+    const value = getObjectProperty(node, key);
+    if (!value) continue;
+
+    const names = value.type === 'ArrayExpression'
+      ? value.elements.map(element => (element && element.type !== 'SpreadElement' && staticReferenceName(element)) || 'inline')
+      : [staticReferenceName(value) || 'inline'];
+    guards.push(`${key}: ${names.join(', ')}`);
+  }
+
+  for (const [key, value] of metadataEntries(node)) {
+    // `true`, or `!0` once minified
+    const isTrue = (value.type === 'Literal' && value.value === true) ||
+      (value.type === 'UnaryExpression' && value.operator === '!' && value.argument.type === 'Literal' && value.argument.value === 0);
+    if (isTrue && AUTH_FLAG_REGEX.test(key)) {
+      guards.push(key);
+    }
+  }
+
+  return guards;
+}
+
+function routeRoles(node: ObjectExpression): string[] {
+  const roles: string[] = [];
+
+  for (const [key, value] of metadataEntries(node)) {
+    if (!ROLE_KEY_REGEX.test(key.split('.').pop() || '')) continue;
+
+    const values = value.type === 'ArrayExpression' ? value.elements : [value];
+    for (const element of values) {
+      if (element && element.type === 'Literal' && typeof element.value === 'string') {
+        roles.push(element.value);
+      }
+    }
+  }
+
+  return roles;
+}
+
+/**
+ * `meta.requiresAuth`-style entries of the route's metadata objects
+ */
+function metadataEntries(node: ObjectExpression): [string, Expression][] {
+  const entries: [string, Expression][] = [];
+
+  for (const metadataKey of METADATA_KEYS) {
+    const metadata = getObjectProperty(node, metadataKey);
+    if (!metadata || metadata.type !== 'ObjectExpression') continue;
+
+    for (const property of metadata.properties) {
+      if (property.type !== 'Property') continue;
+      const key = propertyKeyName(property);
+      if (key) entries.push([`${metadataKey}.${key}`, property.value as Expression]);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Pages of a Next.js build manifest, either a plain object or the
+ * minified `function(a, b){ return {...} }("chunk", ...)` form
+ */
+function nextManifestRoutes(node: Expression): ClientRoute[] {
+  let manifest: ObjectExpression | null = null;
+  const params = new Map<string, string>();
+
+  if (node.type === 'ObjectExpression') {
+    manifest = node;
+  } else if (node.type === 'CallExpression' && node.callee.type === 'FunctionExpression') {
+    const body = node.callee.body.body;
+    const returned = body.find(statement => statement.type === 'ReturnStatement');
+    if (returned && returned.type === 'ReturnStatement' && returned.argument && returned.argument.type === 'ObjectExpression') {
+      manifest = returned.argument;
+    }
+    node.callee.params.forEach((param, index) => {
+      const arg = node.arguments[index];
+      if (param.type === 'Identifier' && arg && arg.type === 'Literal' && typeof arg.value === 'string') {
+        params.set(param.name, arg.value);
+      }
+    });
+  }
+  if (!manifest) return [];
+
+  const routes: ClientRoute[] = [];
+  for (const property of manifest.properties) {
+    if (property.type !== 'Property') continue;
+    const page = propertyKeyName(property);
+    // `/_app`, `/_error` and `__rewrites` are framework internals
+    if (!page || !page.startsWith('/') || page.startsWith('/_')) continue;
+
+    const chunks = property.value.type === 'ArrayExpression'
+      ? property.value.elements
+        .map(element => element && element.type === 'Literal' && typeof element.value === 'string'
+          ? element.value
+          : element && element.type === 'Identifier' ? params.get(element.name) : undefined)
+        .filter((chunk): chunk is string => chunk !== undefined)
+      : [];
+
+    routes.push({
+      path: page,
+      framework: 'Next.js',
+      // The page's own chunk comes last, after shared ones
+      chunk: chunks.length > 0 ? chunks[chunks.length - 1] : undefined,
+      guards: [],
+      roles: [],
+      offset: property.start,
+      length: property.end - property.start
+    });
+  }
+
+  return routes;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { parseJavaScript } from './ast';
+import { ConfigEntry, configFlags, extractConfigObjects } from './config';
+
+const configsIn = (content: string) => extractConfigObjects(parseJavaScript(content));
+const describeEntry = (entry: ConfigEntry) => `${entry.key}=${entry.value}${entry.flags.length > 0 ? ` [${entry.flags.join(',')}]` : ''}`;
+
+describe('extractConfigObjects', () => {
+  it('reads objects by the name they are bound to and flattens nested keys', () => {
+    const content = [
+      'window.__APP_CONFIG__ = {',
+      '  apiUrl: "https://api.staging.example.com/v2",',
+      '  auth: { clientId: "web", clientSecret: "q8Zr2-kLx9" },',
+      '  features: { debug: !0, verifySsl: false, retries: 3 }',
+      '};',
+      'const labels = { title: "Home", apiUrl: "https://api.example.com" };'
+    ].join('\n');
+    const configs = configsIn(content);
+
+    expect(configs.map(config => config.name)).toEqual(['window.__APP_CONFIG__']);
+    expect(configs[0].entries.map(describeEntry)).toEqual([
+      'apiUrl=https://api.staging.example.com/v2 [internal-url]',
+      'auth.clientId=web',
+      'auth.clientSecret=q8Zr2-kLx9 [secret]',
+      'features.debug=true [insecure]',
+      'features.verifySsl=false [insecure]',
+      'features.retries=3'
+    ]);
+    expect(configFlags(configs[0].entries)).toEqual(['secret', 'insecure', 'internal-url']);
+  });
+
+  it('recognizes environments and inlined env objects by their keys', () => {
+    const content = [
+      'const e = Object.freeze({ production: false, apiBase: "http://localhost:4200/api" });',
+      'var t = { NODE_ENV: "production", REACT_APP_API_TOKEN: "tok_9f8e7d6c", REACT_APP_ADMIN: "http://10.0.0.5:8080" };'
+    ].join('\n');
+
+    expect(configsIn(content).map(config => [config.name, config.entries.map(describeEntry)])).toEqual([
+      ['environment', ['production=false', 'apiBase=http://localhost:4200/api [internal-url]']],
+      ['process.env', ['NODE_ENV=production', 'REACT_APP_API_TOKEN=tok_9f8e7d6c [secret]', 'REACT_APP_ADMIN=http://10.0.0.5:8080 [internal-url]']]
+    ]);
+  });
+
+  it('reads JSON.parse configs', () => {
+    const content = 'window.__ENV__ = JSON.parse(\'{"api":{"url":"https://corp.internal/api"},"skipAuth":true,"locales":["en","de"]}\');';
+
+    expect(configsIn(content).map(config => [config.name, config.entries.map(describeEntry)])).toEqual([
+      ['window.__ENV__', ['api.url=https://corp.internal/api [internal-url]', 'skipAuth=true [insecure]', 'locales=en, de']]
+    ]);
+  });
+
+  it('collects process.env references with their fallbacks', () => {
+    const content = [
+      'const api = process.env.VITE_API_URL || "https://api.example.com";',
+      'if (process.env.NODE_ENV !== "production") enableLogging();',
+      'const again = process.env.VITE_API_URL;'
+    ].join('\n');
+    const configs = configsIn(content);
+
+    expect(configs).toHaveLength(1);
+    expect(configs[0].name).toBe('process.env');
+    expect(configs[0].entries.map(describeEntry)).toEqual(['VITE_API_URL=https://api.example.com', 'NODE_ENV=']);
+    expect(content.substring(configs[0].offset, configs[0].offset + configs[0].length)).toBe('process.env.VITE_API_URL');
+  });
+
+  it('does not flag placeholders, booleans or short values as secrets', () => {
+    const content = 'const settings = { apiKey: "", token: null, secretEnabled: true, password: "abc" };';
+
+    expect(configFlags(configsIn(content)[0].entries)).toEqual([]);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Runtime configuration objects: `window.__CONFIG__`, inlined `process.env`,
+ * Angular environments and feature flag maps, flattened into key/value pairs
+ */
+
+import { ancestor } from 'acorn-walk';
+import { AnyNode, Expression, ObjectExpression, Program, Property } from 'acorn';
+import { propertyKeyName, resolveStringExpression, staticReferenceName, IdentifierResolver } from './ast';
+import { extractHostname, isInternalHostname } from './hosts';
+
+export type ConfigFlag = 'secret' | 'internal-url' | 'insecure';
+
+export interface ConfigEntry {
+  // Dotted path for nested objects, e.g. `auth.clientSecret`
+  key: string;
+  value: string;
+  flags: ConfigFlag[];
+}
+
+export interface ConfigObject {
+  name: string;
+  entries: ConfigEntry[];
+  offset: number;
+  length: number;
+}
+
+// Large objects are translations or data, not configuration
+const MAX_CONFIG_ENTRIES = 200;
+const MAX_VALUE_LENGTH = 512;
+
+const CONFIG_NAME_REGEX = /^_*(?:app|runtime|public|client|site|global|env)?_?(?:config|configuration|conf|env|environment|settings|feature_?flags|flags|features|toggles)_*$/i;
+const ENV_KEY_REGEX = /^(?:NODE_ENV|(?:REACT_APP|VITE|NEXT_PUBLIC|VUE_APP|NG_APP|EXPO_PUBLIC|GATSBY|NUXT_PUBLIC)_\w+)$/;
+const GLOBAL_OBJECTS = ['window', 'self', 'globalThis'];
+
+const SECRET_KEY_REGEX = /secret|passw(?:or)?d|pwd|token|api_?key|private_?key|credential|access_?key|auth_?key|signing_?key/i;
+const INSECURE_WHEN_TRUE_REGEX = /debug|skip_?auth|no_?auth|bypass|insecure|unsafe|allow_?all|trust_?all|enable_?admin|admin_?mode|dev_?mode|mock|disable_?(?:auth|csrf|ssl|tls|security|captcha|2fa|mfa|verification|validation)/i;
+const INSECURE_WHEN_FALSE_REGEX = /verify_?ssl|ssl_?verify|csrf|https_?only|strict_?ssl|secure_?cookies?|require_?auth|auth_?required/i;
+const INTERNAL_LABEL_REGEX = /(?:^|[.\-])(?:internal|intranet|corp|staging|stage|dev|uat|qa|preprod)(?:[.\-]|$)/;
+
+/**
+ * Find configuration objects by the name they are bound to (`window.__CONFIG__`,
+ * `environment`, `featureFlags`...) or by their keys (`NODE_ENV`, `REACT_APP_*`,
+ * `production`), plus leftover `process.env.X` references
+ */
+export function extractConfigObjects(program: Program | null, resolve?: IdentifierResolver): ConfigObject[] {
+  if (!program) {
+    return [];
+  }
+
+  const configs: ConfigObject[] = [];
+
+  ancestor(program, {
+    ObjectExpression(node, _state, ancestors) {
+      const path = ancestors as AnyNode[];
+      const name = configName(node, path.slice(0, -1));
+      if (!name) return;
+
+      // A config nested in another config is flattened into the outer one
+      if (path.some((outer, index) => outer !== node && outer.type === 'ObjectExpression' && configName(outer, path.slice(0, index)))) {
+        return;
+      }
+
+      const entries = flattenObject(node, '', resolve);
+      if (entries.length === 0 || entries.length > MAX_CONFIG_ENTRIES) return;
+
+      configs.push({ name, entries, offset: node.start, length: node.end - node.start });
+    }
+  });
+
+  const envEntries = new Map<string, ConfigEntry>();
+  let envOffset = -1;
+  let envLength = 0;
+
+  ancestor(program, {
+    CallExpression(node, _state, ancestors) {
+      // window.__CONFIG__ = JSON.parse('{...}')
+      const parsed = parseJsonCall(node);
+      if (parsed === null) return;
+
+      const name = bindingName(node, (ancestors as AnyNode[]).slice(0, -1));
+      if (!name || !isConfigName(name)) return;
+
+      const entries = flattenValue(parsed, '');
+      if (entries.length > 0 && entries.length <= MAX_CONFIG_ENTRIES) {
+        configs.push({ name, entries, offset: node.start, length: node.end - node.start });
+      }
+    },
+    MemberExpression(node, _state, ancestors) {
+      // process.env.REACT_APP_API_URL || "https://fallback"
+      const name = staticReferenceName(node);
+      if (!name || !/^process\.env\.\w+$/.test(name)) return;
+
+      const key = name.substring('process.env.'.length);
+      const parent = (ancestors as AnyNode[])[ancestors.length - 2];
+      let value = '';
+      if (parent && parent.type === 'LogicalExpression' && parent.left === node) {
+        const fallback = resolveStringExpression(parent.right, resolve);
+        if (fallback.isStatic) value = fallback.value;
+      }
+
+      if (!envEntries.has(key) || value) {
+        envEntries.set(key, entry(key, value));
+      }
+      if (envOffset === -1) {
+        envOffset = node.start;
+        envLength = node.end - node.start;
+      }
+    }
+  });
+
+  if (envEntries.size > 0) {
+    configs.push({ name: 'process.env', entries: [...envEntries.values()], offset: envOffset, length: envLength });
+  }
+
+  return configs;
+}
+
+/**
+ * Flags raised across a config's entries, most severe first
+ */
+export function configFlags(entries: ConfigEntry[]): ConfigFlag[] {
+  const flags = new Set(entries.flatMap(configEntry => configEntry.flags));
+  return (['secret', 'insecure', 'internal-url'] as ConfigFlag[]).filter(flag => flags.has(flag));
+}
+
+/**
+ * Name a config object is known by, or null when it is not one
+ */
+function configName(node: ObjectExpression, ancestors: AnyNode[]): string | null {
+  const name = bindingName(node, ancestors);
+  if (name && isConfigName(name)) {
+    return name;
+  }
+
+  // Recognized by its keys; a minified binding name says nothing
+  const keys = node.properties
+    .map(property => property.type === 'Property' ? propertyKeyName(property) : null)
+    .filter((key): key is string => key !== null);
+  if (keys.some(key => ENV_KEY_REGEX.test(key))) {
+    return 'process.env';
+  }
+  const production = node.properties.find(property => property.type === 'Property' && propertyKeyName(property) === 'production');
+  if (production && production.type === 'Property' && isBooleanNode(production.value) && keys.length >= 2) {
+    return 'environment';
+  }
+  return null;
+}
+
+/**
+ * Name of the variable, global or property a node is bound to, looking
+ * through `Object.freeze(...)`-style wrappers. `ancestors` excludes the node.
+ */
+function bindingName(node: AnyNode, ancestors: AnyNode[]): string | null {
+  let child = node;
+
+  for (let position = ancestors.length - 1; position >= 0; position--) {
+    const parent = ancestors[position];
+    if (parent.type === 'CallExpression' && parent.arguments.includes(child as Expression)) {
+      const callee = staticReferenceName(parent.callee);
+      if (callee !== 'Object' && callee !== 'Object.freeze' && callee !== 'Object.assign') return null;
+      child = parent;
+      continue;
+    }
+    if (parent.type === 'VariableDeclarator' && parent.id.type === 'Identifier') {
+      return parent.id.name;
+    }
+    if (parent.type === 'AssignmentExpression') {
+      return staticReferenceName(parent.left);
+    }
+    if (parent.type === 'Property' && parent.value === child) {
+      return propertyKeyName(parent as Property);
+    }
+    return null;
+  }
+  return null;
+}
+
+function isConfigName(name: string): boolean {
+  const parts = name.split('.');
+  const last = parts[parts.length - 1];
+  // window.__APP_STATE__-style globals are only config when named so
+  return CONFIG_NAME_REGEX.test(last) ||
+    (parts.length === 2 && GLOBAL_OBJECTS.includes(parts[0]) && /^__\w*(?:CONFIG|ENV|SETTINGS)\w*__$/i.test(last));
+}
+
+function isBooleanNode(node: AnyNode): boolean {
+  return (node.type === 'Literal' && typeof node.value === 'boolean') ||
+    (node.type === 'UnaryExpression' && node.operator === '!' && node.argument.type === 'Literal');
+}
+
+function flattenObject(node: ObjectExpression, prefix: string, resolve?: IdentifierResolver): ConfigEntry[] {
+  const entries: ConfigEntry[] = [];
+
+  for (const property of node.properties) {
+    if (property.type !== 'Property') continue;
+    const key = propertyKeyName(property);
+    if (!key) continue;
+
+    const path = prefix ? `${prefix}.${key}` : key;
+    const value = property.value as Expression;
+    if (value.type === 'ObjectExpression') {
+      entries.push(...flattenObject(value, path, resolve));
+      continue;
+    }
+
+    const text = staticValue(value, resolve);
+    if (text !== null) entries.push(entry(path, text));
+  }
+
+  return entries;
+}
+
+function flattenValue(value: unknown, prefix: string): ConfigEntry[] {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.entries(value as Record<string, unknown>)
+      .flatMap(([key, nested]) => flattenValue(nested, prefix ? `${prefix}.${key}` : key));
+  }
+  if (!prefix) return [];
+  return [entry(prefix, Array.isArray(value) ? value.join(', ') : String(value))];
+}
+
+/**
+ * Text of a literal-like value: literals, `!0` / `!1`, static strings and
+ * arrays of literals
+ */
+function staticValue(node: Expression, resolve?: IdentifierResolver): string | null {
+  if (node.type === 'Literal') {
+    return node.value === null || ['string', 'number', 'boolean'].includes(typeof node.value) ? String(node.value) : null;
+  }
+  if (node.type === 'UnaryExpression' && node.argument.type === 'Literal') {
+    if (node.operator === '!') return String(!node.argument.value);
+    if (node.operator === 'void') return 'undefined';
+    if (node.operator === '-' && typeof node.argument.value === 'number') return String(-node.argument.value);
+  }
+  if (node.type === 'ArrayExpression') {
+    const values = node.elements.map(element => element && element.type !== 'SpreadElement' ? staticValue(element, resolve) : null);
+    return values.every(value => value !== null) ? values.join(', ') : null;
+  }
+  if (node.type === 'TemplateLiteral' || node.type === 'BinaryExpression' || node.type === 'Identifier' || node.type === 'MemberExpression') {
+    const resolved = resolveStringExpression(node, resolve);
+    return resolved.isStatic ? resolved.value : null;
+  }
+  return null;
+}
+
+function parseJsonCall(node: AnyNode): unknown {
+  if (node.type !== 'CallExpression' || staticReferenceName(node.callee) !== 'JSON.parse') return null;
+
+  const arg = node.arguments[0];
+  if (!arg || arg.type !== 'Literal' || typeof arg.value !== 'string') return null;
+  try {
+    return JSON.parse(arg.value);
+  } catch {
+    return null;
+  }
+}
+
+function entry(key: string, value: string): ConfigEntry {
+  const trimmed = value.length > MAX_VALUE_LENGTH ? `${value.substring(0, MAX_VALUE_LENGTH)}…` : value;
+  return { key, value: trimmed, flags: entryFlags(key, value) };
+}
+
+function entryFlags(key: string, value: string): ConfigFlag[] {
+  const flags: ConfigFlag[] = [];
+  const name = key.split('.').pop() || key;
+
+  if (SECRET_KEY_REGEX.test(name) && value.length >= 6 && !['true', 'false', 'null', 'undefined'].includes(value)) {
+    flags.push('secret');
+  }
+  if ((value === 'true' && INSECURE_WHEN_TRUE_REGEX.test(name)) || (value === 'false' && INSECURE_WHEN_FALSE_REGEX.test(name))) {
+    flags.push('insecure');
+  }
+
+  const hostname = extractHostname(value);
+  if (hostname && (isInternalHostname(hostname) || hostname === 'localhost' || INTERNAL_LABEL_REGEX.test(hostname))) {
+    flags.push('internal-url');
+  }
+
+  return flags;
+}
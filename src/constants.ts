@@ -0,0 +1,211 @@
+/**
+ * Constant propagation and URL reconstruction from string-building code
+ */
+
+import { ancestor, simple } from 'acorn-walk';
+import { AnyNode, Program } from 'acorn';
+import {
+  resolveStringExpression,
+  staticReferenceName,
+  propertyKeyName,
+  looksLikeUrl,
+  IdentifierResolver
+} from './ast';
+
+// Constants referencing other constants are resolved over this many passes
+const MAX_PROPAGATION_PASSES = 5;
+
+// Longest string value tracked as a constant
+const MAX_CONSTANT_LENGTH = 2048;
+
+export interface ReconstructedUrl {
+  url: string;
+  offset: number;
+  length: number;
+  // Literal pieces the URL was assembled from, for fragment deduplication
+  fragments: string[];
+}
+
+/**
+ * Collect names bound to a single statically known string or number within
+ * a file. Names bound to different values (common with minified short
+ * names reused across scopes) or mutated after binding are left out.
+ */
+export function collectStringConstants(program: Program): Map<string, string> {
+  const bindings = new Map<string, AnyNode[]>();
+  const mutated = new Set<string>();
+
+  const bind = (name: string, value: AnyNode) => {
+    const values = bindings.get(name) || [];
+    values.push(value);
+    bindings.set(name, values);
+  };
+
+  const bindObject = (name: string, value: AnyNode) => {
+    if (value.type !== 'ObjectExpression') {
+      bind(name, value);
+      return;
+    }
+    for (const property of value.properties) {
+      if (property.type !== 'Property') continue;
+      const key = propertyKeyName(property);
+      if (key) bindObject(`${name}.${key}`, property.value);
+    }
+  };
+
+  simple(program, {
+    VariableDeclarator(node) {
+      if (node.id.type === 'Identifier' && node.init) {
+        bindObject(node.id.name, node.init);
+      }
+    },
+    AssignmentExpression(node) {
+      const name = staticReferenceName(node.left);
+      if (!name) return;
+      if (node.operator === '=') {
+        bindObject(name, node.right);
+      } else {
+        mutated.add(name);
+      }
+    },
+    UpdateExpression(node) {
+      const name = staticReferenceName(node.argument);
+      if (name) mutated.add(name);
+    }
+  });
+
+  const constants = new Map<string, string>();
+  const resolve: IdentifierResolver = name => constants.get(name) ?? null;
+
+  for (let pass = 0; pass < MAX_PROPAGATION_PASSES; pass++) {
+    let changed = false;
+
+    for (const [name, values] of bindings) {
+      if (constants.has(name) || mutated.has(name)) continue;
+
+      const resolved = values.map(value => resolveStringExpression(value, resolve));
+      if (!resolved.every(value => value.isStatic)) continue;
+
+      const distinct = new Set(resolved.map(value => value.value));
+      const [value] = distinct;
+      if (distinct.size === 1 && value.length <= MAX_CONSTANT_LENGTH) {
+        constants.set(name, value);
+        changed = true;
+      }
+    }
+
+    if (!changed) break;
+  }
+
+  return constants;
+}
+
+/**
+ * Build a resolver over the constants of a file
+ */
+export function createConstantResolver(program: Program | null): IdentifierResolver {
+  const constants = program ? collectStringConstants(program) : new Map<string, string>();
+  return name => constants.get(name) ?? null;
+}
+
+/**
+ * Reconstruct every URL the file assembles from concatenation, template
+ * literals or `.concat()`, with unknown parts as `{name}` placeholders
+ */
+export function reconstructUrls(program: Program, resolve: IdentifierResolver): ReconstructedUrl[] {
+  const urls: ReconstructedUrl[] = [];
+
+  const visit = (node: AnyNode, ancestors: AnyNode[]) => {
+    const parent = ancestors[ancestors.length - 2];
+    // Only the outermost expression of a concatenation chain
+    if (parent && isStringBuilder(parent)) return;
+    if (parent && parent.type === 'TaggedTemplateExpression') return;
+
+    const resolved = resolveStringExpression(node, resolve);
+    if (!looksLikeUrl(resolved) || !hasMeaningfulText(resolved.value)) return;
+
+    urls.push({
+      url: resolved.value,
+      offset: node.start,
+      length: node.end - node.start,
+      fragments: collectFragments(node, resolve)
+    });
+  };
+
+  ancestor(program, {
+    BinaryExpression(node, _state, ancestors) {
+      if (node.operator === '+') visit(node, ancestors);
+    },
+    TemplateLiteral(node, _state, ancestors) {
+      if (node.expressions.length > 0) visit(node, ancestors);
+    },
+    CallExpression(node, _state, ancestors) {
+      if (isConcatCall(node)) visit(node, ancestors);
+    }
+  });
+
+  return urls;
+}
+
+function isConcatCall(node: AnyNode): boolean {
+  return node.type === 'CallExpression' &&
+    node.callee.type === 'MemberExpression' &&
+    !node.callee.computed &&
+    node.callee.property.type === 'Identifier' &&
+    node.callee.property.name === 'concat';
+}
+
+function isStringBuilder(node: AnyNode): boolean {
+  return (node.type === 'BinaryExpression' && node.operator === '+') ||
+    node.type === 'TemplateLiteral' ||
+    isConcatCall(node);
+}
+
+/**
+ * Skip reconstructions that are nothing but separators and placeholders, e.g. `/{e}`
+ */
+function hasMeaningfulText(url: string): boolean {
+  return /[A-Za-z0-9_\-]{2,}/.test(url.replace(/\{[^}]*\}/g, ''));
+}
+
+/**
+ * Literal strings and resolved constant values a URL expression is built from
+ */
+function collectFragments(node: AnyNode, resolve: IdentifierResolver): string[] {
+  const fragments: string[] = [];
+
+  const walk = (current: AnyNode) => {
+    switch (current.type) {
+      case 'Literal':
+        if (typeof current.value === 'string' && current.value) fragments.push(current.value);
+        break;
+      case 'TemplateLiteral':
+        current.quasis.forEach(quasi => {
+          const text = quasi.value.cooked ?? quasi.value.raw;
+          if (text) fragments.push(text);
+        });
+        current.expressions.forEach(walk);
+        break;
+      case 'BinaryExpression':
+        if (current.left.type !== 'PrivateIdentifier') walk(current.left);
+        walk(current.right);
+        break;
+      case 'CallExpression':
+        if (isConcatCall(current) && current.callee.type === 'MemberExpression' && current.callee.object.type !== 'Super') {
+          walk(current.callee.object);
+          current.arguments.forEach(walk);
+        }
+        break;
+      case 'Identifier':
+      case 'MemberExpression': {
+        const name = staticReferenceName(current);
+        const value = name ? resolve(name) : null;
+        if (value) fragments.push(value);
+        break;
+      }
+    }
+  };
+
+  walk(node);
+  return fragments;
+}
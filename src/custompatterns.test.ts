@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { DETECTION_PATTERNS } from './patterns';
+import {
+  CustomPatternDefinition,
+  InvalidPatternError,
+  compileCustomPattern,
+  compileRegexLiteral,
+  mergePatterns,
+  testCustomPattern
+} from './custompatterns';
+
+const definition = (overrides: Partial<CustomPatternDefinition> = {}): CustomPatternDefinition => ({
+  id: 'custom-1',
+  name: 'Acme Token',
+  regex: 'acme_([a-z0-9]{16})',
+  flags: 'i',
+  type: 'secret',
+  severity: 'high',
+  description: 'Acme API token',
+  enabled: true,
+  ...overrides
+});
+
+describe('compileCustomPattern', () => {
+  it('compiles a definition with the global flag added', () => {
+    const pattern = compileCustomPattern(definition({ name: '  Acme Token ', keywords: ['ACME_'], secretGroup: 1 }));
+
+    expect(pattern.name).toBe('Acme Token');
+    expect(pattern.regex.flags).toBe('gi');
+    expect(pattern.keywords).toEqual(['acme_']);
+    expect(pattern.secretGroup).toBe(1);
+  });
+
+  it('rejects a regex that does not compile', () => {
+    expect(() => compileCustomPattern(definition({ regex: 'acme_(' }))).toThrow(/^Invalid regular expression:/);
+  });
+
+  it('rejects a regex that matches an empty string', () => {
+    expect(() => compileCustomPattern(definition({ regex: '[a-z]*' }))).toThrow('Regular expression matches an empty string');
+  });
+
+  it('rejects unknown and repeated flags', () => {
+    expect(() => compileCustomPattern(definition({ flags: 'x' }))).toThrow('Invalid regex flags "x"');
+    expect(() => compileCustomPattern(definition({ flags: 'ii' }))).toThrow('Invalid regex flags "ii"');
+  });
+
+  it('rejects a secret group the regex does not have', () => {
+    expect(() => compileCustomPattern(definition({ secretGroup: 2 }))).toThrow('Secret group 2 does not exist; the regex has 1 capture group(s)');
+    expect(() => compileCustomPattern(definition({ secretGroup: 1.5 }))).toThrow(InvalidPatternError);
+  });
+
+  it('requires a name, a known type and a known severity', () => {
+    expect(() => compileCustomPattern(definition({ name: ' ' }))).toThrow('Pattern name is required');
+    expect(() => compileCustomPattern(definition({ type: 'token' as CustomPatternDefinition['type'] }))).toThrow(/Unknown type "token"/);
+    expect(() => compileCustomPattern(definition({ severity: 'urgent' as CustomPatternDefinition['severity'] }))).toThrow(/Unknown severity "urgent"/);
+  });
+
+  it('compiles allowlist regex literals', () => {
+    const pattern = compileCustomPattern(definition({ allowlists: [{ regexes: ['/^acme_0+$/i'], paths: ['/\\/vendor\\//'] }] }));
+
+    expect(pattern.allowlists?.[0].regexes?.[0].test('ACME_0000')).toBe(true);
+    expect(() => compileCustomPattern(definition({ allowlists: [{ regexes: ['^acme'] }] }))).toThrow(/Invalid allowlist regex "\^acme"/);
+  });
+});
+
+describe('compileRegexLiteral', () => {
+  it('reads the source and flags', () => {
+    expect(compileRegexLiteral('/a\\/b/gi')).toEqual(/a\/b/gi);
+    expect(() => compileRegexLiteral('/(/')).toThrow(InvalidPatternError);
+  });
+});
+
+describe('testCustomPattern', () => {
+  it('lists the whole matches in the sample', () => {
+    const sample = 'token=acme_q8w7e6r5t4y3u2i1; backup=ACME_0000000000000000; none=acme_short';
+
+    expect(testCustomPattern(definition(), sample)).toEqual(['acme_q8w7e6r5t4y3u2i1', 'ACME_0000000000000000']);
+  });
+});
+
+describe('mergePatterns', () => {
+  it('appends enabled definitions that compile to the built-ins', () => {
+    const patterns = mergePatterns([
+      definition(),
+      definition({ id: 'custom-2', name: 'Disabled', enabled: false }),
+      definition({ id: 'custom-3', name: 'Broken', regex: '(' })
+    ]);
+
+    expect(patterns.slice(0, DETECTION_PATTERNS.length)).toEqual(DETECTION_PATTERNS);
+    expect(patterns.slice(DETECTION_PATTERNS.length).map(pattern => pattern.name)).toEqual(['Acme Token']);
+  });
+});
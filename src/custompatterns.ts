@@ -0,0 +1,165 @@
+/**
+ * User-defined detection patterns persisted in plugin storage
+ */
+
+import {
+  DETECTION_PATTERNS,
+  PatternConfig,
+  PatternType,
+  Severity,
+  PatternAllowlist,
+  AllowlistTarget
+} from './patterns';
+
+export const CUSTOM_PATTERNS_STORAGE_KEY = 'js-hunter.custom-patterns';
+
+// Matches reported when testing a pattern against a sample
+const MAX_TEST_MATCHES = 50;
+
+const PATTERN_TYPES: PatternType[] = ['endpoint', 'secret', 'email', 'ip'];
+const SEVERITIES: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+export interface CustomPatternDefinition {
+  id: string;
+  name: string;
+  regex: string;
+  flags: string;
+  type: PatternType;
+  severity: Severity;
+  description: string;
+  enabled: boolean;
+  // Carried over from imported gitleaks / trufflehog rules
+  keywords?: string[];
+  minEntropy?: number;
+  secretGroup?: number;
+  allowlists?: CustomAllowlistDefinition[];
+}
+
+export interface CustomAllowlistDefinition {
+  // Regex literals such as `/^example/i`
+  regexes?: string[];
+  regexTarget?: AllowlistTarget;
+  stopwords?: string[];
+  paths?: string[];
+  condition?: 'or' | 'and';
+}
+
+export class InvalidPatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPatternError';
+  }
+}
+
+/**
+ * Check a definition and compile it, throwing InvalidPatternError with a
+ * message fit for the editor when it cannot be used
+ */
+export function compileCustomPattern(definition: CustomPatternDefinition): PatternConfig {
+  if (!definition.name || !definition.name.trim()) {
+    throw new InvalidPatternError('Pattern name is required');
+  }
+  if (!definition.regex) {
+    throw new InvalidPatternError('Regular expression is required');
+  }
+  if (!PATTERN_TYPES.includes(definition.type)) {
+    throw new InvalidPatternError(`Unknown type "${definition.type}", expected one of ${PATTERN_TYPES.join(', ')}`);
+  }
+  if (!SEVERITIES.includes(definition.severity)) {
+    throw new InvalidPatternError(`Unknown severity "${definition.severity}", expected one of ${SEVERITIES.join(', ')}`);
+  }
+
+  const flags = definition.flags || '';
+  if (!/^[dgimsuy]*$/.test(flags) || new Set(flags).size !== flags.length) {
+    throw new InvalidPatternError(`Invalid regex flags "${flags}"`);
+  }
+
+  let regex: RegExp;
+  try {
+    // Scanning walks every match, so the global flag is always on
+    regex = new RegExp(definition.regex, flags.includes('g') ? flags : `${flags}g`);
+  } catch (error) {
+    throw new InvalidPatternError(`Invalid regular expression: ${(error as Error).message}`);
+  }
+
+  if (regex.test('')) {
+    throw new InvalidPatternError('Regular expression matches an empty string');
+  }
+  regex.lastIndex = 0;
+
+  if (definition.minEntropy !== undefined && !(definition.minEntropy >= 0)) {
+    throw new InvalidPatternError(`Invalid minimum entropy "${definition.minEntropy}"`);
+  }
+  if (definition.secretGroup !== undefined) {
+    const groups = new RegExp(`${regex.source}|`, regex.flags).exec('')!.length - 1;
+    if (!Number.isInteger(definition.secretGroup) || definition.secretGroup < 0 || definition.secretGroup > groups) {
+      throw new InvalidPatternError(`Secret group ${definition.secretGroup} does not exist; the regex has ${groups} capture group(s)`);
+    }
+  }
+
+  return {
+    name: definition.name.trim(),
+    regex,
+    type: definition.type,
+    severity: definition.severity,
+    description: definition.description || '',
+    keywords: definition.keywords?.map(keyword => keyword.toLowerCase()),
+    minEntropy: definition.minEntropy,
+    secretGroup: definition.secretGroup,
+    allowlists: definition.allowlists?.map(compileAllowlist)
+  };
+}
+
+function compileAllowlist(allowlist: CustomAllowlistDefinition): PatternAllowlist {
+  return {
+    regexes: allowlist.regexes?.map(literal => compileRegexLiteral(literal, 'allowlist regex')),
+    regexTarget: allowlist.regexTarget,
+    stopwords: allowlist.stopwords,
+    paths: allowlist.paths?.map(literal => compileRegexLiteral(literal, 'allowlist path')),
+    condition: allowlist.condition
+  };
+}
+
+/**
+ * Compile a `/source/flags` literal
+ */
+export function compileRegexLiteral(literal: string, label: string = 'regex'): RegExp {
+  const parts = /^\/([\s\S]*)\/([dgimsuy]*)$/.exec(literal);
+  if (!parts) {
+    throw new InvalidPatternError(`Invalid ${label} "${literal}", expected /source/flags`);
+  }
+  try {
+    return new RegExp(parts[1], parts[2]);
+  } catch (error) {
+    throw new InvalidPatternError(`Invalid ${label} "${literal}": ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Run a definition against sample text for the editor's test button
+ */
+export function testCustomPattern(definition: CustomPatternDefinition, sample: string): string[] {
+  const pattern = compileCustomPattern(definition);
+  const matches: string[] = [];
+  for (const match of sample.matchAll(pattern.regex)) {
+    matches.push(match[0]);
+    if (matches.length >= MAX_TEST_MATCHES) break;
+  }
+  return matches;
+}
+
+/**
+ * Built-in patterns followed by every enabled custom pattern that compiles
+ */
+export function mergePatterns(definitions: CustomPatternDefinition[]): PatternConfig[] {
+  const patterns = [...DETECTION_PATTERNS];
+  for (const definition of definitions) {
+    if (!definition.enabled) continue;
+    try {
+      patterns.push(compileCustomPattern(definition));
+    } catch {
+      // Stored definitions are validated on save; skip any that no longer compile
+    }
+  }
+  return patterns;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { decodeBase64, decodeObfuscatedStrings, unescapeJsString } from './decoder';
+
+const decodedValues = (content: string) => decodeObfuscatedStrings(content).map(decoded => `${decoded.chain.join(' > ')}: ${decoded.value}`);
+
+describe('decodeObfuscatedStrings', () => {
+  it('unescapes hex and unicode escaped literals', () => {
+    const content = String.raw`var a = "\x2f\x61\x70\x69\x2f\x75\x73\x65\x72\x73"; var b = '\u0074\u006f\u006b\u0065\u006e';`;
+
+    expect(decodedValues(content)).toEqual(['hex-escape: /api/users', 'unicode-escape: token']);
+  });
+
+  it('leaves literals with only a few escapes alone', () => {
+    expect(decodeObfuscatedStrings(String.raw`var a = "line one\nline\ttwo\x20three";`)).toEqual([]);
+  });
+
+  it('unwraps nested layers of an atob argument and keeps its position', () => {
+    const content = 'const k = atob("NjE3MDY5NWY2YjY1NzkzZDczNmI1ZjZjNjk3NjY1NWY2MTYyNjMzMTMyMzM=");';
+    const decoded = decodeObfuscatedStrings(content);
+
+    expect(decoded.map(entry => `${entry.chain.join(' > ')}: ${entry.value}`)).toEqual([
+      'base64: 6170695f6b65793d736b5f6c6976655f616263313233',
+      'base64 > hex: api_key=sk_live_abc123'
+    ]);
+    expect(decoded[1].offset).toBe(content.indexOf('atob'));
+    expect(decoded[1].length).toBe(content.indexOf(';') - content.indexOf('atob'));
+  });
+
+  it('decodes Buffer.from base64 and String.fromCharCode calls', () => {
+    const content = [
+      'Buffer.from("L2FwaS92MS9hZG1pbg==", "base64");',
+      'String.fromCharCode(47, 97, 112, 105, 47, 97, 100, 109, 105, 110);',
+      'String.fromCharCode.apply(null, [0x2f, 0x61, 0x70, 0x69]);'
+    ].join('\n');
+
+    expect(decodedValues(content)).toEqual(['base64: /api/v1/admin', 'charcode: /api/admin', 'charcode: /api']);
+  });
+
+  it('drops binary output', () => {
+    expect(decodeObfuscatedStrings('atob("AAECA8O/w74QEQ==")')).toEqual([]);
+  });
+
+  it('decodes javascript-obfuscator string tables', () => {
+    const content = "var _0x3f2a = ['l2fWAs92ms9Hzg1PBG==', 'Ahr0Chm6lY9PBNrLCM5HBc5LEgfTCgXLlMnVBq==', 'Dg9tDhjPBMC='];";
+
+    expect(decodedValues(content)).toEqual([
+      'string-table > base64: /api/v1/admin',
+      'string-table > base64: https://internal.example.com',
+      'string-table > base64: toString'
+    ]);
+  });
+});
+
+describe('decodeBase64', () => {
+  it('accepts URL-safe input without padding', () => {
+    expect(decodeBase64('aGk_Pz8-')).toBe('hi???>');
+    expect(decodeBase64('aGVsbG8')).toBe('hello');
+  });
+
+  it('rejects characters outside the alphabet and impossible lengths', () => {
+    expect(decodeBase64('aGVs*G8=')).toBeNull();
+    expect(decodeBase64('aGVsb')).toBeNull();
+  });
+});
+
+describe('unescapeJsString', () => {
+  it('resolves every escape form', () => {
+    expect(unescapeJsString(String.raw`\x41\u0042\u{1F600}\n\'\\`)).toBe("AB\u{1F600}\n'\\");
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Pre-scan decoding of escaped, encoded and obfuscated string literals
+ */
+
+// Nested encodings unwrapped per literal, e.g. base64 → hex is depth 2
+export const MAX_DECODE_DEPTH = 3;
+
+// Total decoded characters produced for a single file
+export const MAX_DECODED_OUTPUT = 512 * 1024;
+
+// Longest single decoded string kept
+export const MAX_DECODED_LENGTH = 64 * 1024;
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// javascript-obfuscator encodes its string table with a lowercase-first alphabet
+const OBFUSCATOR_BASE64_ALPHABET = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789+/';
+
+export type DecodingStep = 'hex-escape' | 'unicode-escape' | 'base64' | 'hex' | 'charcode' | 'string-table';
+
+export interface DecodedString {
+  value: string;
+  chain: DecodingStep[];
+  // Position of the encoded expression in the original content
+  offset: number;
+  length: number;
+}
+
+/**
+ * Find encoded strings in a script and decode them, including nested
+ * layers, within the depth and output bounds above
+ */
+export function decodeObfuscatedStrings(content: string): DecodedString[] {
+  const decoded: DecodedString[] = [];
+  let budget = MAX_DECODED_OUTPUT;
+
+  const add = (value: string, chain: DecodingStep[], offset: number, length: number) => {
+    if (budget <= 0 || chain.length > MAX_DECODE_DEPTH || !isPrintable(value)) return;
+
+    const kept = value.substring(0, Math.min(MAX_DECODED_LENGTH, budget));
+    budget -= kept.length;
+    decoded.push({ value: kept, chain, offset, length });
+
+    // Unwrap further layers of the same literal
+    const nested = decodeValue(kept);
+    if (nested) {
+      add(nested.value, [...chain, nested.step], offset, length);
+    }
+  };
+
+  // "\x41\x4b..." and "A..." literals
+  const literalRegex = /(["'`])((?:(?!\1)[^\\\n]|\\.){4,}?)\1/g;
+  let match;
+  while ((match = literalRegex.exec(content)) !== null) {
+    const body = match[2];
+    const escapes = (body.match(/\\(?:x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|u\{[0-9a-fA-F]{1,6}\})/g) || []).length;
+    if (escapes < 4) continue;
+
+    const step: DecodingStep = /\\x/.test(body) ? 'hex-escape' : 'unicode-escape';
+    add(unescapeJsString(body), [step], match.index, match[0].length);
+  }
+
+  // atob("...") and Buffer.from("...", "base64")
+  const base64CallRegex = /\b(?:atob\(\s*(["'])([A-Za-z0-9+\/=\-_\s]+)\1\s*\)|Buffer\.from\(\s*(["'])([A-Za-z0-9+\/=\-_\s]+)\3\s*,\s*["']base64["']\s*\))/g;
+  while ((match = base64CallRegex.exec(content)) !== null) {
+    const value = decodeBase64(match[2] || match[4]);
+    if (value !== null) {
+      add(value, ['base64'], match.index, match[0].length);
+    }
+  }
+
+  // String.fromCharCode(65, 75, ...) and String.fromCharCode.apply(null, [...])
+  const charCodeRegex = /String\.fromCharCode(?:\(\s*(?:\.\.\.\s*)?|\.apply\(\s*[\w$]+\s*,\s*)\[?\s*((?:0x[0-9a-fA-F]+|\d+)(?:\s*,\s*(?:0x[0-9a-fA-F]+|\d+)){3,})\s*\]?\s*\)/g;
+  while ((match = charCodeRegex.exec(content)) !== null) {
+    const codes = match[1].split(',').map(code => Number(code.trim()));
+    if (codes.every(code => code >= 0 && code <= 0xffff)) {
+      add(String.fromCharCode(...codes), ['charcode'], match.index, match[0].length);
+    }
+  }
+
+  // javascript-obfuscator string tables: _0x1a2b = ['...', '...']
+  const tableRegex = /_0x[0-9a-fA-F]+\s*=\s*\[((?:\s*(["'])(?:(?!\2)[^\\\n]|\\.)*\2\s*,?){3,})\]/g;
+  while ((match = tableRegex.exec(content)) !== null) {
+    const tableOffset = match.index;
+    const entryRegex = /(["'])((?:(?!\1)[^\\\n]|\\.)*)\1/g;
+    let entry;
+    while ((entry = entryRegex.exec(match[1])) !== null) {
+      const value = unescapeJsString(entry[2]);
+      const table = decodeBase64(value, OBFUSCATOR_BASE64_ALPHABET);
+      if (table !== null && isPrintable(table)) {
+        add(table, ['string-table', 'base64'], tableOffset, match[0].length);
+      }
+    }
+  }
+
+  return decoded;
+}
+
+/**
+ * Try to peel one more encoding layer off an already decoded value
+ */
+function decodeValue(value: string): { value: string; step: DecodingStep } | null {
+  const trimmed = value.trim();
+
+  if (/^(?:[0-9a-fA-F]{2}){8,}$/.test(trimmed)) {
+    const hex = trimmed.replace(/../g, byte => String.fromCharCode(parseInt(byte, 16)));
+    if (isPrintable(hex)) return { value: hex, step: 'hex' };
+  }
+
+  if (trimmed.length >= 16 && /^[A-Za-z0-9+\/\-_]+={0,2}$/.test(trimmed)) {
+    const base64 = decodeBase64(trimmed);
+    if (base64 !== null && isPrintable(base64)) return { value: base64, step: 'base64' };
+  }
+
+  return null;
+}
+
+/**
+ * Decode standard or URL-safe base64 into a binary string
+ */
+export function decodeBase64(value: string, alphabet: string = BASE64_ALPHABET): string | null {
+  const clean = value.replace(/\s+/g, '').replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  if (!clean || clean.length % 4 === 1) return null;
+
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const char of clean) {
+    const index = alphabet.indexOf(char);
+    if (index < 0) return null;
+    buffer = (buffer << 6) | index;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      output += String.fromCharCode((buffer >> bits) & 0xff);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Read a binary string, such as `atob` output, as UTF-8; invalid UTF-8 is
+ * returned unchanged
+ */
+export function decodeUtf8(binary: string): string {
+  try {
+    return decodeURIComponent(binary.replace(/[\s\S]/g, char => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`));
+  } catch {
+    return binary;
+  }
+}
+
+/**
+ * Resolve JavaScript string escape sequences
+ */
+export function unescapeJsString(body: string): string {
+  return body.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|u\{[0-9a-fA-F]{1,6}\}|[\s\S])/g, (_, escape: string) => {
+    if (escape[0] === 'x') return String.fromCharCode(parseInt(escape.substring(1), 16));
+    if (escape.startsWith('u{')) return String.fromCodePoint(parseInt(escape.slice(2, -1), 16));
+    if (escape[0] === 'u' && escape.length === 5) return String.fromCharCode(parseInt(escape.substring(1), 16));
+    switch (escape) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case '0': return '\0';
+      default: return escape;
+    }
+  });
+}
+
+/**
+ * Decoded output must be mostly printable text to be worth scanning
+ */
+function isPrintable(value: string): boolean {
+  if (value.length < 4) return false;
+  let printable = 0;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if ((code >= 0x20 && code < 0x7f) || code === 9 || code === 10 || code === 13) printable++;
+  }
+  return printable / value.length >= 0.9;
+}
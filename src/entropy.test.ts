@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { DETECTION_PATTERNS, PatternConfig } from './patterns';
+import { calculateShannonEntropy, classifyCharset, extractSecretValue, scoreSecret } from './entropy';
+
+const patternNamed = (name: string): PatternConfig => {
+  const pattern = DETECTION_PATTERNS.find(candidate => candidate.name === name);
+  if (!pattern) throw new Error(`No built-in pattern "${name}"`);
+  return pattern;
+};
+
+describe('calculateShannonEntropy', () => {
+  it('measures bits per character', () => {
+    expect(calculateShannonEntropy('')).toBe(0);
+    expect(calculateShannonEntropy('aaaa')).toBe(0);
+    expect(calculateShannonEntropy('abcdefgh')).toBe(3);
+  });
+});
+
+describe('classifyCharset', () => {
+  it('names the narrowest charset', () => {
+    expect(classifyCharset('12345')).toBe('numeric');
+    expect(classifyCharset('deadbeef01')).toBe('hex');
+    expect(classifyCharset('abcdef')).toBe('alpha');
+    expect(classifyCharset('abc123XYZ')).toBe('alphanumeric');
+    expect(classifyCharset('ab+c/12==')).toBe('base64');
+    expect(classifyCharset('ab-c_12')).toBe('base64url');
+    expect(classifyCharset('a b!')).toBe('mixed');
+  });
+});
+
+describe('scoreSecret', () => {
+  it('scores only the assigned value of key/value patterns', () => {
+    expect(extractSecretValue(patternNamed('Generic API Key'), 'apiKey: "q8W7e6R5t4Y3u2I1"')).toBe('"q8W7e6R5t4Y3u2I1"');
+    expect(extractSecretValue(patternNamed('AWS Secret Key'), 'apiKey: value')).toBe('apiKey: value');
+  });
+
+  it('drops rejected charsets and values below the minimum entropy', () => {
+    const awsSecret = patternNamed('AWS Secret Key');
+
+    expect(scoreSecret(awsSecret, '0123456789abcdef0123456789abcdef01234567').verdict).toBe('drop');
+    expect(scoreSecret(awsSecret, 'abababababababababababababababababab1234').verdict).toBe('drop');
+  });
+
+  it('demotes values between the minimum and demotion thresholds', () => {
+    const score = scoreSecret(patternNamed('Generic API Key'), 'apiKey: abcdefghabcdefgh');
+
+    expect(score.entropy).toBe(3);
+    expect(score.verdict).toBe('demote');
+  });
+
+  it('keeps high-entropy values', () => {
+    expect(scoreSecret(patternNamed('AWS Secret Key'), 'wJalrXUtnFEMI/K7MDENG/bPxRfiCYzq9Lm3Qs8T').verdict).toBe('keep');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Shannon entropy scoring and charset classification for secret candidates
+ */
+
+import { PatternConfig } from './patterns';
+
+export type SecretCharset = 'hex' | 'numeric' | 'alpha' | 'alphanumeric' | 'base64' | 'base64url' | 'mixed';
+
+export type EntropyVerdict = 'keep' | 'demote' | 'drop';
+
+export interface EntropyScore {
+  entropy: number;
+  charset: SecretCharset;
+  verdict: EntropyVerdict;
+}
+
+/**
+ * Calculate the Shannon entropy of a string in bits per character
+ */
+export function calculateShannonEntropy(value: string): number {
+  if (!value) {
+    return 0;
+  }
+
+  const frequencies = new Map<string, number>();
+  for (const char of value) {
+    frequencies.set(char, (frequencies.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of frequencies.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+
+  return Math.round(entropy * 100) / 100;
+}
+
+/**
+ * Classify the character set a secret candidate is drawn from
+ */
+export function classifyCharset(value: string): SecretCharset {
+  if (/^[0-9]+$/.test(value)) return 'numeric';
+  if (/^[0-9a-f]+$/i.test(value) && /[0-9]/.test(value)) return 'hex';
+  if (/^[A-Za-z]+$/.test(value)) return 'alpha';
+  if (/^[A-Za-z0-9]+$/.test(value)) return 'alphanumeric';
+  if (/^[A-Za-z0-9+\/]+={0,2}$/.test(value)) return 'base64';
+  if (/^[A-Za-z0-9\-_]+={0,2}$/.test(value)) return 'base64url';
+  return 'mixed';
+}
+
+/**
+ * Get the part of a match that carries the randomness. For key/value
+ * patterns like `apiKey: "..."` only the assigned value is scored.
+ */
+export function extractSecretValue(pattern: PatternConfig, match: string): string {
+  if (!pattern.keyValue) {
+    return match;
+  }
+
+  const assignment = match.match(/[:=]\s*(.+)$/);
+  return assignment ? assignment[1].trim() : match;
+}
+
+/**
+ * Score a secret candidate against the pattern's entropy thresholds
+ */
+export function scoreSecret(pattern: PatternConfig, match: string): EntropyScore {
+  const value = extractSecretValue(pattern, match);
+  const entropy = calculateShannonEntropy(value);
+  const charset = classifyCharset(value);
+
+  let verdict: EntropyVerdict = 'keep';
+  if (pattern.rejectCharsets?.includes(charset)) {
+    verdict = 'drop';
+  } else if (pattern.minEntropy !== undefined && entropy < pattern.minEntropy) {
+    verdict = 'drop';
+  } else if (pattern.demoteEntropy !== undefined && entropy < pattern.demoteEntropy) {
+    verdict = 'demote';
+  }
+
+  return { entropy, charset, verdict };
+}
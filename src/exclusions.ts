@@ -0,0 +1,198 @@
+/**
+ * Rule-based false positive exclusion that records why a hit was dropped
+ */
+
+export type ExclusionTarget = 'value' | 'context' | 'file' | 'pattern';
+
+// 'word': a whole word, with punctuation, `_`, `-` and camelCase humps as boundaries
+// 'segment': a whole URL path segment
+// 'regex': the regex anywhere in the target
+export type ExclusionMode = 'word' | 'segment' | 'regex';
+
+export interface ExclusionRule {
+  id: string;
+  description: string;
+  target: ExclusionTarget;
+  mode: ExclusionMode;
+  // Lowercase words or segments for the 'word' and 'segment' modes
+  terms?: string[];
+  regex?: RegExp;
+  // Match types the rule applies to; all types when omitted
+  types?: string[];
+}
+
+export interface ExclusionCandidate {
+  value: string;
+  type: string;
+  context?: string;
+  fileUrl: string;
+  patternName: string;
+}
+
+export interface Exclusion {
+  rule: string;
+  reason: string;
+}
+
+// Hits kept for the "filtered out" view; older ones are discarded first
+export const MAX_FILTERED_RESULTS = 2000;
+
+export const DEFAULT_EXCLUSION_RULES: ExclusionRule[] = [
+  {
+    id: 'placeholder-value',
+    description: 'Placeholder value',
+    target: 'value',
+    mode: 'word',
+    terms: ['example', 'sample', 'placeholder', 'dummy', 'changeme', 'todo', 'foo', 'bar', 'baz', 'lorem', 'ipsum'],
+    types: ['secret', 'email']
+  },
+  {
+    id: 'test-credential',
+    description: 'Test or mock credential',
+    target: 'value',
+    mode: 'word',
+    terms: ['test', 'demo', 'mock', 'fake'],
+    types: ['secret']
+  },
+  {
+    id: 'placeholder-path',
+    description: 'Placeholder path segment',
+    target: 'value',
+    mode: 'segment',
+    terms: ['example', 'sample', 'placeholder', 'dummy', 'todo', 'foo', 'bar', 'baz'],
+    types: ['endpoint']
+  },
+  {
+    // Only the documentation hosts themselves; real subdomains are kept
+    id: 'example-domain',
+    description: 'Reserved documentation domain',
+    target: 'value',
+    mode: 'regex',
+    regex: /^(?:[a-z][a-z0-9+.-]*:)?\/\/(?:www\.)?example\.(?:com|org|net)(?=$|[:\/?#])/i,
+    types: ['endpoint']
+  },
+  {
+    id: 'local-host',
+    description: 'Local development host',
+    target: 'value',
+    mode: 'regex',
+    regex: /(?<=^|[\/@])(?:localhost|127\.0\.0\.1|0\.0\.0\.0)(?=$|[:\/?#])/i
+  },
+  {
+    id: 'placeholder-attribute',
+    description: 'Form placeholder text',
+    target: 'context',
+    mode: 'regex',
+    regex: /\bplaceholder\s*[:=]\s*["'`]/i,
+    types: ['secret']
+  },
+  {
+    // Fixture credentials; endpoints and routes in a test bundle are still real
+    id: 'test-file',
+    description: 'Test or fixture file',
+    target: 'file',
+    mode: 'segment',
+    terms: ['test', 'tests', '__tests__', '__mocks__', 'spec', 'fixtures', 'mocks'],
+    types: ['secret']
+  },
+  {
+    id: 'test-file-name',
+    description: 'Test or fixture file',
+    target: 'file',
+    mode: 'regex',
+    regex: /\.(?:test|spec)\.[cm]?[jt]sx?(?=$|[?#])/i,
+    types: ['secret']
+  }
+];
+
+/**
+ * Find the first rule that excludes a hit, with a reason fit for auditing
+ */
+export function findExclusion(
+  candidate: ExclusionCandidate,
+  rules: ExclusionRule[] = DEFAULT_EXCLUSION_RULES
+): Exclusion | null {
+  for (const rule of rules) {
+    if (rule.types && !rule.types.includes(candidate.type)) continue;
+
+    const text = targetText(rule.target, candidate);
+    if (!text) continue;
+
+    const hit = findRuleHit(rule, text);
+    if (hit !== null) {
+      return {
+        rule: rule.id,
+        reason: `${rule.description}: ${describeHit(rule, hit)} in ${rule.target}`
+      };
+    }
+  }
+
+  return null;
+}
+
+function targetText(target: ExclusionTarget, candidate: ExclusionCandidate): string | undefined {
+  switch (target) {
+    case 'value': return candidate.value;
+    case 'context': return candidate.context;
+    case 'file': return candidate.fileUrl;
+    case 'pattern': return candidate.patternName;
+  }
+}
+
+function findRuleHit(rule: ExclusionRule, text: string): string | null {
+  switch (rule.mode) {
+    case 'word': {
+      const words = new Set(splitWords(text));
+      return (rule.terms || []).find(term => words.has(term)) ?? null;
+    }
+    case 'segment': {
+      const segments = pathSegments(text);
+      return (rule.terms || []).find(term => segments.includes(term)) ?? null;
+    }
+    case 'regex': {
+      const match = rule.regex ? rule.regex.exec(text) : null;
+      return match ? match[0] : null;
+    }
+  }
+}
+
+function describeHit(rule: ExclusionRule, hit: string): string {
+  switch (rule.mode) {
+    case 'word': return `word "${hit}"`;
+    case 'segment': return `path segment "${hit}"`;
+    case 'regex': return `"${hit}"`;
+  }
+}
+
+/**
+ * Lowercase words of a string: `sk_test_x`, `getTestKey` and `test-key` all
+ * contain "test"; `contests` and `latest` do not
+ */
+export function splitWords(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Lowercase path segments of a URL or path, ignoring scheme, host, query
+ * and fragment
+ */
+export function pathSegments(text: string): string[] {
+  const path = text
+    .replace(/^(?:[a-z][a-z0-9+.-]*:)?\/\/[^\/?#]*/i, '')
+    .replace(/[?#].*$/, '');
+
+  return path
+    .split('/')
+    .map(segment => {
+      try {
+        return decodeURIComponent(segment).toLowerCase();
+      } catch {
+        return segment.toLowerCase();
+      }
+    })
+    .filter(Boolean);
+}
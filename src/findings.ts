@@ -0,0 +1,568 @@
+/**
+ * Turn the pattern and extractor hits of a file into findings. The backend
+ * plugin and the legacy scanner both scan through here, so a finding carries
+ * the same fields and severity whichever one reported it.
+ */
+
+import { PatternConfig, PatternType, Severity, matchPatterns } from './patterns';
+import { scoreSecret, SecretCharset } from './entropy';
+import { buildLineIndex, locateOffset, extractContext } from './location';
+import { extractHttpCalls, describeHttpCall, HttpCall } from './httpcalls';
+import { extractConfigObjects, configFlags, ConfigEntry, ConfigObject } from './config';
+import { extractSinks, sinkSeverity, DomSink, SINK_PATTERN_NAMES } from './sinks';
+import {
+  extractMessageHandlers,
+  findMessageListeners,
+  messageHandlerSeverity,
+  MessageHandler,
+  MESSAGE_HANDLER_PATTERN_NAMES
+} from './postmessage';
+import { detectLibraries, findAdvisories, advisorySeverity, DetectedLibrary } from './libraries';
+import { Advisory } from './advisories';
+import { extractClientRoutes, ClientRoute } from './clientroutes';
+import { extractHosts, classifyHost, HostClass, DiscoveredHost, HOST_PATTERN_NAMES } from './hosts';
+import { extractBuckets, BucketLocation, BucketReference } from './buckets';
+import { extractRealtimeEndpoints, endpointProtocol, isWebSocketProtocol, RealtimeEndpoint } from './protocols';
+import { parseJavaScript } from './ast';
+import { createConstantResolver, reconstructUrls, ReconstructedUrl } from './constants';
+import { decodeObfuscatedStrings, DecodingStep, MAX_DECODE_DEPTH } from './decoder';
+import { findExclusion, Exclusion } from './exclusions';
+import { analyzeJwt, jwtSeverity, JwtAnalysis } from './jwt';
+import { classifyKey, exposureSeverity, KeyClassification } from './keyclass';
+import { collapseRoutes } from './routes';
+import { extractParameters, DiscoveredParameter, ParameterLocation } from './parameters';
+import {
+  extractGraphQL,
+  isGraphQLEndpoint,
+  describeOperation,
+  GraphQLOperation,
+  GraphQLDocumentHit,
+  GraphQLEndpointHit
+} from './graphql';
+
+// Kind of finding; patterns report the pattern types, extractors the rest
+export type MatchType =
+  | PatternType
+  | 'sourcemap'
+  | 'parameter'
+  | 'graphql'
+  | 'bucket'
+  | 'host'
+  | 'route'
+  | 'config'
+  | 'library'
+  | 'sink'
+  | 'postmessage';
+
+export interface ScanResult {
+  id: string;
+  fileUrl: string;
+  matchType: MatchType;
+  matchValue: string;
+  sourceRequestId: string;
+  sourceUrl: string;
+  patternName: string;
+  timestamp: number;
+  severity: Severity;
+  entropy?: number;
+  charset?: SecretCharset;
+  offset?: number;
+  line?: number;
+  column?: number;
+  context?: string;
+  contextMatchStart?: number;
+  contextMatchEnd?: number;
+  bundleUrl?: string;
+  httpMethod?: string;
+  requestHeaders?: string[];
+  bodyKeys?: string[];
+  // Scheme of an endpoint, or `sse` / `socket.io` for streams and namespaces
+  protocol?: string;
+  decodingChain?: DecodingStep[];
+  provider?: string;
+  // Whether the value passed the pattern's offline structural check
+  formatValid?: boolean;
+  // Decoded header, payload and analysis flags of a JWT secret
+  jwt?: JwtAnalysis;
+  // Whether a secret is public by design, a vendor sample or likely sensitive
+  classification?: KeyClassification;
+  // Concrete endpoints collapsed into a route template
+  samples?: string[];
+  // Where a `parameter` finding is sent and the endpoints it was linked to
+  parameterLocations?: ParameterLocation[];
+  parameterEndpoints?: string[];
+  // Parsed operation of a `graphql` finding
+  graphql?: GraphQLOperation;
+  // Provider, bucket, region and path of a `bucket` finding
+  bucket?: BucketLocation;
+  // Where a `host` finding sits relative to the target
+  hostClass?: HostClass;
+  // Framework, lazy chunk, guards and roles of a client-side `route` finding
+  clientRoute?: ClientRoute;
+  // Flattened key/value pairs of a `config` finding
+  config?: ConfigEntry[];
+  // Sink API, kind and the source reaching it of a `sink` finding
+  sink?: DomSink;
+  // Origin check, message data use and source of a `postmessage` finding
+  messageHandler?: MessageHandler;
+  // Name, version and matching advisories of a `library` finding
+  library?: DetectedLibrary;
+  advisories?: Advisory[];
+  // Set when an exclusion rule filtered the hit out
+  exclusion?: Exclusion;
+}
+
+export interface ScanOptions {
+  // Built-in and custom patterns with the pattern settings applied
+  patterns: PatternConfig[];
+  // Advisories library findings are matched against
+  advisories: Advisory[];
+  // A pattern that throws is reported here and skipped
+  onPatternError?: (pattern: PatternConfig, error: unknown) => void;
+}
+
+// The file being scanned and the request it was found through
+interface ScannedFile {
+  content: string;
+  lineIndex: number[];
+  fileUrl: string;
+  sourceRequestId: string;
+  sourceUrl: string;
+}
+
+type FindingFields = Omit<ScanResult, 'id' | 'fileUrl' | 'sourceRequestId' | 'sourceUrl' | 'timestamp'>;
+
+/**
+ * Scan one file with the patterns and every extractor. Decoded literals are
+ * rescanned up to MAX_DECODE_DEPTH layers deep.
+ */
+export function scanContent(
+  content: string,
+  fileUrl: string,
+  sourceRequestId: string,
+  sourceUrl: string,
+  options: ScanOptions,
+  decodeDepth: number = 0
+): ScanResult[] {
+  const file: ScannedFile = { content, lineIndex: buildLineIndex(content), fileUrl, sourceRequestId, sourceUrl };
+  const program = parseJavaScript(content);
+  const resolveConstant = createConstantResolver(program);
+  let results = scanPatterns(file, options);
+
+  const calls = extractHttpCalls(content, program, resolveConstant);
+  const realtime = extractRealtimeEndpoints(program, resolveConstant);
+  const clientRoutes = extractClientRoutes(program, resolveConstant);
+  const urls = program ? reconstructUrls(program, resolveConstant) : [];
+
+  // Reconstructed endpoints replace the fragments they were built from,
+  // calls and connections the plain URL hits that know nothing of the
+  // method or protocol, and client route paths are pages rather than API endpoints
+  results = results.filter(r => r.matchType !== 'endpoint' || (
+    !urls.some(url => startsWithin(url, r) && url.fragments.some(fragment => fragment.includes(r.matchValue))) &&
+    !calls.some(call => startsWithin(call, r) && call.url.includes(r.matchValue)) &&
+    !realtime.some(endpoint => endpoint.url === r.matchValue) &&
+    !clientRoutes.some(route => route.path === r.matchValue)
+  ));
+
+  const structural = [
+    ...scanHttpCalls(file, calls),
+    ...scanRealtimeEndpoints(file, realtime),
+    // A call or connection already reports its URL together with the method or protocol
+    ...scanReconstructedUrls(
+      file,
+      urls.filter(url => !calls.some(call => call.url === url.url) && !realtime.some(endpoint => endpoint.url === url.url))
+    )
+  ];
+  for (const result of structural) {
+    mergeResult(results, result);
+  }
+
+  // Parameter names from query strings, call bodies and headers, URLSearchParams and FormData
+  const endpoints = results
+    .filter(r => r.matchType === 'endpoint' && !r.httpMethod)
+    .map(r => ({ url: r.matchValue, offset: r.offset ?? 0, length: r.matchValue.length }));
+  const parameters = extractParameters(program, calls, endpoints, resolveConstant);
+  for (const result of scanParameters(file, parameters)) {
+    mergeResult(results, result);
+  }
+
+  // GraphQL operations and the endpoint they are sent to
+  const graphql = extractGraphQL(content, program, resolveConstant);
+  const graphqlEndpoints = [
+    ...graphql.endpoints,
+    ...results
+      .filter(r => r.matchType === 'endpoint' && isGraphQLEndpoint(r.matchValue))
+      .map(r => ({ url: r.matchValue.replace(/^[A-Z]+ /, ''), offset: r.offset ?? 0, length: r.matchValue.length }))
+  ];
+  for (const result of scanGraphQL(file, graphql.documents, graphqlEndpoints)) {
+    mergeResult(results, result);
+  }
+
+  // Cloud storage buckets and CDN origins; the path hits inside a storage
+  // URI are part of the bucket finding
+  const buckets = extractBuckets(content);
+  results = results.filter(r => r.matchType !== 'endpoint' || !buckets.some(bucket =>
+    isStorageUri(bucket.url) && startsWithin(bucket, r) && bucket.url.includes(r.matchValue)
+  ));
+  for (const result of scanBuckets(file, buckets)) {
+    mergeResult(results, result);
+  }
+
+  // Client-side router pages, kept apart from the API endpoints
+  for (const result of scanClientRoutes(file, clientRoutes)) {
+    mergeResult(results, result);
+  }
+
+  // Runtime configuration, environment and feature flag objects
+  for (const result of scanConfigObjects(file, extractConfigObjects(program, resolveConstant))) {
+    mergeResult(results, result);
+  }
+
+  // DOM XSS sinks, raised when a location, referrer or message source reaches them
+  const sinks = extractSinks(content, program, resolveConstant);
+  for (const result of scanSinks(file, sinks)) {
+    mergeResult(results, result);
+  }
+
+  // postMessage listeners, by how well they check the sender's origin
+  const handlers = extractMessageHandlers(content, findMessageListeners(program), sinks);
+  for (const result of scanMessageHandlers(file, handlers)) {
+    mergeResult(results, result);
+  }
+
+  // Bundled libraries and the advisories covering their version
+  for (const result of scanLibraries(file, detectLibraries(content), options.advisories)) {
+    mergeResult(results, result);
+  }
+
+  // Hostnames of every endpoint, and subdomains of the target named in strings
+  const hostEndpoints = results
+    .filter(r => r.matchType === 'endpoint')
+    .map(r => ({ url: r.matchValue.replace(/^[A-Z]+ /, ''), offset: r.offset ?? 0, length: r.matchValue.length }));
+  for (const result of scanHosts(file, extractHosts(content, hostEndpoints, sourceUrl))) {
+    mergeResult(results, result);
+  }
+
+  // Decoding stage: rescan escaped, encoded and obfuscated literals
+  if (decodeDepth < MAX_DECODE_DEPTH) {
+    for (const decoded of decodeObfuscatedStrings(content)) {
+      const location = locateOffset(file.lineIndex, decoded.offset);
+      const decodedResults = scanContent(
+        decoded.value,
+        fileUrl,
+        sourceRequestId,
+        sourceUrl,
+        options,
+        decodeDepth + decoded.chain.length
+      );
+
+      for (const result of decodedResults) {
+        // Point at the encoded literal; the context keeps the decoded text
+        mergeResult(results, {
+          ...result,
+          ...location,
+          decodingChain: [...decoded.chain, ...(result.decodingChain || [])]
+        });
+      }
+    }
+  }
+
+  // `/users/1/orders` and `/users/2/orders` become one `/users/{id}/orders` finding
+  return collapseRoutes(results);
+}
+
+// Whether a hit sits in the source of a call or reconstructed URL, rather
+// than elsewhere in the file with the same text
+function startsWithin(span: { offset: number; length: number }, result: ScanResult): boolean {
+  const offset = result.offset ?? -1;
+  return offset >= span.offset && offset < span.offset + span.length;
+}
+
+function isStorageUri(url: string): boolean {
+  return /^(?:s3|gs):\/\//i.test(url);
+}
+
+function scanPatterns(file: ScannedFile, options: ScanOptions): ScanResult[] {
+  const results: ScanResult[] = [];
+  const matches = matchPatterns(options.patterns, file.content, file.fileUrl, options.onPatternError);
+
+  for (const { pattern, value, match, offset } of matches) {
+    // Skip duplicates, unless the earlier occurrence was filtered out
+    const existing = results.find(r => r.matchValue === value && r.matchType === pattern.type);
+    if (existing && !existing.exclusion) continue;
+
+    const result = applyExclusion(createResult(file, offset, match.length, {
+      matchType: pattern.type,
+      matchValue: value,
+      patternName: pattern.name,
+      severity: pattern.severity || defaultSeverity(pattern.type, pattern.name),
+      provider: pattern.provider,
+      formatValid: pattern.validate ? pattern.validate(value) : undefined,
+      protocol: pattern.type === 'endpoint' ? endpointProtocol(value) : undefined
+    }));
+
+    // Score secrets so low-randomness noise is dropped or demoted
+    if (pattern.type === 'secret') {
+      const score = scoreSecret(pattern, value);
+      if (score.verdict === 'drop') continue;
+      if (score.verdict === 'demote') result.severity = 'low';
+      result.entropy = score.entropy;
+      result.charset = score.charset;
+
+      const jwt = analyzeJwt(value);
+      if (jwt) {
+        result.jwt = jwt;
+        result.severity = jwtSeverity(jwt, result.severity);
+      }
+
+      result.classification = classifyKey(value);
+      result.severity = exposureSeverity(result.classification, result.severity);
+    }
+
+    // A severity the user pinned in the pattern settings wins
+    if (pattern.severityOverride) {
+      result.severity = pattern.severityOverride;
+    }
+
+    mergeResult(results, result);
+  }
+
+  return results;
+}
+
+function scanHttpCalls(file: ScannedFile, calls: HttpCall[]): ScanResult[] {
+  return calls.map(call => applyExclusion(createResult(file, call.offset, call.length, {
+    matchType: 'endpoint',
+    matchValue: describeHttpCall(call),
+    patternName: `HTTP Call (${call.client})`,
+    severity: defaultSeverity('endpoint', 'HTTP Call'),
+    httpMethod: call.method,
+    requestHeaders: call.headers,
+    bodyKeys: call.bodyKeys,
+    protocol: endpointProtocol(call.url)
+  }), call.url));
+}
+
+function scanRealtimeEndpoints(file: ScannedFile, endpoints: RealtimeEndpoint[]): ScanResult[] {
+  return endpoints.map(endpoint => applyExclusion(createResult(file, endpoint.offset, endpoint.length, {
+    matchType: 'endpoint',
+    matchValue: endpoint.url,
+    patternName: `${endpoint.client} Connection`,
+    severity: isWebSocketProtocol(endpoint.protocol) ? 'high' : defaultSeverity('endpoint', 'Realtime Connection'),
+    protocol: endpoint.protocol
+  })));
+}
+
+function scanReconstructedUrls(file: ScannedFile, urls: ReconstructedUrl[]): ScanResult[] {
+  return urls.map(url => {
+    const protocol = endpointProtocol(url.url);
+    return applyExclusion(createResult(file, url.offset, url.length, {
+      matchType: 'endpoint',
+      matchValue: url.url,
+      patternName: 'Reconstructed URL',
+      severity: isWebSocketProtocol(protocol) ? 'high' : defaultSeverity('endpoint', 'Reconstructed URL'),
+      protocol
+    }));
+  });
+}
+
+function scanParameters(file: ScannedFile, parameters: DiscoveredParameter[]): ScanResult[] {
+  return parameters.map(parameter => applyExclusion(createResult(file, parameter.offset, parameter.length, {
+    matchType: 'parameter',
+    matchValue: parameter.name,
+    patternName: 'Parameter Name',
+    severity: defaultSeverity('parameter', 'Parameter Name'),
+    parameterLocations: parameter.locations,
+    parameterEndpoints: parameter.endpoints.length > 0 ? parameter.endpoints : undefined
+  })));
+}
+
+function scanGraphQL(file: ScannedFile, documents: GraphQLDocumentHit[], endpoints: GraphQLEndpointHit[]): ScanResult[] {
+  const operations = documents.map(document => {
+    const type = document.operation.type;
+    const patternName = `GraphQL ${type.charAt(0).toUpperCase()}${type.slice(1)}`;
+    return applyExclusion(createResult(file, document.offset, document.length, {
+      matchType: 'graphql',
+      matchValue: describeOperation(document.operation),
+      patternName,
+      severity: defaultSeverity('graphql', patternName),
+      graphql: document.operation
+    }));
+  });
+
+  const endpointResults = endpoints.map(endpoint => applyExclusion(createResult(file, endpoint.offset, endpoint.length, {
+    matchType: 'graphql',
+    matchValue: endpoint.url,
+    patternName: 'GraphQL Endpoint',
+    severity: defaultSeverity('graphql', 'GraphQL Endpoint')
+  })));
+
+  return [...operations, ...endpointResults];
+}
+
+function scanBuckets(file: ScannedFile, buckets: BucketReference[]): ScanResult[] {
+  return buckets.map(reference => {
+    const patternName = reference.location.kind === 'cdn' ? 'CDN Origin' : 'Cloud Storage Bucket';
+    // Storage URIs are left out of the scheme URL pattern, so their protocol is kept here
+    return applyExclusion(createResult(file, reference.offset, reference.length, {
+      matchType: 'bucket',
+      matchValue: reference.url,
+      patternName,
+      severity: defaultSeverity('bucket', patternName),
+      provider: reference.location.provider,
+      bucket: reference.location,
+      protocol: isStorageUri(reference.url) ? endpointProtocol(reference.url) : undefined
+    }));
+  });
+}
+
+function scanClientRoutes(file: ScannedFile, routes: ClientRoute[]): ScanResult[] {
+  return routes.map(route => {
+    const patternName = `${route.framework} Route`;
+    return applyExclusion(createResult(file, route.offset, route.length, {
+      matchType: 'route',
+      matchValue: route.path,
+      patternName,
+      // Guarded pages are often only protected in the client
+      severity: route.guards.length > 0 || route.roles.length > 0 ? 'medium' : defaultSeverity('route', patternName),
+      clientRoute: route
+    }));
+  });
+}
+
+function scanConfigObjects(file: ScannedFile, configs: ConfigObject[]): ScanResult[] {
+  return configs.map(config => {
+    const flags = configFlags(config.entries);
+    return applyExclusion(createResult(file, config.offset, config.length, {
+      matchType: 'config',
+      matchValue: config.name,
+      patternName: 'Runtime Configuration',
+      severity: flags.includes('secret') ? 'high' : flags.length > 0 ? 'medium' : defaultSeverity('config', 'Runtime Configuration'),
+      config: config.entries
+    }));
+  });
+}
+
+function scanSinks(file: ScannedFile, sinks: DomSink[]): ScanResult[] {
+  return sinks.map(sink => applyExclusion(createResult(file, sink.offset, sink.length, {
+    matchType: 'sink',
+    matchValue: sink.snippet,
+    patternName: SINK_PATTERN_NAMES[sink.kind],
+    severity: sinkSeverity(sink),
+    sink
+  })));
+}
+
+function scanMessageHandlers(file: ScannedFile, handlers: MessageHandler[]): ScanResult[] {
+  return handlers.map(handler => applyExclusion(createResult(file, handler.offset, handler.length, {
+    matchType: 'postmessage',
+    matchValue: handler.summary,
+    patternName: MESSAGE_HANDLER_PATTERN_NAMES[handler.originCheck],
+    severity: messageHandlerSeverity(handler),
+    messageHandler: handler
+  })));
+}
+
+function scanLibraries(file: ScannedFile, libraries: DetectedLibrary[], dataset: Advisory[]): ScanResult[] {
+  return libraries.map(library => {
+    const advisories = findAdvisories(library, dataset);
+    return applyExclusion(createResult(file, library.offset, library.length, {
+      matchType: 'library',
+      matchValue: `${library.name} ${library.version}`,
+      patternName: advisories.length > 0 ? 'Vulnerable Library' : 'Library Fingerprint',
+      severity: advisorySeverity(advisories),
+      library,
+      advisories
+    }));
+  });
+}
+
+function scanHosts(file: ScannedFile, hosts: DiscoveredHost[]): ScanResult[] {
+  return hosts.map(host => {
+    const hostClass = classifyHost(host.hostname, file.sourceUrl);
+    return applyExclusion(createResult(file, host.offset, host.length, {
+      matchType: 'host',
+      matchValue: host.hostname,
+      patternName: HOST_PATTERN_NAMES[hostClass],
+      severity: defaultSeverity('host', HOST_PATTERN_NAMES[hostClass]),
+      hostClass
+    }));
+  });
+}
+
+// A finding at `offset` in the file, with its line, column and context
+function createResult(file: ScannedFile, offset: number, length: number, fields: FindingFields): ScanResult {
+  return {
+    id: generateId(),
+    fileUrl: file.fileUrl,
+    sourceRequestId: file.sourceRequestId,
+    sourceUrl: file.sourceUrl,
+    timestamp: Date.now(),
+    ...fields,
+    ...locateOffset(file.lineIndex, offset),
+    ...extractContext(file.content, offset, length)
+  };
+}
+
+/**
+ * Tag a result with the exclusion rule it hits, if any. `value` is what
+ * the rules test, e.g. the bare URL of an HTTP call.
+ */
+function applyExclusion(result: ScanResult, value: string = result.matchValue): ScanResult {
+  const exclusion = findExclusion({
+    value,
+    type: result.matchType,
+    context: result.context,
+    fileUrl: result.fileUrl,
+    patternName: result.patternName
+  });
+  if (exclusion) result.exclusion = exclusion;
+  return result;
+}
+
+/**
+ * Add a result unless the same value was already found; a kept hit
+ * replaces an earlier occurrence that was filtered out
+ */
+function mergeResult(results: ScanResult[], result: ScanResult): void {
+  const index = results.findIndex(r => r.matchValue === result.matchValue && r.matchType === result.matchType);
+  if (index === -1) {
+    results.push(result);
+  } else if (results[index].exclusion && !result.exclusion) {
+    results[index] = result;
+  }
+}
+
+/**
+ * Severity of a finding whose pattern or extractor does not set one
+ */
+export function defaultSeverity(type: string, patternName: string): Severity {
+  if (type === 'secret') {
+    if (patternName.includes('AWS') || patternName.includes('Private Key') || patternName.includes('Database')) {
+      return 'critical';
+    }
+    if (patternName.includes('API Key') || patternName.includes('JWT') || patternName.includes('Token')) {
+      return 'high';
+    }
+    return 'medium';
+  }
+  if (type === 'endpoint') return 'medium';
+  if (type === 'email') return 'low';
+  if (type === 'ip') return 'info';
+  if (type === 'config') return 'low';
+  if (type === 'host') {
+    if (patternName.includes('Internal')) return 'medium';
+    return patternName.includes('Same-Domain') ? 'low' : 'info';
+  }
+  if (type === 'bucket') {
+    return patternName.includes('CDN') ? 'low' : 'medium';
+  }
+  if (type === 'graphql') {
+    return patternName.includes('Mutation') || patternName.includes('Endpoint') ? 'medium' : 'low';
+  }
+  return 'info';
+}
+
+export function generateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
 import './styles.css';
+import type { MatchType, ScanResult as BackendScanResult } from '../findings';
+import type { Severity } from '../patterns';
 
 // Caido SDK types for frontend
 interface CaidoUI {
@@ -32,14 +34,717 @@ declare global {
 
 export interface ScanResult {
   id: string;
-  type: 'endpoint' | 'secret' | 'email' | 'ip';
+  type: MatchType;
   value: string;
   source: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
+  // Page the script was loaded by
+  pageUrl?: string;
+  severity: Severity;
   timestamp: number;
   context?: string;
+  entropy?: number;
+  charset?: string;
+  line?: number;
+  column?: number;
+  contextMatchStart?: number;
+  contextMatchEnd?: number;
+  bundleUrl?: string;
+  httpMethod?: string;
+  requestHeaders?: string[];
+  bodyKeys?: string[];
+  protocol?: string;
+  decodingChain?: string[];
+  provider?: string;
+  formatValid?: boolean;
+  jwt?: JwtInfo;
+  classification?: { exposure: 'public' | 'sample' | 'sensitive'; reason: string };
+  samples?: string[];
+  parameterLocations?: string[];
+  parameterEndpoints?: string[];
+  graphql?: GraphQLInfo;
+  bucket?: BucketInfo;
+  hostClass?: 'in-scope' | 'same-domain' | 'third-party' | 'internal';
+  clientRoute?: ClientRouteInfo;
+  config?: ConfigEntryInfo[];
+  library?: LibraryInfo;
+  advisories?: AdvisoryInfo[];
+  sink?: SinkInfo;
+  messageHandler?: MessageHandlerInfo;
+  exclusion?: { rule: string; reason: string };
+}
+
+// Realtime channels are highlighted as frequent authorization blind spots
+const WEBSOCKET_PROTOCOLS = ['ws', 'wss', 'socket.io'];
+
+const EXPOSURE_LABELS = {
+  public: 'public by design',
+  sample: 'sample',
+  sensitive: 'likely sensitive'
+};
+
+const HOST_CLASS_LABELS = {
+  'in-scope': 'in scope',
+  'same-domain': 'same domain',
+  'third-party': 'third party',
+  internal: 'internal'
+};
+
+interface JwtInfo {
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  algorithm?: string;
+  issuer?: string;
+  audience?: string[];
+  subject?: string;
+  issuedAt?: number;
+  expiresAt?: number;
+  emails: string[];
+  roles: string[];
+  tenantIds: string[];
+  internalHosts: string[];
+  flags: string[];
+}
+
+interface GraphQLInfo {
+  type: 'query' | 'mutation' | 'subscription' | 'fragment';
+  name?: string;
+  typeCondition?: string;
+  variables: { name: string; type: string }[];
+  selectionSet?: { fields: { name: string }[] };
+}
+
+interface BucketInfo {
+  provider: string;
+  kind: 'storage' | 'cdn';
+  bucket: string;
+  region?: string;
+  path?: string;
+}
+
+interface ClientRouteInfo {
+  framework: string;
+  component?: string;
+  chunk?: string;
+  guards: string[];
+  roles: string[];
+}
+
+interface ConfigEntryInfo {
+  key: string;
+  value: string;
+  flags: ('secret' | 'internal-url' | 'insecure')[];
 }
 
+interface LibraryInfo {
+  name: string;
+  version: string;
+  detection: 'banner' | 'constant' | 'signature';
+}
+
+interface SinkInfo {
+  sink: string;
+  kind: 'html' | 'script' | 'navigation';
+  source?: string;
+}
+
+interface MessageHandlerInfo {
+  registration: string;
+  originCheck: 'none' | 'weak' | 'strict';
+  originDetail?: string;
+  actions: ('eval' | 'navigation' | 'dom-write' | 'storage')[];
+  snippet: string;
+}
+
+interface AdvisoryInfo {
+  severity: string;
+  identifiers: string[];
+  summary: string;
+}
+
+interface BucketGroup extends BucketInfo {
+  paths: string[];
+  references: number;
+}
+
+// Backend results use scanner field names; map them onto the table's shape
+const toScanResult = (raw: BackendScanResult): ScanResult => ({
+  id: raw.id,
+  type: raw.matchType,
+  value: raw.matchValue,
+  source: raw.fileUrl,
+  pageUrl: raw.sourceUrl,
+  severity: raw.severity,
+  timestamp: raw.timestamp,
+  context: raw.context,
+  entropy: raw.entropy,
+  charset: raw.charset,
+  line: raw.line,
+  column: raw.column,
+  contextMatchStart: raw.contextMatchStart,
+  contextMatchEnd: raw.contextMatchEnd,
+  bundleUrl: raw.bundleUrl,
+  httpMethod: raw.httpMethod,
+  requestHeaders: raw.requestHeaders,
+  bodyKeys: raw.bodyKeys,
+  protocol: raw.protocol,
+  decodingChain: raw.decodingChain,
+  provider: raw.provider,
+  formatValid: raw.formatValid,
+  jwt: raw.jwt,
+  classification: raw.classification,
+  samples: raw.samples,
+  parameterLocations: raw.parameterLocations,
+  parameterEndpoints: raw.parameterEndpoints,
+  graphql: raw.graphql,
+  bucket: raw.bucket,
+  hostClass: raw.hostClass,
+  clientRoute: raw.clientRoute,
+  config: raw.config,
+  library: raw.library,
+  advisories: raw.advisories,
+  sink: raw.sink,
+  messageHandler: raw.messageHandler,
+  exclusion: raw.exclusion
+});
+
+// Client route opened on the page that loaded the script, or null when that is unknown
+const clientRouteUrl = (result: ScanResult): string | null => {
+  if (!result.pageUrl) return null;
+  try {
+    return new URL(result.value, result.pageUrl).href;
+  } catch {
+    return null;
+  }
+};
+
+// Render the code snippet with the match itself highlighted
+const renderContext = (result: ScanResult): React.ReactNode => {
+  const { context, contextMatchStart, contextMatchEnd } = result;
+  if (!context) return null;
+  if (contextMatchStart === undefined || contextMatchEnd === undefined) return context;
+
+  return (
+    <>
+      {context.substring(0, contextMatchStart)}
+      <mark>{context.substring(contextMatchStart, contextMatchEnd)}</mark>
+      {context.substring(contextMatchEnd)}
+    </>
+  );
+};
+
+interface CustomPattern {
+  id: string;
+  name: string;
+  regex: string;
+  flags: string;
+  type: 'endpoint' | 'secret' | 'email' | 'ip';
+  severity: 'critical' | 'high' | 'medium' | 'low' | 'info';
+  description: string;
+  enabled: boolean;
+  keywords?: string[];
+}
+
+interface RuleImportSummary {
+  format: string;
+  imported: number;
+  failures: { rule: string; reason: string }[];
+  warnings: string[];
+}
+
+const EMPTY_PATTERN: CustomPattern = {
+  id: '',
+  name: '',
+  regex: '',
+  flags: '',
+  type: 'secret',
+  severity: 'medium',
+  description: '',
+  enabled: true
+};
+
+// Create, edit, test, enable/disable and delete user-defined patterns
+const PatternEditor: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [patterns, setPatterns] = useState<CustomPattern[]>([]);
+  const [draft, setDraft] = useState<CustomPattern>(EMPTY_PATTERN);
+  const [sample, setSample] = useState('');
+  const [testMatches, setTestMatches] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [importSummary, setImportSummary] = useState<RuleImportSummary | null>(null);
+
+  useEffect(() => {
+    loadPatterns();
+  }, []);
+
+  const loadPatterns = async () => {
+    try {
+      const data = await caido.commands.run('js-hunter.list-patterns');
+      setPatterns(data?.custom || []);
+    } catch (error) {
+      caido.console.error('Failed to load patterns:', error);
+    }
+  };
+
+  const updateDraft = (changes: Partial<CustomPattern>) => {
+    setDraft({ ...draft, ...changes });
+    setTestMatches(null);
+    setError(null);
+  };
+
+  const savePattern = async () => {
+    const response = await caido.commands.run('js-hunter.save-pattern', draft);
+    if (!response?.success) {
+      setError(response?.error || 'Failed to save pattern');
+      return;
+    }
+    setDraft(EMPTY_PATTERN);
+    setTestMatches(null);
+    setError(null);
+    await loadPatterns();
+  };
+
+  const testPattern = async () => {
+    const response = await caido.commands.run('js-hunter.test-pattern', draft, sample);
+    if (!response?.success) {
+      setError(response?.error || 'Failed to test pattern');
+      setTestMatches(null);
+      return;
+    }
+    setError(null);
+    setTestMatches(response.matches);
+  };
+
+  const importRuleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const response = await caido.commands.run('js-hunter.import-rules', await file.text());
+    if (!response?.success) {
+      setError(response?.error || 'Failed to import rules');
+      setImportSummary(null);
+      return;
+    }
+    setError(null);
+    setImportSummary(response);
+    await loadPatterns();
+  };
+
+  const togglePattern = async (pattern: CustomPattern) => {
+    await caido.commands.run('js-hunter.toggle-pattern', pattern.id, !pattern.enabled);
+    await loadPatterns();
+  };
+
+  const deletePattern = async (pattern: CustomPattern) => {
+    if (confirm(`Delete pattern "${pattern.name}"?`)) {
+      await caido.commands.run('js-hunter.delete-pattern', pattern.id);
+      if (draft.id === pattern.id) setDraft(EMPTY_PATTERN);
+      await loadPatterns();
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content pattern-editor" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Custom Patterns</h3>
+          <button onClick={onClose} className="modal-close">
+            ✕
+          </button>
+        </div>
+        <div className="modal-body">
+          {patterns.length === 0 ? (
+            <p className="pattern-empty">No custom patterns yet.</p>
+          ) : (
+            <table className="results-table pattern-list">
+              <tbody>
+                {patterns.map((pattern) => (
+                  <tr key={pattern.id}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={pattern.enabled}
+                        onChange={() => togglePattern(pattern)}
+                        title={pattern.enabled ? 'Disable' : 'Enable'}
+                      />
+                    </td>
+                    <td>
+                      <strong>{pattern.name}</strong>
+                      <div><code>/{pattern.regex}/{pattern.flags}</code></div>
+                      {pattern.keywords && pattern.keywords.length > 0 && (
+                        <small>Keywords: {pattern.keywords.join(', ')}</small>
+                      )}
+                    </td>
+                    <td>{pattern.type}</td>
+                    <td>{pattern.severity}</td>
+                    <td className="pattern-actions">
+                      <button onClick={() => updateDraft(pattern)} className="btn btn-secondary">
+                        ✏️ Edit
+                      </button>
+                      <button onClick={() => deletePattern(pattern)} className="btn btn-danger">
+                        🗑️
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="pattern-import">
+            <label className="btn btn-secondary">
+              📥 Import gitleaks / trufflehog rules
+              <input
+                type="file"
+                accept=".toml,.yaml,.yml"
+                onChange={(e) => {
+                  importRuleFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {importSummary && (
+              <div className="import-summary">
+                <small>
+                  Imported {importSummary.imported} {importSummary.format} rule(s)
+                  {importSummary.failures.length > 0 && `, ${importSummary.failures.length} could not be translated`}
+                </small>
+                {importSummary.failures.map((failure) => (
+                  <div key={failure.rule} className="pattern-error">
+                    <strong>{failure.rule}</strong>: {failure.reason}
+                  </div>
+                ))}
+                {importSummary.warnings.map((warning) => (
+                  <div key={warning}><small>⚠️ {warning}</small></div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="pattern-form">
+            <h4>{draft.id ? 'Edit Pattern' : 'New Pattern'}</h4>
+            <input
+              type="text"
+              placeholder="Name"
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+              className="search-input"
+            />
+            <div className="pattern-regex">
+              <input
+                type="text"
+                placeholder="Regular expression"
+                value={draft.regex}
+                onChange={(e) => updateDraft({ regex: e.target.value })}
+                className="search-input"
+              />
+              <input
+                type="text"
+                placeholder="Flags"
+                value={draft.flags}
+                onChange={(e) => updateDraft({ flags: e.target.value })}
+                className="search-input pattern-flags"
+              />
+            </div>
+            <div className="pattern-regex">
+              <select
+                value={draft.type}
+                onChange={(e) => updateDraft({ type: e.target.value as CustomPattern['type'] })}
+                className="filter-select"
+              >
+                <option value="endpoint">Endpoint</option>
+                <option value="secret">Secret</option>
+                <option value="email">Email</option>
+                <option value="ip">IP</option>
+              </select>
+              <select
+                value={draft.severity}
+                onChange={(e) => updateDraft({ severity: e.target.value as CustomPattern['severity'] })}
+                className="filter-select"
+              >
+                <option value="critical">Critical</option>
+                <option value="high">High</option>
+                <option value="medium">Medium</option>
+                <option value="low">Low</option>
+                <option value="info">Info</option>
+              </select>
+            </div>
+            <input
+              type="text"
+              placeholder="Description"
+              value={draft.description}
+              onChange={(e) => updateDraft({ description: e.target.value })}
+              className="search-input"
+            />
+            <textarea
+              placeholder="Sample text to test against"
+              value={sample}
+              onChange={(e) => {
+                setSample(e.target.value);
+                setTestMatches(null);
+              }}
+              className="pattern-sample"
+              rows={4}
+            />
+
+            {error && <div className="pattern-error">{error}</div>}
+            {testMatches && (
+              <div className="pattern-matches">
+                {testMatches.length === 0 ? (
+                  <small>No matches</small>
+                ) : (
+                  testMatches.map((match, index) => <code key={index}>{match}</code>)
+                )}
+              </div>
+            )}
+
+            <div className="export-options">
+              <button onClick={testPattern} className="btn btn-secondary">
+                🧪 Test
+              </button>
+              <button onClick={savePattern} className="btn btn-primary">
+                💾 Save
+              </button>
+              {draft.id && (
+                <button onClick={() => updateDraft(EMPTY_PATTERN)} className="btn btn-secondary">
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const formatClaimTime = (seconds?: number): string =>
+  seconds === undefined ? '—' : new Date(seconds * 1000).toLocaleString();
+
+// Decoded header and payload of a JWT finding with its analysis
+const JwtDetails: React.FC<{ jwt: JwtInfo; onClose: () => void }> = ({ jwt, onClose }) => {
+  const rows: [string, string][] = [
+    ['Algorithm', jwt.algorithm || 'none'],
+    ['Issuer', jwt.issuer || '—'],
+    ['Audience', jwt.audience ? jwt.audience.join(', ') : '—'],
+    ['Subject', jwt.subject || '—'],
+    ['Issued', formatClaimTime(jwt.issuedAt)],
+    ['Expires', formatClaimTime(jwt.expiresAt)],
+    ['Emails', jwt.emails.join(', ') || '—'],
+    ['Roles', jwt.roles.join(', ') || '—'],
+    ['Tenants', jwt.tenantIds.join(', ') || '—'],
+    ['Internal hosts', jwt.internalHosts.join(', ') || '—']
+  ];
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content pattern-editor" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>JWT Details</h3>
+          <button onClick={onClose} className="modal-close">
+            ✕
+          </button>
+        </div>
+        <div className="modal-body">
+          <div className="jwt-flags">
+            {jwt.flags.length === 0 && <span className="jwt-flag jwt-flag-ok">no issues</span>}
+            {jwt.flags.map(flag => (
+              <span key={flag} className="jwt-flag">{flag}</span>
+            ))}
+          </div>
+          <table className="results-table jwt-claims">
+            <tbody>
+              {rows.map(([label, value]) => (
+                <tr key={label}>
+                  <th>{label}</th>
+                  <td>{value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <h4>Header</h4>
+          <pre className="jwt-json">{JSON.stringify(jwt.header, null, 2)}</pre>
+          <h4>Payload</h4>
+          <pre className="jwt-json">{JSON.stringify(jwt.payload, null, 2)}</pre>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface AdvisoryDatasetInfo {
+  updated: string;
+  advisories: number;
+  bundled?: boolean;
+  skipped?: number;
+}
+
+interface PatternSettingsEntry {
+  name: string;
+  type: string;
+  builtIn: boolean;
+  defaultSeverity: string;
+  defaultMinLength: number;
+  settings: {
+    enabled?: boolean;
+    severity?: string;
+    minLength?: number;
+  };
+}
+
+// Toggle patterns and override their severity and minimum length
+const PatternSettingsPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [entries, setEntries] = useState<PatternSettingsEntry[]>([]);
+  const [advisories, setAdvisories] = useState<AdvisoryDatasetInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+    loadAdvisories();
+  }, []);
+
+  const loadAdvisories = async () => {
+    try {
+      setAdvisories(await caido.commands.run('js-hunter.get-advisories'));
+    } catch (error) {
+      caido.console.error('Failed to load advisory dataset:', error);
+    }
+  };
+
+  // Offline dataset: this plugin's format or a retire.js jsrepository.json
+  const loadAdvisoryFile = async (file: File | undefined) => {
+    if (!file) return;
+    const response = await caido.commands.run('js-hunter.load-advisories', await file.text());
+    if (!response?.success) {
+      setError(response?.error || 'Failed to load advisories');
+      return;
+    }
+    setError(null);
+    setAdvisories({ ...response, bundled: false });
+  };
+
+  const resetAdvisories = async () => {
+    const response = await caido.commands.run('js-hunter.reset-advisories');
+    setError(null);
+    setAdvisories({ ...response, bundled: true });
+  };
+
+  const loadSettings = async () => {
+    try {
+      setEntries((await caido.commands.run('js-hunter.get-pattern-settings')) || []);
+    } catch (error) {
+      caido.console.error('Failed to load pattern settings:', error);
+    }
+  };
+
+  const updateSettings = async (entry: PatternSettingsEntry, changes: PatternSettingsEntry['settings']) => {
+    const response = await caido.commands.run('js-hunter.update-pattern-settings', entry.name, {
+      ...entry.settings,
+      ...changes
+    });
+    if (!response?.success) {
+      setError(response?.error || 'Failed to update settings');
+      return;
+    }
+    setError(null);
+    await loadSettings();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content pattern-editor" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Pattern Settings</h3>
+          <button onClick={onClose} className="modal-close">
+            ✕
+          </button>
+        </div>
+        <div className="modal-body">
+          {error && <div className="pattern-error">{error}</div>}
+          <div className="pattern-import">
+            <label className="btn btn-secondary">
+              📚 Load advisory dataset
+              <input
+                type="file"
+                accept=".json"
+                onChange={(e) => {
+                  loadAdvisoryFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {advisories && !advisories.bundled && (
+              <button onClick={resetAdvisories} className="btn btn-secondary">
+                Use bundled dataset
+              </button>
+            )}
+            {advisories && (
+              <div className="import-summary">
+                <small>
+                  {advisories.bundled ? 'Bundled' : 'Loaded'} dataset: {advisories.advisories} advisories
+                  {advisories.updated && `, updated ${advisories.updated}`}
+                  {advisories.skipped ? `, ${advisories.skipped} skipped` : ''}
+                </small>
+              </div>
+            )}
+          </div>
+          <table className="results-table pattern-list">
+            <thead>
+              <tr>
+                <th>On</th>
+                <th>Pattern</th>
+                <th>Severity</th>
+                <th>Min Length</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.name} className={entry.settings.enabled === false ? 'pattern-disabled' : ''}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={entry.settings.enabled !== false}
+                      onChange={(e) => updateSettings(entry, { enabled: e.target.checked })}
+                    />
+                  </td>
+                  <td>
+                    <strong>{entry.name}</strong>
+                    <div>
+                      <small>{entry.type}{entry.builtIn ? '' : ' · custom'}</small>
+                    </div>
+                  </td>
+                  <td>
+                    <select
+                      value={entry.settings.severity || ''}
+                      onChange={(e) => updateSettings(entry, { severity: e.target.value || undefined })}
+                      className="filter-select"
+                    >
+                      <option value="">Default ({entry.defaultSeverity})</option>
+                      <option value="critical">Critical</option>
+                      <option value="high">High</option>
+                      <option value="medium">Medium</option>
+                      <option value="low">Low</option>
+                      <option value="info">Info</option>
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      min={0}
+                      placeholder={String(entry.defaultMinLength)}
+                      defaultValue={entry.settings.minLength}
+                      onBlur={(e) => updateSettings(entry, {
+                        minLength: e.target.value === '' ? undefined : Number(e.target.value)
+                      })}
+                      className="search-input pattern-min-length"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 interface Statistics {
   total: number;
   endpoints: number;
@@ -54,13 +759,19 @@ interface Statistics {
 
 const JSHunterUI: React.FC = () => {
   const [results, setResults] = useState<ScanResult[]>([]);
+  const [filteredOut, setFilteredOut] = useState<ScanResult[]>([]);
+  const [showFilteredOut, setShowFilteredOut] = useState(false);
   const [loading, setLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [typeFilter, setTypeFilter] = useState<string>('all');
   const [severityFilter, setSeverityFilter] = useState<string>('all');
+  const [providerFilter, setProviderFilter] = useState<string>('all');
   const [sortBy, setSortBy] = useState<keyof ScanResult>('timestamp');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [showExportModal, setShowExportModal] = useState(false);
+  const [showPatternEditor, setShowPatternEditor] = useState(false);
+  const [showPatternSettings, setShowPatternSettings] = useState(false);
+  const [jwtDetails, setJwtDetails] = useState<JwtInfo | null>(null);
 
   // Load results on component mount
   useEffect(() => {
@@ -73,7 +784,9 @@ const JSHunterUI: React.FC = () => {
   const loadResults = async () => {
     try {
       const data = await caido.commands.run('js-hunter.get-results');
-      setResults(data || []);
+      setResults((data?.results || []).map(toScanResult));
+      const filtered = await caido.commands.run('js-hunter.get-filtered-results');
+      setFilteredOut((filtered?.results || []).map(toScanResult));
     } catch (error) {
       caido.console.error('Failed to load results:', error);
     }
@@ -85,6 +798,7 @@ const JSHunterUI: React.FC = () => {
         setLoading(true);
         await caido.commands.run('js-hunter.clear-results');
         setResults([]);
+        setFilteredOut([]);
         caido.console.log('Results cleared successfully');
       } catch (error) {
         caido.console.error('Failed to clear results:', error);
@@ -94,19 +808,26 @@ const JSHunterUI: React.FC = () => {
     }
   };
 
-  const exportResults = async (format: 'json' | 'csv') => {
+  const exportResults = async (format: 'json' | 'csv' | 'wordlist' | 'graphql' | 'subdomains') => {
     try {
       setLoading(true);
       const exportData = await caido.commands.run('js-hunter.export-results', format);
       
       // Create download link
       const blob = new Blob([exportData], {
-        type: format === 'json' ? 'application/json' : 'text/csv'
+        type: format === 'json' ? 'application/json' : format === 'csv' ? 'text/csv' : 'text/plain'
       });
+      const date = new Date().toISOString().split('T')[0];
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `js-hunter-results-${new Date().toISOString().split('T')[0]}.${format}`;
+      a.download = format === 'wordlist'
+        ? `js-hunter-parameters-${date}.txt`
+        : format === 'graphql'
+          ? `js-hunter-schema-${date}.graphql`
+          : format === 'subdomains'
+            ? `js-hunter-subdomains-${date}.txt`
+            : `js-hunter-results-${date}.${format}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -132,19 +853,27 @@ const JSHunterUI: React.FC = () => {
 
   // Filter and sort results
   const filteredResults = useMemo(() => {
-    let filtered = results.filter((result: ScanResult) => {
+    // Either the reported hits or the ones exclusion rules filtered out
+    let filtered = (showFilteredOut ? filteredOut : results).filter((result: ScanResult) => {
       const matchesSearch = result.value.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           result.source.toLowerCase().includes(searchTerm.toLowerCase());
+                           result.source.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                           (result.samples || []).some(sample => sample.toLowerCase().includes(searchTerm.toLowerCase()));
       const matchesType = typeFilter === 'all' || result.type === typeFilter;
       const matchesSeverity = severityFilter === 'all' || result.severity === severityFilter;
+      const matchesProvider = providerFilter === 'all' || result.provider === providerFilter;
       
-      return matchesSearch && matchesType && matchesSeverity;
+      return matchesSearch && matchesType && matchesSeverity && matchesProvider;
     });
 
     // Sort results
     filtered.sort((a: ScanResult, b: ScanResult) => {
       const aVal = a[sortBy];
       const bVal = b[sortBy];
+
+      // Rows without the sorted field (e.g. entropy on non-secrets) go last
+      if (aVal === undefined || bVal === undefined) {
+        return aVal === bVal ? 0 : aVal === undefined ? 1 : -1;
+      }
       
       if (typeof aVal === 'string' && typeof bVal === 'string') {
         return sortOrder === 'asc' ? aVal.localeCompare(bVal) : bVal.localeCompare(aVal);
@@ -158,7 +887,30 @@ const JSHunterUI: React.FC = () => {
     });
 
     return filtered;
-  }, [results, searchTerm, typeFilter, severityFilter, sortBy, sortOrder]);
+  }, [results, filteredOut, showFilteredOut, searchTerm, typeFilter, severityFilter, providerFilter, sortBy, sortOrder]);
+
+  // Providers seen in the results, for grouping secrets by service
+  const providers = useMemo(() => {
+    const names = new Set<string>();
+    for (const result of [...results, ...filteredOut]) {
+      if (result.provider) names.add(result.provider);
+    }
+    return [...names].sort();
+  }, [results, filteredOut]);
+
+  // Bucket findings grouped per bucket, so permissions are checked once per bucket
+  const bucketGroups = useMemo(() => {
+    const groups = new Map<string, BucketGroup>();
+    for (const result of filteredResults) {
+      if (!result.bucket) continue;
+      const key = `${result.bucket.provider} ${result.bucket.bucket}`;
+      const group = groups.get(key) || { ...result.bucket, path: undefined, paths: [], references: 0 };
+      group.references++;
+      if (result.bucket.path && !group.paths.includes(result.bucket.path)) group.paths.push(result.bucket.path);
+      groups.set(key, group);
+    }
+    return [...groups.values()].sort((a, b) => a.bucket.localeCompare(b.bucket));
+  }, [filteredResults]);
 
   // Calculate statistics
   const statistics: Statistics = useMemo(() => {
@@ -198,6 +950,16 @@ const JSHunterUI: React.FC = () => {
       case 'secret': return '#dc2626';
       case 'email': return '#7c3aed';
       case 'ip': return '#059669';
+      case 'sourcemap': return '#0891b2';
+      case 'parameter': return '#9333ea';
+      case 'graphql': return '#e10098';
+      case 'bucket': return '#0d9488';
+      case 'host': return '#ea580c';
+      case 'route': return '#475569';
+      case 'config': return '#64748b';
+      case 'library': return '#b91c1c';
+      case 'sink': return '#d97706';
+      case 'postmessage': return '#7c3aed';
       default: return '#6b7280';
     }
   };
@@ -278,6 +1040,16 @@ const JSHunterUI: React.FC = () => {
             <option value="secret">Secret</option>
             <option value="email">Email</option>
             <option value="ip">IP</option>
+            <option value="sourcemap">Source Map</option>
+            <option value="parameter">Parameter</option>
+            <option value="graphql">GraphQL</option>
+            <option value="bucket">Bucket</option>
+            <option value="host">Host</option>
+            <option value="route">Client Route</option>
+            <option value="config">Config</option>
+            <option value="library">Library</option>
+            <option value="sink">DOM Sink</option>
+            <option value="postmessage">postMessage Handler</option>
           </select>
           
           <select
@@ -290,10 +1062,30 @@ const JSHunterUI: React.FC = () => {
             <option value="high">High</option>
             <option value="medium">Medium</option>
             <option value="low">Low</option>
+            <option value="info">Info</option>
+          </select>
+
+          <select
+            value={providerFilter}
+            onChange={(e) => setProviderFilter(e.target.value)}
+            className="filter-select"
+          >
+            <option value="all">All Providers</option>
+            {providers.map(provider => (
+              <option key={provider} value={provider}>{provider}</option>
+            ))}
           </select>
         </div>
         
         <div className="controls-right">
+          <button
+            onClick={() => setShowFilteredOut(!showFilteredOut)}
+            className={`btn ${showFilteredOut ? 'btn-primary' : 'btn-secondary'}`}
+            title="Hits suppressed by exclusion rules"
+          >
+            🚫 Filtered Out ({filteredOut.length})
+          </button>
+          
           <button
             onClick={toggleScanner}
             className="btn btn-secondary"
@@ -302,6 +1094,22 @@ const JSHunterUI: React.FC = () => {
             🔄 Toggle Scanner
           </button>
           
+          <button
+            onClick={() => setShowPatternEditor(true)}
+            className="btn btn-secondary"
+            disabled={loading}
+          >
+            🧩 Patterns
+          </button>
+          
+          <button
+            onClick={() => setShowPatternSettings(true)}
+            className="btn btn-secondary"
+            disabled={loading}
+          >
+            ⚙️ Settings
+          </button>
+          
           <button
             onClick={() => setShowExportModal(true)}
             className="btn btn-primary"
@@ -328,11 +1136,39 @@ const JSHunterUI: React.FC = () => {
         </div>
       </div>
 
+      {/* Buckets */}
+      {typeFilter === 'bucket' && bucketGroups.length > 0 && (
+        <div className="bucket-groups">
+          {bucketGroups.map(group => (
+            <div key={`${group.provider} ${group.bucket}`} className="bucket-group">
+              <div className="bucket-group-header">
+                <strong>{group.bucket}</strong>
+                <small>{group.provider}{group.region && ` · ${group.region}`}</small>
+                <small>{group.references} references</small>
+                <button onClick={() => setSearchTerm(group.bucket)} className="btn btn-secondary">
+                  Show
+                </button>
+              </div>
+              {group.paths.length > 0 && (
+                <details>
+                  <summary><small>{group.paths.length} paths</small></summary>
+                  {group.paths.map(path => (
+                    <div key={path}><small><code>{path}</code></small></div>
+                  ))}
+                </details>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Results Table */}
       <div className="js-hunter-results">
         {filteredResults.length === 0 ? (
           <div className="empty-state">
-            {results.length === 0 ? (
+            {showFilteredOut && filteredOut.length === 0 ? (
+              <p>No hits have been filtered out.</p>
+            ) : results.length === 0 && !showFilteredOut ? (
               <p>No scan results found yet. Make sure the scanner is active and requests are being made within scope.</p>
             ) : (
               <p>No results match the current filters.</p>
@@ -351,6 +1187,9 @@ const JSHunterUI: React.FC = () => {
                 <th onClick={() => handleSort('value')} className="sortable">
                   Value {sortBy === 'value' && (sortOrder === 'asc' ? '↑' : '↓')}
                 </th>
+                <th onClick={() => handleSort('entropy')} className="sortable">
+                  Entropy {sortBy === 'entropy' && (sortOrder === 'asc' ? '↑' : '↓')}
+                </th>
                 <th onClick={() => handleSort('source')} className="sortable">
                   Source {sortBy === 'source' && (sortOrder === 'asc' ? '↑' : '↓')}
                 </th>
@@ -380,12 +1219,183 @@ const JSHunterUI: React.FC = () => {
                   </td>
                   <td className="value-cell">
                     <code>{result.value}</code>
+                    {result.protocol && result.protocol !== 'http' && result.protocol !== 'https' && (
+                      <span
+                        className={`protocol-badge${WEBSOCKET_PROTOCOLS.includes(result.protocol) ? ' protocol-websocket' : ''}`}
+                      >
+                        {result.protocol}
+                      </span>
+                    )}
+                    {(result.provider || result.classification) && (
+                      <div className="provider-details">
+                        {result.provider && <small>{result.provider}</small>}
+                        {result.classification && (
+                          <small
+                            className={`exposure-label exposure-${result.classification.exposure}`}
+                            title={result.classification.reason}
+                          >
+                            {EXPOSURE_LABELS[result.classification.exposure]}
+                          </small>
+                        )}
+                        {result.formatValid && (
+                          <small className="format-valid" title="Passed the offline format check">✔ format-valid</small>
+                        )}
+                      </div>
+                    )}
+                    {result.httpMethod && (
+                      <div className="call-details">
+                        {result.requestHeaders && result.requestHeaders.length > 0 && (
+                          <small>Headers: {result.requestHeaders.join(', ')}</small>
+                        )}
+                        {result.bodyKeys && result.bodyKeys.length > 0 && (
+                          <small>Body: {result.bodyKeys.join(', ')}</small>
+                        )}
+                      </div>
+                    )}
+                    {result.parameterLocations && (
+                      <div className="call-details">
+                        <small>Sent in: {result.parameterLocations.join(', ')}</small>
+                        {result.parameterEndpoints && (
+                          <small>Endpoints: {result.parameterEndpoints.join(', ')}</small>
+                        )}
+                      </div>
+                    )}
+                    {result.graphql && (
+                      <div className="call-details">
+                        {result.graphql.typeCondition && (
+                          <small>On: {result.graphql.typeCondition}</small>
+                        )}
+                        {result.graphql.variables.length > 0 && (
+                          <small>Variables: {result.graphql.variables.map(variable => `$${variable.name}: ${variable.type}`).join(', ')}</small>
+                        )}
+                        {result.graphql.selectionSet && (
+                          <small>Fields: {result.graphql.selectionSet.fields.map(field => field.name).join(', ')}</small>
+                        )}
+                      </div>
+                    )}
+                    {result.hostClass && (
+                      <div className="provider-details">
+                        <small className={`host-class host-${result.hostClass}`}>
+                          {HOST_CLASS_LABELS[result.hostClass]}
+                        </small>
+                      </div>
+                    )}
+                    {result.clientRoute && (
+                      <div className="call-details">
+                        <small>{result.clientRoute.framework}</small>
+                        {result.clientRoute.component && <small>Component: {result.clientRoute.component}</small>}
+                        {result.clientRoute.chunk && <small>Chunk: {result.clientRoute.chunk}</small>}
+                        {result.clientRoute.guards.length > 0 && (
+                          <small className="route-guarded">Guards: {result.clientRoute.guards.join(', ')}</small>
+                        )}
+                        {result.clientRoute.roles.length > 0 && (
+                          <small className="route-guarded">Roles: {result.clientRoute.roles.join(', ')}</small>
+                        )}
+                        {clientRouteUrl(result) && (
+                          <small>
+                            <a href={clientRouteUrl(result) ?? undefined} target="_blank" rel="noreferrer">Open page</a>
+                          </small>
+                        )}
+                      </div>
+                    )}
+                    {result.config && (
+                      <details className="config-entries">
+                        <summary>
+                          <small>
+                            {result.config.length} keys
+                            {result.config.some(entry => entry.flags.length > 0) &&
+                              `, ${result.config.filter(entry => entry.flags.length > 0).length} flagged`}
+                          </small>
+                        </summary>
+                        <table className="results-table">
+                          <tbody>
+                            {result.config.map(entry => (
+                              <tr key={entry.key} className={entry.flags.length > 0 ? 'config-flagged' : undefined}>
+                                <td><code>{entry.key}</code></td>
+                                <td><code>{entry.value}</code></td>
+                                <td>{entry.flags.join(', ')}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </details>
+                    )}
+                    {result.sink && (
+                      <div className="call-details">
+                        <small>Sink: {result.sink.sink}</small>
+                        {result.sink.source && (
+                          <small className="sink-source">Source: {result.sink.source}</small>
+                        )}
+                      </div>
+                    )}
+                    {result.messageHandler && (
+                      <details className="call-details">
+                        <summary>
+                          <small className={result.messageHandler.originCheck !== 'strict' ? 'sink-source' : undefined}>
+                            {result.messageHandler.registration}: {result.messageHandler.originCheck === 'none'
+                              ? 'no origin check'
+                              : `${result.messageHandler.originCheck} origin check`}
+                            {result.messageHandler.actions.length > 0 && ` → ${result.messageHandler.actions.join(', ')}`}
+                          </small>
+                        </summary>
+                        {result.messageHandler.originDetail && <small>Check: <code>{result.messageHandler.originDetail}</code></small>}
+                        <pre className="message-snippet">{result.messageHandler.snippet}</pre>
+                      </details>
+                    )}
+                    {result.library && (
+                      <div className="call-details">
+                        <small>Detected by {result.library.detection}</small>
+                        {(result.advisories || []).map(advisory => (
+                          <small key={`${advisory.identifiers.join(' ')} ${advisory.summary}`} className="library-advisory">
+                            {advisory.identifiers.join(', ')} ({advisory.severity}): {advisory.summary}
+                          </small>
+                        ))}
+                      </div>
+                    )}
+                    {result.bucket && (
+                      <div className="call-details">
+                        <small>Bucket: {result.bucket.bucket}</small>
+                        {result.bucket.region && <small>Region: {result.bucket.region}</small>}
+                        {result.bucket.path && <small>Path: {result.bucket.path}</small>}
+                      </div>
+                    )}
+                    {result.samples && result.samples.length > 0 && (
+                      <details className="route-samples">
+                        <summary><small>{result.samples.length} samples</small></summary>
+                        {result.samples.map(sample => (
+                          <div key={sample}><small><code>{sample}</code></small></div>
+                        ))}
+                      </details>
+                    )}
+                    {result.jwt && (
+                      <div className="jwt-flags">
+                        {result.jwt.flags.map(flag => (
+                          <span key={flag} className="jwt-flag">{flag}</span>
+                        ))}
+                        <button onClick={() => setJwtDetails(result.jwt!)} className="btn btn-secondary">
+                          🔓 Decode
+                        </button>
+                      </div>
+                    )}
+                    {result.exclusion && (
+                      <div className="exclusion-reason">
+                        <small>Filtered out: {result.exclusion.reason}</small>
+                      </div>
+                    )}
+                    {result.decodingChain && result.decodingChain.length > 0 && (
+                      <div className="decoding-chain">
+                        <small>Decoded: {result.decodingChain.join(' → ')}</small>
+                      </div>
+                    )}
                     {result.context && (
                       <div className="context">
-                        <small>{result.context}</small>
+                        <small>{renderContext(result)}</small>
                       </div>
                     )}
                   </td>
+                  <td className="entropy-cell" title={result.charset}>
+                    {result.entropy !== undefined ? result.entropy.toFixed(2) : '—'}
+                  </td>
                   <td className="source-cell">
                     <a
                       href={result.source}
@@ -395,6 +1405,14 @@ const JSHunterUI: React.FC = () => {
                     >
                       {result.source}
                     </a>
+                    {result.line !== undefined && (
+                      <span className="location">:{result.line}:{result.column}</span>
+                    )}
+                    {result.bundleUrl && (
+                      <div className="bundle-origin" title={result.bundleUrl}>
+                        <small>via source map of {result.bundleUrl}</small>
+                      </div>
+                    )}
                   </td>
                   <td className="timestamp-cell">
                     {formatTimestamp(result.timestamp)}
@@ -436,12 +1454,42 @@ const JSHunterUI: React.FC = () => {
                 >
                   📊 CSV Format
                 </button>
+                <button
+                  onClick={() => exportResults('wordlist')}
+                  className="btn btn-primary"
+                  disabled={loading}
+                >
+                  📝 Parameter Wordlist
+                </button>
+                <button
+                  onClick={() => exportResults('graphql')}
+                  className="btn btn-primary"
+                  disabled={loading}
+                >
+                  🕸️ GraphQL Schema
+                </button>
+                <button
+                  onClick={() => exportResults('subdomains')}
+                  className="btn btn-primary"
+                  disabled={loading}
+                >
+                  🌍 Subdomain List
+                </button>
               </div>
             </div>
           </div>
         </div>
       )}
 
+      {/* Pattern Editor Modal */}
+      {showPatternEditor && <PatternEditor onClose={() => setShowPatternEditor(false)} />}
+
+      {/* Pattern Settings Modal */}
+      {showPatternSettings && <PatternSettingsPanel onClose={() => setShowPatternSettings(false)} />}
+
+      {/* JWT Details Modal */}
+      {jwtDetails && <JwtDetails jwt={jwtDetails} onClose={() => setJwtDetails(null)} />}
+
       {/* Loading Overlay */}
       {loading && (
         <div className="loading-overlay">
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { parseJavaScript } from './ast';
+import { buildPartialSchema, describeOperation, extractGraphQL, isGraphQLEndpoint, parseGraphQL, printOperation } from './graphql';
+
+const documentsIn = (content: string) => extractGraphQL(content, parseJavaScript(content)).documents.map(document => document.operation);
+
+const TAGGED = [
+  'const GET_USER = gql`',
+  '  query GetUser($id: ID!, $withOrders: Boolean = false) {',
+  '    user(id: $id) {',
+  '      id',
+  '      email',
+  '      orders(first: 10) @include(if: $withOrders) { total }',
+  '    }',
+  '  }',
+  '  ${USER_FIELDS}',
+  '`;'
+].join('\n');
+
+const PLAIN = 'client.request("mutation UpdateEmail($userId: ID!, $email: String!) { updateUser(id: $userId, email: $email) { id email verified } }");';
+
+describe('extractGraphQL', () => {
+  it('parses gql tagged templates', () => {
+    const [operation] = documentsIn(TAGGED);
+
+    expect(describeOperation(operation)).toBe('query GetUser');
+    expect(operation.variables).toEqual([{ name: 'id', type: 'ID!' }, { name: 'withOrders', type: 'Boolean' }]);
+    expect(printOperation(operation)).toBe(
+      'query GetUser ($id: ID!, $withOrders: Boolean) { user(id: $id) { id email orders(first: …) { total } } }'
+    );
+  });
+
+  it('parses plain strings that start like a document', () => {
+    const content = [PLAIN, 'const label = "query results { none";', 'const help = "mutation is not allowed";'].join('\n');
+    const operations = documentsIn(content);
+
+    expect(operations.map(describeOperation)).toEqual(['mutation UpdateEmail']);
+    expect(operations[0].variables).toEqual([{ name: 'userId', type: 'ID!' }, { name: 'email', type: 'String!' }]);
+  });
+
+  it('reads operation names of compiled documents and client endpoints', () => {
+    const content = [
+      'var doc = {kind:"Document",definitions:[{kind:"OperationDefinition",operation:"query",name:{kind:"Name",value:"ListProjects"}}]};',
+      'new ApolloClient({ uri: "https://api.example.com/graphql" });'
+    ].join('\n');
+    const { documents, endpoints } = extractGraphQL(content, parseJavaScript(content));
+
+    expect(documents.map(document => printOperation(document.operation))).toEqual(['query ListProjects']);
+    expect(endpoints.map(endpoint => endpoint.url)).toEqual(['https://api.example.com/graphql']);
+  });
+});
+
+describe('parseGraphQL', () => {
+  it('rejects text that is not GraphQL', () => {
+    expect(parseGraphQL('query results { none')).toBeNull();
+    expect(parseGraphQL('SELECT * FROM users')).toBeNull();
+    expect(parseGraphQL('')).toBeNull();
+  });
+});
+
+describe('buildPartialSchema', () => {
+  it('merges the fields and arguments of every operation by type', () => {
+    const operations = [
+      ...documentsIn(TAGGED),
+      ...documentsIn(PLAIN),
+      ...parseGraphQL('query { user(id: "42") { name avatar(size: 64) } } fragment OrderFields on Order { id total }')!
+    ];
+
+    expect(buildPartialSchema(operations)).toBe([
+      '# Partial schema reconstructed from 4 GraphQL definitions',
+      '',
+      'scalar Unknown',
+      '',
+      'type Query {\n  user(id: ID!): User\n}',
+      '',
+      'type Mutation {\n  updateUser(id: ID!, email: String!): UpdateUser\n}',
+      '',
+      'type Order {\n  id: Unknown\n  total: Unknown\n}',
+      '',
+      'type Orders {\n  total: Unknown\n}',
+      '',
+      'type UpdateUser {\n  id: Unknown\n  email: Unknown\n  verified: Unknown\n}',
+      '',
+      'type User {\n  id: Unknown\n  email: Unknown\n  orders(first: Int): Orders\n  name: Unknown\n  avatar(size: Int): Unknown\n}',
+      ''
+    ].join('\n'));
+  });
+});
+
+describe('isGraphQLEndpoint', () => {
+  it('matches GraphQL paths with or without a method', () => {
+    expect(isGraphQLEndpoint('POST /api/graphql')).toBe(true);
+    expect(isGraphQLEndpoint('https://example.com/gql?op=x')).toBe(true);
+    expect(isGraphQLEndpoint('/graphql-docs')).toBe(false);
+  });
+});
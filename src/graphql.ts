@@ -0,0 +1,499 @@
+/**
+ * GraphQL document detection, parsing and partial schema reconstruction
+ */
+
+import { ancestor } from 'acorn-walk';
+import { Program, Property } from 'acorn';
+import { resolveStringExpression, propertyKeyName, calleeParts, IdentifierResolver } from './ast';
+
+export type GraphQLOperationType = 'query' | 'mutation' | 'subscription' | 'fragment';
+
+export interface GraphQLVariable {
+  name: string;
+  type: string;
+}
+
+export interface GraphQLArgument {
+  name: string;
+  // Variable passed as the value, without the `$`
+  variable?: string;
+  // Scalar type of a literal value, when it can be told from the literal
+  literalType?: string;
+}
+
+export interface GraphQLField {
+  name: string;
+  arguments: GraphQLArgument[];
+  selectionSet?: GraphQLSelectionSet;
+}
+
+export interface GraphQLSelectionSet {
+  fields: GraphQLField[];
+  // Names of `...Fragment` spreads
+  spreads: string[];
+  inlineFragments: { typeCondition?: string; selectionSet: GraphQLSelectionSet }[];
+}
+
+export interface GraphQLOperation {
+  type: GraphQLOperationType;
+  name?: string;
+  // Type a fragment applies to
+  typeCondition?: string;
+  variables: GraphQLVariable[];
+  // Absent for operations only known from compiled documents
+  selectionSet?: GraphQLSelectionSet;
+}
+
+export interface GraphQLDocumentHit {
+  operation: GraphQLOperation;
+  offset: number;
+  length: number;
+}
+
+export interface GraphQLEndpointHit {
+  url: string;
+  offset: number;
+  length: number;
+}
+
+// Longest string considered as a GraphQL document
+const MAX_DOCUMENT_LENGTH = 64 * 1024;
+
+// Nesting deeper than this is not a real selection set
+const MAX_SELECTION_DEPTH = 32;
+
+const DOCUMENT_START_REGEX = /^\s*(?:(?:query|mutation|subscription)\b[\s\w$(),:!=\[\]@"]*\{|fragment\s+\w+\s+on\s+\w+[^{]*\{)/;
+const GRAPHQL_PATH_REGEX = /\/(?:graphql|gql|graphiql|api\/graphql)(?:$|[\/?#])/i;
+const GRAPHQL_TAGS = ['gql', 'graphql'];
+
+// Documents compiled by graphql-tag or Apollo keep their operation names
+const COMPILED_OPERATION_REGEX = /kind\s*:\s*["']OperationDefinition["']\s*,\s*operation\s*:\s*["'](query|mutation|subscription)["']\s*,\s*name\s*:\s*\{\s*kind\s*:\s*["']Name["']\s*,\s*value\s*:\s*["']([_A-Za-z]\w*)["']/g;
+
+const ROOT_TYPES: { [type in GraphQLOperationType]?: string } = {
+  query: 'Query',
+  mutation: 'Mutation',
+  subscription: 'Subscription'
+};
+
+const UNKNOWN_TYPE = 'Unknown';
+
+/**
+ * Whether an endpoint URL looks like a GraphQL endpoint
+ */
+export function isGraphQLEndpoint(url: string): boolean {
+  return GRAPHQL_PATH_REGEX.test(url.replace(/^[A-Z]+ /, ''));
+}
+
+/**
+ * Find GraphQL documents in `gql` / `graphql` tagged templates and plain
+ * strings (including persisted-query maps), operations of compiled
+ * documents, and client `uri` settings pointing at a GraphQL endpoint
+ */
+export function extractGraphQL(
+  content: string,
+  program: Program | null,
+  resolve?: IdentifierResolver
+): { documents: GraphQLDocumentHit[]; endpoints: GraphQLEndpointHit[] } {
+  const documents: GraphQLDocumentHit[] = [];
+  const endpoints: GraphQLEndpointHit[] = [];
+
+  const addDocument = (text: string, offset: number, length: number, tagged: boolean) => {
+    if (text.length > MAX_DOCUMENT_LENGTH || (!tagged && !DOCUMENT_START_REGEX.test(text))) return;
+    const operations = parseGraphQL(text);
+    if (!operations) return;
+    for (const operation of operations) {
+      documents.push({ operation, offset, length });
+    }
+  };
+
+  if (program) {
+    ancestor(program, {
+      TaggedTemplateExpression(node) {
+        const { property } = calleeParts(node.tag);
+        if (!property || !GRAPHQL_TAGS.includes(property)) return;
+        // Interpolations are usually fragment documents spread into this one
+        const text = node.quasi.quasis.map(quasi => quasi.value.cooked ?? quasi.value.raw).join('\n');
+        addDocument(text, node.start, node.end - node.start, true);
+      },
+      Literal(node) {
+        if (typeof node.value === 'string') addDocument(node.value, node.start, node.end - node.start, false);
+      },
+      TemplateLiteral(node, _state, ancestors) {
+        // Tagged templates are handled above
+        if (ancestors[ancestors.length - 2]?.type === 'TaggedTemplateExpression') return;
+        if (node.expressions.length === 0) {
+          addDocument(node.quasis[0].value.cooked ?? node.quasis[0].value.raw, node.start, node.end - node.start, false);
+        }
+      },
+      Property(node) {
+        // new ApolloClient({ uri }), createHttpLink({ uri })
+        const key = propertyKeyName(node as Property);
+        if (key !== 'uri' && key !== 'graphqlEndpoint') return;
+        const url = resolveStringExpression(node.value, resolve);
+        if (url.hasLiteral && /^(?:https?:)?\/|^\{[^}]+\}\//i.test(url.value)) {
+          endpoints.push({ url: url.value, offset: node.start, length: node.end - node.start });
+        }
+      }
+    });
+  }
+
+  const named = new Set(documents.map(document => `${document.operation.type} ${document.operation.name}`));
+  for (const match of content.matchAll(COMPILED_OPERATION_REGEX)) {
+    const type = match[1] as GraphQLOperationType;
+    if (named.has(`${type} ${match[2]}`)) continue;
+    named.add(`${type} ${match[2]}`);
+    documents.push({
+      operation: { type, name: match[2], variables: [] },
+      offset: match.index ?? 0,
+      length: match[0].length
+    });
+  }
+
+  return { documents, endpoints };
+}
+
+/**
+ * Parse the executable definitions of a GraphQL document; null when the
+ * text is not GraphQL
+ */
+export function parseGraphQL(text: string): GraphQLOperation[] | null {
+  const tokens = tokenize(text);
+  if (!tokens || tokens.length === 0) return null;
+
+  const parser = new Parser(tokens);
+  try {
+    const operations: GraphQLOperation[] = [];
+    while (!parser.done()) {
+      operations.push(parser.definition());
+    }
+    return operations;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Label used as the finding value, e.g. `mutation UpdateUser`
+ */
+export function describeOperation(operation: GraphQLOperation): string {
+  if (operation.type === 'fragment') {
+    return `fragment ${operation.name} on ${operation.typeCondition}`;
+  }
+  return `${operation.type} ${operation.name || '(anonymous)'}`;
+}
+
+/**
+ * Compact one-line rendering of an operation's variables and selections
+ */
+export function printOperation(operation: GraphQLOperation): string {
+  const variables = operation.variables.length > 0
+    ? `(${operation.variables.map(variable => `$${variable.name}: ${variable.type}`).join(', ')}) `
+    : '';
+  return `${describeOperation(operation)} ${variables}${operation.selectionSet ? printSelectionSet(operation.selectionSet) : ''}`.trim();
+}
+
+function printSelectionSet(selectionSet: GraphQLSelectionSet): string {
+  const parts = [
+    ...selectionSet.fields.map(field => {
+      const args = field.arguments.length > 0
+        ? `(${field.arguments.map(arg => `${arg.name}: ${arg.variable ? `$${arg.variable}` : '…'}`).join(', ')})`
+        : '';
+      return `${field.name}${args}${field.selectionSet ? ` ${printSelectionSet(field.selectionSet)}` : ''}`;
+    }),
+    ...selectionSet.spreads.map(spread => `...${spread}`),
+    ...selectionSet.inlineFragments.map(inline =>
+      `... ${inline.typeCondition ? `on ${inline.typeCondition} ` : ''}${printSelectionSet(inline.selectionSet)}`
+    )
+  ];
+  return `{ ${parts.join(' ')} }`;
+}
+
+/**
+ * Rebuild as much of the schema as the operations reveal: root fields with
+ * their arguments, and the fields selected on each type. Types that cannot
+ * be told from the operations are named after the field that returns them;
+ * leaf types are `Unknown`.
+ */
+export function buildPartialSchema(operations: GraphQLOperation[]): string {
+  const types = new Map<string, Map<string, { args: Map<string, string>; type: string }>>();
+  const fragments = new Map<string, GraphQLOperation>();
+  for (const operation of operations) {
+    if (operation.type === 'fragment' && operation.name) fragments.set(operation.name, operation);
+  }
+
+  // Selections made only of `... on Type` fragments are unions or interfaces
+  const unions = new Map<string, Set<string>>();
+
+  const addSelectionSet = (typeName: string, selectionSet: GraphQLSelectionSet, variables: GraphQLVariable[], depth: number) => {
+    if (depth > MAX_SELECTION_DEPTH) return;
+
+    const conditions = selectionSet.inlineFragments.map(inline => inline.typeCondition).filter(Boolean) as string[];
+    if (selectionSet.fields.length === 0 && selectionSet.spreads.length === 0 && conditions.length > 1) {
+      const members = unions.get(typeName) || new Set<string>();
+      conditions.forEach(condition => members.add(condition));
+      unions.set(typeName, members);
+    } else if (!types.has(typeName)) {
+      types.set(typeName, new Map());
+    }
+    const fields = types.get(typeName) || new Map();
+
+    for (const field of selectionSet.fields) {
+      if (field.name.startsWith('__')) continue;
+
+      const childType = field.selectionSet ? selectionType(field, fragments) : UNKNOWN_TYPE;
+      const entry = fields.get(field.name) || { args: new Map<string, string>(), type: childType };
+      if (entry.type === UNKNOWN_TYPE) entry.type = childType;
+
+      for (const arg of field.arguments) {
+        const variable = variables.find(v => v.name === arg.variable);
+        const argType = variable ? variable.type : arg.literalType || UNKNOWN_TYPE;
+        if (!entry.args.has(arg.name) || entry.args.get(arg.name) === UNKNOWN_TYPE) {
+          entry.args.set(arg.name, argType);
+        }
+      }
+      fields.set(field.name, entry);
+      types.set(typeName, fields);
+
+      if (field.selectionSet) addSelectionSet(childType, field.selectionSet, variables, depth + 1);
+    }
+
+    for (const inline of selectionSet.inlineFragments) {
+      addSelectionSet(inline.typeCondition || typeName, inline.selectionSet, variables, depth + 1);
+    }
+  };
+
+  for (const operation of operations) {
+    const typeName = operation.type === 'fragment' ? operation.typeCondition : ROOT_TYPES[operation.type];
+    if (!typeName) continue;
+    if (operation.selectionSet) {
+      addSelectionSet(typeName, operation.selectionSet, operation.variables, 0);
+    } else if (!types.has(typeName)) {
+      types.set(typeName, new Map());
+    }
+  }
+
+  const rootOrder = Object.values(ROOT_TYPES);
+  const names = [...new Set([...types.keys(), ...unions.keys()])].sort((a, b) => {
+    const rankA = rootOrder.includes(a) ? rootOrder.indexOf(a) : rootOrder.length;
+    const rankB = rootOrder.includes(b) ? rootOrder.indexOf(b) : rootOrder.length;
+    return rankA - rankB || a.localeCompare(b);
+  });
+
+  const blocks = [`# Partial schema reconstructed from ${operations.length} GraphQL definitions`];
+  let usesUnknown = false;
+  for (const name of names) {
+    const fields = types.get(name);
+    if (!fields) {
+      blocks.push(`union ${name} = ${[...unions.get(name)!].join(' | ')}`);
+      continue;
+    }
+
+    const lines = [...fields.entries()].map(([fieldName, entry]) => {
+      const args = [...entry.args.entries()].map(([argName, argType]) => `${argName}: ${argType}`);
+      usesUnknown = usesUnknown || entry.type === UNKNOWN_TYPE || [...entry.args.values()].some(type => type.includes(UNKNOWN_TYPE));
+      return `  ${fieldName}${args.length > 0 ? `(${args.join(', ')})` : ''}: ${entry.type}`;
+    });
+    blocks.push(lines.length > 0 ? `type ${name} {\n${lines.join('\n')}\n}` : `type ${name}`);
+  }
+  if (usesUnknown) {
+    blocks.splice(1, 0, `scalar ${UNKNOWN_TYPE}`);
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
+
+// Type selected on by a field: a single fragment's type condition, else
+// the field name in PascalCase
+function selectionType(field: GraphQLField, fragments: Map<string, GraphQLOperation>): string {
+  const set = field.selectionSet!;
+  const conditions = new Set([
+    ...set.spreads.map(spread => fragments.get(spread)?.typeCondition).filter(Boolean),
+    ...(set.fields.length === 0 ? set.inlineFragments.map(inline => inline.typeCondition).filter(Boolean) : [])
+  ]);
+  if (conditions.size === 1 && set.inlineFragments.length <= 1) {
+    return [...conditions][0] as string;
+  }
+  return field.name.charAt(0).toUpperCase() + field.name.slice(1);
+}
+
+type Token = { kind: 'name' | 'punct' | 'string' | 'number'; value: string };
+
+function tokenize(text: string): Token[] | null {
+  const tokens: Token[] = [];
+  const tokenRegex = /\s+|,|#[^\n\r]*|("""[\s\S]*?"""|"(?:[^"\\\n]|\\.)*")|(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)|([_A-Za-z][_0-9A-Za-z]*)|(\.\.\.|[!$&()\[\]{}:=@|])/y;
+
+  let index = 0;
+  while (index < text.length) {
+    tokenRegex.lastIndex = index;
+    const match = tokenRegex.exec(text);
+    if (!match) return null;
+    index = tokenRegex.lastIndex;
+
+    if (match[1] !== undefined) tokens.push({ kind: 'string', value: match[1] });
+    else if (match[2] !== undefined) tokens.push({ kind: 'number', value: match[2] });
+    else if (match[3] !== undefined) tokens.push({ kind: 'name', value: match[3] });
+    else if (match[4] !== undefined) tokens.push({ kind: 'punct', value: match[4] });
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  done(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  definition(): GraphQLOperation {
+    if (this.peek('punct', '{')) {
+      return { type: 'query', variables: [], selectionSet: this.selectionSet(0) };
+    }
+
+    const keyword = this.expect('name').value;
+    if (keyword === 'fragment') {
+      const name = this.expect('name').value;
+      if (this.expect('name').value !== 'on') throw new Error('Expected "on"');
+      const typeCondition = this.expect('name').value;
+      this.directives();
+      return { type: 'fragment', name, typeCondition, variables: [], selectionSet: this.selectionSet(0) };
+    }
+
+    if (keyword !== 'query' && keyword !== 'mutation' && keyword !== 'subscription') {
+      throw new Error(`Unexpected "${keyword}"`);
+    }
+
+    const name = this.peek('name') ? this.expect('name').value : undefined;
+    const variables = this.peek('punct', '(') ? this.variableDefinitions() : [];
+    this.directives();
+    return { type: keyword, name, variables, selectionSet: this.selectionSet(0) };
+  }
+
+  private variableDefinitions(): GraphQLVariable[] {
+    const variables: GraphQLVariable[] = [];
+    this.expect('punct', '(');
+    while (!this.skip('punct', ')')) {
+      this.expect('punct', '$');
+      const name = this.expect('name').value;
+      this.expect('punct', ':');
+      const type = this.typeReference();
+      if (this.skip('punct', '=')) this.value();
+      this.directives();
+      variables.push({ name, type });
+    }
+    return variables;
+  }
+
+  private typeReference(): string {
+    let type: string;
+    if (this.skip('punct', '[')) {
+      type = `[${this.typeReference()}]`;
+      this.expect('punct', ']');
+    } else {
+      type = this.expect('name').value;
+    }
+    return this.skip('punct', '!') ? `${type}!` : type;
+  }
+
+  private selectionSet(depth: number): GraphQLSelectionSet {
+    if (depth > MAX_SELECTION_DEPTH) throw new Error('Selection set too deep');
+
+    const selectionSet: GraphQLSelectionSet = { fields: [], spreads: [], inlineFragments: [] };
+    this.expect('punct', '{');
+    while (!this.skip('punct', '}')) {
+      if (this.skip('punct', '...')) {
+        if (this.peek('name') && this.tokens[this.index].value !== 'on') {
+          selectionSet.spreads.push(this.expect('name').value);
+          this.directives();
+        } else {
+          const typeCondition = this.skip('name', 'on') ? this.expect('name').value : undefined;
+          this.directives();
+          selectionSet.inlineFragments.push({ typeCondition, selectionSet: this.selectionSet(depth + 1) });
+        }
+        continue;
+      }
+
+      // `alias: name` reports the underlying field
+      let name = this.expect('name').value;
+      if (this.skip('punct', ':')) name = this.expect('name').value;
+
+      const field: GraphQLField = { name, arguments: this.peek('punct', '(') ? this.arguments() : [] };
+      this.directives();
+      if (this.peek('punct', '{')) field.selectionSet = this.selectionSet(depth + 1);
+      selectionSet.fields.push(field);
+    }
+    return selectionSet;
+  }
+
+  private arguments(): GraphQLArgument[] {
+    const args: GraphQLArgument[] = [];
+    this.expect('punct', '(');
+    while (!this.skip('punct', ')')) {
+      const name = this.expect('name').value;
+      this.expect('punct', ':');
+      args.push({ name, ...this.value() });
+    }
+    return args;
+  }
+
+  private directives(): void {
+    while (this.skip('punct', '@')) {
+      this.expect('name');
+      if (this.peek('punct', '(')) this.arguments();
+    }
+  }
+
+  private value(): { variable?: string; literalType?: string } {
+    const token = this.tokens[this.index];
+    if (!token) throw new Error('Unexpected end of document');
+
+    if (this.skip('punct', '$')) return { variable: this.expect('name').value };
+    if (token.kind === 'string') {
+      this.index++;
+      return { literalType: 'String' };
+    }
+    if (token.kind === 'number') {
+      this.index++;
+      return { literalType: /[.eE]/.test(token.value) ? 'Float' : 'Int' };
+    }
+    if (token.kind === 'name') {
+      this.index++;
+      if (token.value === 'true' || token.value === 'false') return { literalType: 'Boolean' };
+      return {};
+    }
+    if (this.skip('punct', '[')) {
+      let itemType: string | undefined;
+      while (!this.skip('punct', ']')) itemType = itemType || this.value().literalType;
+      return { literalType: `[${itemType || UNKNOWN_TYPE}]` };
+    }
+    if (this.skip('punct', '{')) {
+      while (!this.skip('punct', '}')) {
+        this.expect('name');
+        this.expect('punct', ':');
+        this.value();
+      }
+      return {};
+    }
+    throw new Error(`Unexpected "${token.value}"`);
+  }
+
+  private peek(kind: Token['kind'], value?: string): boolean {
+    const token = this.tokens[this.index];
+    return !!token && token.kind === kind && (value === undefined || token.value === value);
+  }
+
+  private skip(kind: Token['kind'], value?: string): boolean {
+    if (!this.peek(kind, value)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expect(kind: Token['kind'], value?: string): Token {
+    if (!this.peek(kind, value)) {
+      throw new Error(`Expected ${value || kind}`);
+    }
+    return this.tokens[this.index++];
+  }
+}
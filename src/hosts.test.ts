@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { classifyHost, extractHostname, extractHosts, formatSubdomainList, isInternalHostname, registrableDomain } from './hosts';
+
+describe('extractHostname', () => {
+  it('reads the host of network URLs only', () => {
+    expect(extractHostname('POST https://user:pw@API.Example.com.:8443/v1')).toBe('api.example.com');
+    expect(extractHostname('//cdn.example.com/app.js')).toBe('cdn.example.com');
+    expect(extractHostname('//assets/app.js')).toBeNull();
+    expect(extractHostname('myapp://example.com/open')).toBeNull();
+    expect(extractHostname('/api/users')).toBeNull();
+  });
+});
+
+describe('registrableDomain', () => {
+  it('keeps one label below the public suffix', () => {
+    expect(registrableDomain('api.staging.example.com')).toBe('example.com');
+    expect(registrableDomain('api.staging.example.co.uk')).toBe('example.co.uk');
+    expect(registrableDomain('example.co.uk')).toBe('example.co.uk');
+    expect(registrableDomain('shop.acme.com.au')).toBe('acme.com.au');
+  });
+
+  it('treats shared hosting platforms as suffixes', () => {
+    expect(registrableDomain('acme.github.io')).toBe('acme.github.io');
+    expect(registrableDomain('api.acme.herokuapp.com')).toBe('acme.herokuapp.com');
+    expect(registrableDomain('acmestore.blob.core.windows.net')).toBe('acmestore.blob.core.windows.net');
+  });
+
+  it('leaves IPs and single labels as they are', () => {
+    expect(registrableDomain('10.0.3.17')).toBe('10.0.3.17');
+    expect(registrableDomain('8.8.8.8')).toBe('8.8.8.8');
+    expect(registrableDomain('localhost')).toBe('localhost');
+  });
+});
+
+describe('isInternalHostname', () => {
+  it('matches single labels and internal suffixes', () => {
+    expect(isInternalHostname('localhost')).toBe(true);
+    expect(isInternalHostname('printer.local')).toBe(true);
+    expect(isInternalHostname('auth.corp.internal')).toBe(true);
+    expect(isInternalHostname('router.home.arpa')).toBe(true);
+    expect(isInternalHostname('internal.example.com')).toBe(false);
+  });
+
+  it('matches RFC 1918, loopback and link-local addresses', () => {
+    expect(['10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.10', '127.0.0.1', '169.254.169.254'].every(isInternalHostname)).toBe(true);
+    expect(['172.32.0.1', '172.15.0.1', '192.169.1.1', '8.8.8.8'].some(isInternalHostname)).toBe(false);
+  });
+});
+
+describe('classifyHost', () => {
+  it('compares registrable domains with the target', () => {
+    expect(classifyHost('cdn.example.co.uk', 'https://www.example.co.uk/login')).toBe('same-domain');
+    expect(classifyHost('other.co.uk', 'https://www.example.co.uk/login')).toBe('third-party');
+    expect(classifyHost('other.github.io', 'https://acme.github.io/')).toBe('third-party');
+    expect(classifyHost('192.168.0.5', 'https://www.example.com/')).toBe('internal');
+    expect(classifyHost('8.8.8.8', 'https://8.8.4.4/')).toBe('third-party');
+  });
+});
+
+describe('extractHosts', () => {
+  it('collects endpoint hosts and bare hosts under the target domain', () => {
+    const content = 'const env = { api: "staging-api.example.com", docs: "docs.example.community", site: "example.com" };';
+    const endpoints = [{ url: 'https://www.google-analytics.com/collect', offset: 0, length: 40 }];
+
+    expect(extractHosts(content, endpoints, 'https://www.example.com/').map(host => host.hostname)).toEqual([
+      'www.google-analytics.com',
+      'staging-api.example.com',
+      'example.com'
+    ]);
+  });
+});
+
+describe('formatSubdomainList', () => {
+  it('groups hosts under their registrable domain', () => {
+    expect(formatSubdomainList(['b.example.com', 'api.acme.co.uk', 'a.example.com', 'b.example.com'])).toBe(
+      '# acme.co.uk\napi.acme.co.uk\n\n# example.com\na.example.com\nb.example.com'
+    );
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Hostname harvesting and classification against the scanned target
+ */
+
+import { EndpointReference } from './parameters';
+
+export type HostClass = 'in-scope' | 'same-domain' | 'third-party' | 'internal';
+
+export interface DiscoveredHost {
+  hostname: string;
+  // First URL the hostname was seen in
+  url: string;
+  offset: number;
+  length: number;
+}
+
+export const HOST_CLASS_LABELS: { [hostClass in HostClass]: string } = {
+  'in-scope': 'in scope',
+  'same-domain': 'same domain',
+  'third-party': 'third party',
+  internal: 'internal'
+};
+
+export const HOST_PATTERN_NAMES: { [hostClass in HostClass]: string } = {
+  'in-scope': 'In-Scope Hostname',
+  'same-domain': 'Same-Domain Hostname',
+  'third-party': 'Third-Party Hostname',
+  internal: 'Internal Hostname'
+};
+
+// Schemes whose authority is a network host; custom app schemes are not
+const HOST_SCHEMES = ['http', 'https', 'ws', 'wss', 'ftp', 'ftps', 'sftp'];
+
+const INTERNAL_SUFFIXES = ['.local', '.localdomain', '.internal', '.intranet', '.intra', '.corp', '.lan', '.home.arpa'];
+
+const PRIVATE_IP_REGEX = /^(?:10\.\d+|127\.\d+|169\.254|192\.168|172\.(?:1[6-9]|2\d|3[01]))\.\d+\.\d+$/;
+const IPV4_REGEX = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+const HOSTNAME_REGEX = /^(?=.{1,253}$)(?:[a-z0-9_](?:[a-z0-9_\-]{0,61}[a-z0-9])?\.)*[a-z0-9](?:[a-z0-9\-]{0,61}[a-z0-9])?$/;
+
+// Suffixes under which every label is a separate owner: multi-label ccTLDs
+// and shared hosting platforms
+const SHARED_SUFFIXES = [
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'com.au', 'net.au', 'org.au', 'co.nz', 'co.jp', 'co.kr', 'co.in',
+  'co.za', 'com.br', 'com.cn', 'com.mx', 'com.sg', 'com.tr', 'com.tw', 'com.hk',
+  'github.io', 'gitlab.io', 'herokuapp.com', 'appspot.com', 'firebaseapp.com', 'web.app', 'vercel.app',
+  'netlify.app', 'pages.dev', 'workers.dev', 'azurewebsites.net', 'cloudfront.net', 'amazonaws.com',
+  'blob.core.windows.net', 'onrender.com', 'fly.dev'
+];
+
+/**
+ * Lowercase hostname of an absolute or scheme-relative URL, with any
+ * `METHOD ` prefix ignored
+ */
+export function extractHostname(url: string): string | null {
+  const match = /^(?:[A-Z]+ )?(?:([a-z][a-z0-9+.\-]*):)?\/\/(?:[^@\/?#]*@)?([^\/?#:]+)/i.exec(url);
+  if (!match || (match[1] && !HOST_SCHEMES.includes(match[1].toLowerCase()))) {
+    return null;
+  }
+
+  const hostname = match[2].toLowerCase().replace(/\.$/, '');
+  // A scheme-relative `//word` is more often a path fragment than a host
+  if (!match[1] && !hostname.includes('.')) {
+    return null;
+  }
+  return HOSTNAME_REGEX.test(hostname) ? hostname : null;
+}
+
+/**
+ * Registrable domain (`api.staging.example.co.uk` → `example.co.uk`) from a
+ * built-in suffix list; IPs and single labels are their own root
+ */
+export function registrableDomain(hostname: string): string {
+  if (IPV4_REGEX.test(hostname) || !hostname.includes('.')) {
+    return hostname;
+  }
+
+  const labels = hostname.split('.');
+  const suffix = SHARED_SUFFIXES.find(shared => hostname.endsWith(`.${shared}`));
+  const suffixLabels = suffix ? suffix.split('.').length : 1;
+  return labels.slice(-(suffixLabels + 1)).join('.');
+}
+
+export function isInternalHostname(hostname: string): boolean {
+  return !hostname.includes('.') ||
+    INTERNAL_SUFFIXES.some(suffix => hostname.endsWith(suffix)) ||
+    PRIVATE_IP_REGEX.test(hostname);
+}
+
+/**
+ * Offline class of a hostname relative to the page it was found on; the
+ * in-scope class needs the proxy's scope and is applied by the caller
+ */
+export function classifyHost(hostname: string, targetUrl: string): HostClass {
+  if (isInternalHostname(hostname)) {
+    return 'internal';
+  }
+
+  const target = extractHostname(targetUrl);
+  return target && registrableDomain(target) === registrableDomain(hostname) ? 'same-domain' : 'third-party';
+}
+
+/**
+ * Hostnames of every absolute endpoint, plus bare hostnames under the
+ * target's registrable domain such as `"staging.example.com"`
+ */
+export function extractHosts(content: string, endpoints: EndpointReference[], targetUrl: string): DiscoveredHost[] {
+  const hosts = new Map<string, DiscoveredHost>();
+
+  const add = (hostname: string, url: string, offset: number, length: number) => {
+    if (!hosts.has(hostname)) {
+      hosts.set(hostname, { hostname, url, offset, length });
+    }
+  };
+
+  for (const endpoint of endpoints) {
+    const hostname = extractHostname(endpoint.url);
+    if (hostname) add(hostname, endpoint.url, endpoint.offset, endpoint.length);
+  }
+
+  const target = extractHostname(targetUrl);
+  const root = target ? registrableDomain(target) : null;
+  if (root && root.includes('.') && !IPV4_REGEX.test(root) && content.toLowerCase().includes(root)) {
+    const escaped = root.replace(/\./g, '\\.');
+    const bareHost = new RegExp(`(?<![\\w.\\-])(?:[a-z0-9](?:[a-z0-9\\-]{0,61}[a-z0-9])?\\.)*${escaped}(?![\\w\\-]|\\.\\w)`, 'gi');
+    for (const match of content.matchAll(bareHost)) {
+      add(match[0].toLowerCase(), match[0], match.index ?? 0, match[0].length);
+    }
+  }
+
+  return [...hosts.values()];
+}
+
+/**
+ * Deduplicated hostnames grouped under their registrable domain, one
+ * `# root` header per group
+ */
+export function formatSubdomainList(hostnames: string[]): string {
+  const roots = new Map<string, Set<string>>();
+  for (const hostname of hostnames) {
+    const root = registrableDomain(hostname);
+    const group = roots.get(root) || new Set<string>();
+    group.add(hostname);
+    roots.set(root, group);
+  }
+
+  return [...roots.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([root, group]) => [`# ${root}`, ...[...group].sort()].join('\n'))
+    .join('\n\n');
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { describeHttpCall, extractHttpCalls } from './httpcalls';
+
+const describeCalls = (content: string) => extractHttpCalls(content).map(call => `${call.client} ${describeHttpCall(call)}`);
+
+describe('extractHttpCalls', () => {
+  it('reads the method, headers and body keys of fetch calls', () => {
+    const [call] = extractHttpCalls('fetch("/api/login", { method: "post", headers: { "X-CSRF": t }, body: { user, pass } });');
+
+    expect(call).toMatchObject({ client: 'fetch', method: 'POST', url: '/api/login', headers: ['X-CSRF'], bodyKeys: ['user', 'pass'] });
+  });
+
+  it('reports verb methods on axios, jQuery and Angular clients', () => {
+    const content = [
+      'axios.get("/api/users");',
+      '$.post("/api/comments", { text });',
+      'this.http.put("/api/profile", body);'
+    ].join('\n');
+
+    expect(describeCalls(content)).toEqual(['axios GET /api/users', 'jquery POST /api/comments', 'angular PUT /api/profile']);
+  });
+
+  it('follows axios imports, requires and instances', () => {
+    const content = [
+      'import client from "axios";',
+      'const http2 = require("axios");',
+      'const legacy = _interopRequireDefault(require("axios"));',
+      'const api = client.create({ baseURL: "/v2" });',
+      'this.service = http2.create();',
+      'client.get("/api/a");',
+      'http2.get("/api/b");',
+      'legacy.default.get("/api/c");',
+      'api.delete("/api/d");',
+      'this.service.post("/api/e", {});'
+    ].join('\n');
+
+    expect(describeCalls(content)).toEqual([
+      'axios GET /api/a',
+      'axios GET /api/b',
+      'axios GET /api/c',
+      'axios DELETE /api/d',
+      'axios POST /api/e'
+    ]);
+  });
+
+  it('ignores verb methods on receivers that are not HTTP clients', () => {
+    const content = [
+      'cache.get("/api/users");',
+      'router.post("/api/login", handler);',
+      'this.store.delete("/api/session");'
+    ].join('\n');
+
+    expect(extractHttpCalls(content)).toEqual([]);
+  });
+
+  it('ties XMLHttpRequest headers and body to the open call', () => {
+    const content = 'xhr.open("PUT", "/api/items/1"); xhr.setRequestHeader("Authorization", t); xhr.send({ name });';
+
+    expect(extractHttpCalls(content)).toMatchObject([
+      { client: 'xhr', method: 'PUT', url: '/api/items/1', headers: ['Authorization'], bodyKeys: ['name'] }
+    ]);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * AST-based extraction of HTTP client calls with method inference
+ */
+
+import { simple } from 'acorn-walk';
+import { AnyNode, CallExpression, Expression, Program, SpreadElement } from 'acorn';
+import {
+  parseJavaScript,
+  resolveStringExpression,
+  getObjectProperty,
+  getObjectKeys,
+  calleeParts,
+  looksLikeUrl,
+  staticReferenceName,
+  IdentifierResolver,
+  ResolvedString
+} from './ast';
+
+export type HttpClient = 'fetch' | 'axios' | 'jquery' | 'xhr' | 'angular';
+
+export interface HttpCall {
+  client: HttpClient;
+  method: string;
+  url: string;
+  headers: string[];
+  bodyKeys: string[];
+  // Keys of a query params object such as axios' `params`
+  queryKeys: string[];
+  // Variable passed as the body, e.g. a FormData built elsewhere
+  bodyRef?: string;
+  offset: number;
+  length: number;
+}
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+
+// Methods whose second argument is the request body rather than the config
+const BODY_METHODS = ['post', 'put', 'patch'];
+
+// Angular's injected HttpClient, by the names it is conventionally given
+const ANGULAR_CLIENT_NAME = /^_?http(?:Client)?$/i;
+
+// Helpers compilers wrap a required module in to read its default export
+const INTEROP_HELPER = /interop|importDefault/i;
+
+/**
+ * Find every fetch, axios, jQuery, XMLHttpRequest and Angular HttpClient
+ * call in a script and describe the request it makes. `resolve` supplies
+ * known constant values for identifiers used in URLs.
+ */
+export function extractHttpCalls(
+  content: string,
+  program = parseJavaScript(content),
+  resolve?: IdentifierResolver
+): HttpCall[] {
+  if (!program) {
+    return [];
+  }
+
+  const calls: HttpCall[] = [];
+  const openRequests = new Map<string, HttpCall>();
+  const clients = findAxiosBindings(program);
+
+  simple(program, {
+    CallExpression(node) {
+      const xhrCall = matchXhrCall(node, openRequests, resolve);
+      if (xhrCall) {
+        calls.push(xhrCall);
+        return;
+      }
+
+      const call = matchFetchCall(node, resolve) || matchConfigCall(node, resolve) || matchMethodCall(node, clients, resolve);
+      if (call) {
+        calls.push(call);
+      }
+    }
+  });
+
+  return calls;
+}
+
+/**
+ * Format a call the way testers write it: `POST /api/users/{id}`
+ */
+export function describeHttpCall(call: HttpCall): string {
+  return `${call.method} ${call.url}`;
+}
+
+function stringArgument(node: Expression | SpreadElement | undefined): string | null {
+  if (!node || node.type === 'SpreadElement') return null;
+  const resolved = resolveStringExpression(node);
+  return resolved.isStatic ? resolved.value : null;
+}
+
+function objectArgument(node: Expression | SpreadElement | undefined) {
+  return node && node.type === 'ObjectExpression' ? node : null;
+}
+
+function createCall(
+  client: HttpClient,
+  node: CallExpression,
+  method: string | null,
+  url: ResolvedString,
+  headers: string[] = [],
+  bodyKeys: string[] = [],
+  queryKeys: string[] = [],
+  body?: AnyNode | null
+): HttpCall {
+  return {
+    client,
+    method: (method || 'GET').toUpperCase(),
+    url: url.value,
+    headers,
+    bodyKeys,
+    queryKeys,
+    bodyRef: (body && staticReferenceName(body)) || undefined,
+    offset: node.start,
+    length: node.end - node.start
+  };
+}
+
+/**
+ * fetch(url, { method, headers, body })
+ */
+function matchFetchCall(node: CallExpression, resolve?: IdentifierResolver): HttpCall | null {
+  const { object, property } = calleeParts(node.callee);
+  if (property !== 'fetch' || (object !== null && !['window', 'self', 'globalThis'].includes(object))) {
+    return null;
+  }
+
+  const [urlArg, optionsArg] = node.arguments;
+  if (!urlArg || urlArg.type === 'SpreadElement') return null;
+
+  const url = resolveStringExpression(urlArg, resolve);
+  if (!url.hasLiteral) return null;
+
+  const options = objectArgument(optionsArg);
+  const body = options ? getObjectProperty(options, 'body') : null;
+  return createCall(
+    'fetch',
+    node,
+    options ? stringArgument(getObjectProperty(options, 'method') || undefined) : null,
+    url,
+    options ? getObjectKeys(getObjectProperty(options, 'headers')) : [],
+    getObjectKeys(body),
+    [],
+    body
+  );
+}
+
+/**
+ * Config-object calls: axios({...}), axios.request({...}), $.ajax({...}) and $.ajax(url, {...})
+ */
+function matchConfigCall(node: CallExpression, resolve?: IdentifierResolver): HttpCall | null {
+  const { object, property } = calleeParts(node.callee);
+
+  let client: HttpClient;
+  if (object === null && property === 'axios') {
+    client = 'axios';
+  } else if (property === 'request' && object === 'axios') {
+    client = 'axios';
+  } else if (property === 'ajax' && (object === '$' || object === 'jQuery')) {
+    client = 'jquery';
+  } else {
+    return null;
+  }
+
+  let [first, second] = node.arguments;
+  let urlNode: AnyNode | null = null;
+  if (first && first.type !== 'SpreadElement' && first.type !== 'ObjectExpression') {
+    urlNode = first;
+    first = second;
+  }
+
+  const config = objectArgument(first);
+  if (!config) return null;
+
+  urlNode = urlNode || getObjectProperty(config, 'url');
+  if (!urlNode) return null;
+
+  const url = resolveStringExpression(urlNode, resolve);
+  if (!url.hasLiteral) return null;
+
+  const method = stringArgument(getObjectProperty(config, 'method') || getObjectProperty(config, 'type') || undefined);
+  const body = getObjectProperty(config, 'data') || getObjectProperty(config, 'body');
+  return createCall(
+    client,
+    node,
+    method,
+    url,
+    getObjectKeys(getObjectProperty(config, 'headers')),
+    getObjectKeys(body),
+    getObjectKeys(getObjectProperty(config, 'params')),
+    body
+  );
+}
+
+/**
+ * Verb methods: axios.post(url, data, config), $.get(url, data),
+ * this.http.put(url, body, options) and axios instances. Any other
+ * receiver is left alone, since `cache.get("/key")` is not a request.
+ */
+function matchMethodCall(node: CallExpression, clients: Set<string>, resolve?: IdentifierResolver): HttpCall | null {
+  const { object, property } = calleeParts(node.callee);
+  if (!property || !HTTP_METHODS.includes(property.toLowerCase()) || node.callee.type !== 'MemberExpression') {
+    return null;
+  }
+
+  let client: HttpClient;
+  if (object === '$' || object === 'jQuery') {
+    client = 'jquery';
+  } else if (object && ANGULAR_CLIENT_NAME.test(object)) {
+    client = 'angular';
+  } else if (isAxiosReference(node.callee.object, clients)) {
+    client = 'axios';
+  } else {
+    return null;
+  }
+
+  const [urlArg, secondArg, thirdArg] = node.arguments;
+  if (!urlArg || urlArg.type === 'SpreadElement') return null;
+
+  const url = resolveStringExpression(urlArg, resolve);
+  if (!looksLikeUrl(url)) return null;
+
+  const method = property.toLowerCase();
+  const hasBody = BODY_METHODS.includes(method);
+
+  if (client === 'jquery') {
+    // $.get(url, data) / $.post(url, data) both send data
+    return createCall(client, node, method, url, [], getObjectKeys(secondArg), [], secondArg);
+  }
+
+  const config = objectArgument(hasBody ? thirdArg : secondArg);
+  return createCall(
+    client,
+    node,
+    method,
+    url,
+    config ? getObjectKeys(getObjectProperty(config, 'headers')) : [],
+    hasBody ? getObjectKeys(secondArg) : [],
+    config ? getObjectKeys(getObjectProperty(config, 'params')) : [],
+    hasBody ? secondArg : null
+  );
+}
+
+/**
+ * Names bound to axios: ES imports, `require("axios")` (also through an
+ * interop helper) and instances made with `axios.create()`. Member
+ * assignments such as `this.api = axios.create()` bind the property name.
+ */
+function findAxiosBindings(program: Program): Set<string> {
+  const clients = new Set<string>(['axios']);
+
+  simple(program, {
+    ImportDeclaration(node) {
+      if (node.source.value !== 'axios') return;
+      for (const specifier of node.specifiers) {
+        clients.add(specifier.local.name);
+      }
+    },
+    VariableDeclarator(node) {
+      if (node.id.type === 'Identifier' && node.init && isAxiosReference(node.init, clients)) {
+        clients.add(node.id.name);
+      }
+    },
+    AssignmentExpression(node) {
+      if (!isAxiosReference(node.right, clients)) return;
+      const { property } = calleeParts(node.left);
+      if (property) clients.add(property);
+    }
+  });
+
+  return clients;
+}
+
+function isAxiosReference(node: AnyNode, clients: Set<string>): boolean {
+  switch (node.type) {
+    case 'Identifier':
+      return clients.has(node.name);
+    case 'MemberExpression': {
+      const { property } = calleeParts(node);
+      // `n.default` of a required module, or an instance kept on `this.api`
+      return property === 'default' ? isAxiosReference(node.object, clients) : property !== null && clients.has(property);
+    }
+    case 'CallExpression': {
+      const { object, property } = calleeParts(node.callee);
+      const [first] = node.arguments;
+      if (object === null && property === 'require') {
+        return !!first && first.type === 'Literal' && first.value === 'axios';
+      }
+      if (object === null && property && INTEROP_HELPER.test(property)) {
+        return !!first && first.type !== 'SpreadElement' && isAxiosReference(first, clients);
+      }
+      return property === 'create' && node.callee.type === 'MemberExpression' && isAxiosReference(node.callee.object, clients);
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * xhr.open(method, url) followed by xhr.setRequestHeader(...) and xhr.send(body)
+ * on the same receiver
+ */
+function matchXhrCall(
+  node: CallExpression,
+  openRequests: Map<string, HttpCall>,
+  resolve?: IdentifierResolver
+): HttpCall | null {
+  const callee = node.callee;
+  if (callee.type !== 'MemberExpression') return null;
+
+  const { property } = calleeParts(callee);
+  const receiver = receiverKey(callee.object);
+  if (!receiver) return null;
+
+  if (property === 'open') {
+    const method = stringArgument(node.arguments[0]);
+    const urlArg = node.arguments[1];
+    if (!method || !HTTP_METHODS.includes(method.toLowerCase()) || !urlArg || urlArg.type === 'SpreadElement') {
+      return null;
+    }
+
+    const url = resolveStringExpression(urlArg, resolve);
+    if (!url.hasLiteral) return null;
+
+    const call = createCall('xhr', node, method, url);
+    openRequests.set(receiver, call);
+    return call;
+  }
+
+  const openRequest = openRequests.get(receiver);
+  if (property === 'setRequestHeader' && openRequest) {
+    const header = stringArgument(node.arguments[0]);
+    if (header && !openRequest.headers.includes(header)) {
+      openRequest.headers.push(header);
+    }
+  } else if (property === 'send' && openRequest) {
+    const body = node.arguments[0];
+    openRequest.bodyKeys.push(...getObjectKeys(body));
+    openRequest.bodyRef = (body && staticReferenceName(body)) || undefined;
+  }
+
+  return null;
+}
+
+function receiverKey(node: AnyNode): string | null {
+  if (node.type === 'Identifier') return node.name;
+  if (node.type === 'ThisExpression') return 'this';
+  if (node.type === 'MemberExpression' && !node.computed && node.property.type === 'Identifier') {
+    const parent = receiverKey(node.object);
+    return parent ? `${parent}.${node.property.name}` : null;
+  }
+  return null;
+}
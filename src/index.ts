@@ -26,6 +26,7 @@ class JSEndpointSecretHunter {
   constructor(caido: Caido) {
     this.caido = caido;
     this.scanner = new JSScanner();
+    this.scanner.setScopeCheck(url => this.isInScope(url));
     this.setupScanner();
   }
 
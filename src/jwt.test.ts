@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeJwt, jwtSeverity, summarizeJwt, MAX_TOKEN_LIFETIME_SECONDS } from './jwt';
+
+const NOW = Date.UTC(2025, 0, 1);
+const NOW_SECONDS = NOW / 1000;
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const jwt = (payload: object, header: object = { alg: 'RS256', typ: 'JWT' }) => `${encode(header)}.${encode(payload)}.c2lnbmF0dXJl`;
+const flagsOf = (token: string) => analyzeJwt(token, NOW)?.flags;
+
+describe('analyzeJwt', () => {
+  it('flags unsigned and symmetric algorithms', () => {
+    const payload = { sub: '1', exp: NOW_SECONDS + 3600 };
+
+    expect(flagsOf(jwt(payload, { alg: 'none' }))).toEqual(['alg-none']);
+    expect(flagsOf(jwt(payload, { typ: 'JWT' }))).toEqual(['alg-none']);
+    expect(flagsOf(jwt(payload, { alg: 'HS256' }))).toEqual(['symmetric-alg']);
+    expect(flagsOf(jwt(payload))).toEqual([]);
+  });
+
+  it('flags missing, far-future and past expiry', () => {
+    expect(flagsOf(jwt({ sub: '1' }))).toEqual(['missing-exp']);
+    expect(flagsOf(jwt({ iat: NOW_SECONDS, exp: NOW_SECONDS + MAX_TOKEN_LIFETIME_SECONDS + 1 }))).toEqual(['long-lived']);
+    expect(flagsOf(jwt({ exp: NOW_SECONDS + 2 * MAX_TOKEN_LIFETIME_SECONDS }))).toEqual(['long-lived']);
+    expect(flagsOf(jwt({ iat: NOW_SECONDS - 7200, exp: NOW_SECONDS - 3600 }))).toEqual(['expired']);
+  });
+
+  it('collects emails, roles and tenants, including namespaced and nested claims', () => {
+    const analysis = analyzeJwt(jwt({
+      sub: 'auth0|42',
+      exp: NOW_SECONDS + 3600,
+      email: 'jane.doe@example.com',
+      'https://example.com/roles': ['admin', 'billing'],
+      scope: 'read:users write:users',
+      realm_access: { roles: ['admin'] },
+      tid: '72f988bf-86f1-41af-91ab-2d7cd011db47'
+    }), NOW)!;
+
+    expect(analysis.emails).toEqual(['jane.doe@example.com']);
+    expect(analysis.roles).toEqual(['admin', 'billing', 'read:users', 'write:users']);
+    expect(analysis.tenantIds).toEqual(['72f988bf-86f1-41af-91ab-2d7cd011db47']);
+    expect(analysis.flags).toEqual(['user-data']);
+  });
+
+  it('flags personal claims without an email as user data', () => {
+    expect(flagsOf(jwt({ exp: NOW_SECONDS + 60, given_name: 'Jane' }))).toEqual(['user-data']);
+  });
+
+  it('flags internal hosts in the issuer and audience', () => {
+    const analysis = analyzeJwt(jwt({
+      iss: 'https://auth.corp.internal/realms/main',
+      aud: ['https://api.example.com', 'http://10.0.3.17:8080'],
+      exp: NOW_SECONDS + 60
+    }), NOW)!;
+
+    expect(analysis.issuer).toBe('https://auth.corp.internal/realms/main');
+    expect(analysis.audience).toEqual(['https://api.example.com', 'http://10.0.3.17:8080']);
+    expect(analysis.internalHosts).toEqual(['auth.corp.internal', '10.0.3.17']);
+    expect(analysis.flags).toEqual(['internal-host']);
+    expect(summarizeJwt(analysis)).toBe(
+      'alg=RS256 iss=https://auth.corp.internal/realms/main aud=https://api.example.com,http://10.0.3.17:8080 ' +
+      'exp=2025-01-01T00:01:00.000Z hosts=auth.corp.internal,10.0.3.17'
+    );
+  });
+
+  it('returns null for malformed tokens without throwing', () => {
+    const header = encode({ alg: 'HS256' });
+
+    expect(analyzeJwt('not.a.jwt')).toBeNull();
+    expect(analyzeJwt(`${header}.${encode({ sub: '1' })}`)).toBeNull();
+    expect(analyzeJwt(`${header}.@@@!!!.sig`)).toBeNull();
+    expect(analyzeJwt(`${header}.${Buffer.from('{"sub": ').toString('base64url')}.sig`)).toBeNull();
+    expect(analyzeJwt(`${header}.${encode(['sub'])}.sig`)).toBeNull();
+  });
+});
+
+describe('jwtSeverity', () => {
+  it('raises the severity one level for user data or internal hosts', () => {
+    const plain = analyzeJwt(jwt({ exp: NOW_SECONDS + 60 }), NOW)!;
+    const revealing = analyzeJwt(jwt({ exp: NOW_SECONDS + 60, email: 'ops@example.com' }), NOW)!;
+
+    expect(jwtSeverity(plain, 'medium')).toBe('medium');
+    expect(jwtSeverity(revealing, 'medium')).toBe('high');
+    expect(jwtSeverity(revealing, 'critical')).toBe('critical');
+  });
+});
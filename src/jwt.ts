@@ -0,0 +1,195 @@
+/**
+ * JWT decoding and security analysis
+ */
+
+import { decodeBase64, decodeUtf8 } from './decoder';
+import { Severity } from './patterns';
+
+// Tokens valid for longer than this count as long-lived
+export const MAX_TOKEN_LIFETIME_SECONDS = 365 * 24 * 60 * 60;
+
+export type JwtFlag =
+  | 'alg-none'
+  | 'symmetric-alg'
+  | 'missing-exp'
+  | 'long-lived'
+  | 'expired'
+  | 'user-data'
+  | 'internal-host';
+
+export interface JwtAnalysis {
+  header: { [key: string]: unknown };
+  payload: { [key: string]: unknown };
+  algorithm?: string;
+  issuer?: string;
+  audience?: string[];
+  subject?: string;
+  // Unix timestamps in seconds, as in the token
+  issuedAt?: number;
+  expiresAt?: number;
+  emails: string[];
+  roles: string[];
+  tenantIds: string[];
+  internalHosts: string[];
+  flags: JwtFlag[];
+}
+
+const SEVERITIES: Severity[] = ['info', 'low', 'medium', 'high', 'critical'];
+
+// Compared against the claim name lowercased with punctuation removed, after
+// any namespace such as `https://example.com/roles` or `cognito:groups`
+const ROLE_CLAIMS = ['role', 'roles', 'groups', 'scope', 'scp', 'permissions', 'authorities', 'entitlements'];
+const TENANT_CLAIMS = ['tid', 'tenant', 'tenantid', 'org', 'orgid', 'organization', 'organizationid', 'accountid', 'workspaceid'];
+const PERSONAL_CLAIMS = ['name', 'givenname', 'familyname', 'nickname', 'phone', 'phonenumber', 'birthdate', 'address', 'preferredusername'];
+
+const EMAIL_REGEX = /[a-zA-Z0-9._%+\-]+@[a-zA-Z0-9.\-]+\.[a-zA-Z]{2,}/g;
+const INTERNAL_HOST_REGEX = /\b(?:localhost|(?:[a-z0-9\-]+\.)+(?:internal|local|localdomain|corp|lan|intranet|private|svc)|10\.\d{1,3}\.\d{1,3}\.\d{1,3}|192\.168\.\d{1,3}\.\d{1,3}|172\.(?:1[6-9]|2\d|3[01])\.\d{1,3}\.\d{1,3})\b/gi;
+
+/**
+ * Decode a compact JWS and flag weak or revealing properties; null when the
+ * value is not a JWT with JSON header and payload
+ */
+export function analyzeJwt(token: string, now: number = Date.now()): JwtAnalysis | null {
+  const parts = token.split('.');
+  if (parts.length !== 3 || !parts[0].startsWith('eyJ')) return null;
+
+  const header = decodeJson(parts[0]);
+  const payload = decodeJson(parts[1]);
+  if (!header || !payload) return null;
+
+  const analysis: JwtAnalysis = {
+    header,
+    payload,
+    algorithm: typeof header.alg === 'string' ? header.alg : undefined,
+    issuer: typeof payload.iss === 'string' ? payload.iss : undefined,
+    audience: stringValues(payload.aud),
+    subject: typeof payload.sub === 'string' ? payload.sub : undefined,
+    issuedAt: typeof payload.iat === 'number' ? payload.iat : undefined,
+    expiresAt: typeof payload.exp === 'number' ? payload.exp : undefined,
+    emails: [],
+    roles: [],
+    tenantIds: [],
+    internalHosts: [],
+    flags: []
+  };
+  if (analysis.audience && analysis.audience.length === 0) {
+    analysis.audience = undefined;
+  }
+
+  let personal = false;
+  for (const [key, value] of claimEntries(payload)) {
+    const claim = claimName(key);
+    if (ROLE_CLAIMS.includes(claim)) {
+      // OAuth scopes are space separated
+      analysis.roles.push(...stringValues(value).flatMap(role => role.split(' ')).filter(Boolean));
+    } else if (TENANT_CLAIMS.includes(claim)) {
+      analysis.tenantIds.push(...stringValues(value));
+    } else if (PERSONAL_CLAIMS.includes(claim)) {
+      personal = true;
+    }
+  }
+
+  analysis.roles = unique(analysis.roles);
+  analysis.tenantIds = unique(analysis.tenantIds);
+
+  const strings = collectStrings(payload);
+  analysis.emails = unique(strings.flatMap(value => value.match(EMAIL_REGEX) || []));
+  analysis.internalHosts = unique(strings.flatMap(value => value.match(INTERNAL_HOST_REGEX) || []).map(host => host.toLowerCase()));
+
+  const algorithm = (analysis.algorithm || '').toLowerCase();
+  if (algorithm === 'none' || algorithm === '') {
+    analysis.flags.push('alg-none');
+  } else if (/^hs\d+$/.test(algorithm)) {
+    analysis.flags.push('symmetric-alg');
+  }
+
+  const nowSeconds = Math.floor(now / 1000);
+  if (analysis.expiresAt === undefined) {
+    analysis.flags.push('missing-exp');
+  } else {
+    if (analysis.expiresAt - (analysis.issuedAt ?? nowSeconds) > MAX_TOKEN_LIFETIME_SECONDS) {
+      analysis.flags.push('long-lived');
+    }
+    if (analysis.expiresAt < nowSeconds) {
+      analysis.flags.push('expired');
+    }
+  }
+
+  if (personal || analysis.emails.length > 0) {
+    analysis.flags.push('user-data');
+  }
+  if (analysis.internalHosts.length > 0) {
+    analysis.flags.push('internal-host');
+  }
+
+  return analysis;
+}
+
+/**
+ * Raise a JWT finding's severity one level when its payload reveals
+ * internal hostnames or user data
+ */
+export function jwtSeverity(analysis: JwtAnalysis, severity: Severity): Severity {
+  if (!analysis.flags.includes('internal-host') && !analysis.flags.includes('user-data')) {
+    return severity;
+  }
+  return SEVERITIES[Math.min(SEVERITIES.indexOf(severity) + 1, SEVERITIES.length - 1)];
+}
+
+/**
+ * One-line summary for CSV exports and tooltips
+ */
+export function summarizeJwt(analysis: JwtAnalysis): string {
+  const parts = [`alg=${analysis.algorithm || 'none'}`];
+  if (analysis.issuer) parts.push(`iss=${analysis.issuer}`);
+  if (analysis.audience) parts.push(`aud=${analysis.audience.join(',')}`);
+  if (analysis.expiresAt !== undefined) parts.push(`exp=${new Date(analysis.expiresAt * 1000).toISOString()}`);
+  if (analysis.emails.length > 0) parts.push(`emails=${analysis.emails.join(',')}`);
+  if (analysis.roles.length > 0) parts.push(`roles=${analysis.roles.join(',')}`);
+  if (analysis.tenantIds.length > 0) parts.push(`tenants=${analysis.tenantIds.join(',')}`);
+  if (analysis.internalHosts.length > 0) parts.push(`hosts=${analysis.internalHosts.join(',')}`);
+  return parts.join(' ');
+}
+
+function decodeJson(segment: string): { [key: string]: unknown } | null {
+  const binary = decodeBase64(segment);
+  if (binary === null) return null;
+  try {
+    const value = JSON.parse(decodeUtf8(binary));
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// Claims at every nesting level, e.g. Keycloak's `realm_access.roles`
+function claimEntries(claims: { [key: string]: unknown }): [string, unknown][] {
+  return Object.entries(claims).flatMap(([key, value]): [string, unknown][] =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? claimEntries(value as { [key: string]: unknown })
+      : [[key, value]]
+  );
+}
+
+function claimName(key: string): string {
+  const name = key.split(/[\/:]/).pop() || key;
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function stringValues(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (typeof value === 'number') return [String(value)];
+  if (Array.isArray(value)) return value.flatMap(stringValues);
+  return [];
+}
+
+function collectStrings(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(collectStrings);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(collectStrings);
+  return [];
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
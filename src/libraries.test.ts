@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Advisory } from './advisories';
+import { advisorySeverity, compareVersions, detectLibraries, findAdvisories } from './libraries';
+
+const detected = (content: string) => detectLibraries(content).map(library => `${library.id}@${library.version} ${library.detection}`);
+
+describe('compareVersions', () => {
+  it('compares segments numerically, padding the shorter version', () => {
+    expect(compareVersions('1.10.0', '1.9.3')).toBeGreaterThan(0);
+    expect(compareVersions('4.17', '4.17.0')).toBe(0);
+    expect(compareVersions('1.6.0.2', '1.6.0')).toBeGreaterThan(0);
+    expect(compareVersions('2.0', '2.0.1')).toBeLessThan(0);
+  });
+
+  it('sorts pre-releases before their release and by number', () => {
+    expect(compareVersions('3.0.0-beta1', '3.0.0')).toBeLessThan(0);
+    expect(compareVersions('3.0.0', '3.0.0-rc.1')).toBeGreaterThan(0);
+    expect(compareVersions('3.0.0-beta10', '3.0.0-beta9')).toBeGreaterThan(0);
+    expect(compareVersions('1.9.0b1', '1.9.0')).toBeLessThan(0);
+  });
+});
+
+describe('detectLibraries', () => {
+  it('reads versions from license banners', () => {
+    const content = [
+      '/*! jQuery v3.4.1 | (c) JS Foundation and other contributors | jquery.org/license */',
+      '/** @license React v16.14.0 */',
+      '/*! @license DOMPurify 2.3.3 | (c) Cure53 and other contributors */',
+      '/*! Bootstrap v4.3.1 (https://getbootstrap.com/) */'
+    ].join('\n');
+
+    expect(detected(content)).toEqual([
+      'jquery@3.4.1 banner',
+      'dompurify@2.3.3 banner',
+      'react@16.14.0 banner',
+      'bootstrap@4.3.1 banner'
+    ]);
+  });
+
+  it('recognizes minified code without a banner', () => {
+    const content = [
+      'var f="3.6.0",S=function(e,t){return new S.fn.init(e,t)};',
+      'var u,i="4.17.21",o=200,f="Unsupported core-js use. Try https://npms.io/search?q=ponyfill.";',
+      'o.version="2.2.9",o.removed=[]'
+    ].join('\n');
+
+    expect(detected(content)).toEqual(['jquery@3.6.0 signature', 'lodash@4.17.21 signature', 'dompurify@2.2.9 signature']);
+  });
+
+  it('keeps Lodash banners from reporting Underscore.js', () => {
+    expect(detected('/** @license lodash 4.17.15 Based on Underscore.js 1.8.3 */')).toEqual(['lodash@4.17.15 banner']);
+  });
+});
+
+describe('findAdvisories', () => {
+  const advisories: Advisory[] = [
+    { library: 'jquery', atOrAbove: '1.2.0', below: '3.5.0', severity: 'medium', identifiers: ['CVE-2020-11022'], summary: '' },
+    { library: 'jQuery', below: '1.9.0', severity: 'high', identifiers: ['CVE-2012-6708'], summary: '' },
+    { library: 'lodash', below: '4.17.21', severity: 'critical', identifiers: ['CVE-2021-23337'], summary: '' }
+  ];
+  const jquery = (version: string) => ({ id: 'jquery', name: 'jQuery', version, detection: 'banner' as const, offset: 0, length: 0 });
+
+  it('matches by id or name within the version range', () => {
+    expect(findAdvisories(jquery('1.8.3'), advisories).map(advisory => advisory.identifiers[0])).toEqual(['CVE-2020-11022', 'CVE-2012-6708']);
+    expect(findAdvisories(jquery('3.5.0'), advisories)).toEqual([]);
+    expect(advisorySeverity(findAdvisories(jquery('1.8.3'), advisories))).toBe('high');
+    expect(advisorySeverity([])).toBe('info');
+  });
+});
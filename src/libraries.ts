@@ -0,0 +1,256 @@
+/**
+ * Client-side library fingerprinting from license banners, version
+ * constants and code signatures, matched against the advisory dataset
+ */
+
+import { Severity } from './patterns';
+import { Advisory } from './advisories';
+
+export type LibraryDetection = 'banner' | 'constant' | 'signature';
+
+export interface DetectedLibrary {
+  // retire.js component id, used to look up advisories
+  id: string;
+  name: string;
+  version: string;
+  detection: LibraryDetection;
+  offset: number;
+  length: number;
+}
+
+interface LibraryFingerprint {
+  id: string;
+  name: string;
+  // Lowercase strings one of which must occur before the regexes run
+  keywords: string[];
+  banners?: RegExp[];
+  constants?: RegExp[];
+  signatures?: RegExp[];
+}
+
+const SEVERITIES: Severity[] = ['info', 'low', 'medium', 'high', 'critical'];
+
+// `<v>` in a fingerprint stands for the captured version
+const VERSION_SOURCE = '(\\d+\\.\\d+\\.\\d+(?:\\.\\d+)?(?:-[a-z][\\w.]*)?)';
+
+const FINGERPRINTS: LibraryFingerprint[] = [
+  {
+    id: 'jquery',
+    name: 'jQuery',
+    keywords: ['jquery', 'fn.init'],
+    banners: [withVersion(/\/\*!?\s*jQuery v<v>/), withVersion(/jQuery JavaScript Library v<v>/)],
+    constants: [withVersion(/\bjquery\s*:\s*["']<v>["']/)],
+    // var f="3.6.0",S=function(e,t){return new S.fn.init(e,t)}
+    signatures: [withVersion(/["']<v>["']\s*,\s*[\w$]+\s*=\s*function\s*\(\s*[\w$]+\s*,\s*[\w$]+\s*\)\s*\{\s*return\s+new\s+[\w$]+\.fn\.init\(/)]
+  },
+  {
+    id: 'jquery-ui',
+    name: 'jQuery UI',
+    keywords: ['jquery ui', '.ui.version', 'ui,{version'],
+    banners: [withVersion(/jQuery UI - v<v>/)],
+    constants: [withVersion(/\.ui\.version\s*=\s*["']<v>["']/), withVersion(/\.ui\s*,\s*\{\s*version\s*:\s*["']<v>["']/)]
+  },
+  {
+    id: 'lodash',
+    name: 'Lodash',
+    keywords: ['lodash', 'unsupported core-js use'],
+    banners: [withVersion(/\blodash v?<v>/i)],
+    constants: [withVersion(/\bVERSION\s*=\s*["']<v>["'][\s\S]{0,300}?LARGE_ARRAY_SIZE/)],
+    // var u,i="4.17.21",o=200,f="Unsupported core-js use. ..."
+    signatures: [withVersion(/["']<v>["']\s*,\s*[\w$]+\s*=\s*200\s*,\s*[\w$]+\s*=\s*["']Unsupported core-js use/)]
+  },
+  {
+    id: 'underscore.js',
+    name: 'Underscore.js',
+    keywords: ['underscore.js'],
+    // Line comments only: Lodash's banner credits "Underscore.js 1.8.3" too
+    banners: [withVersion(/(?:^|\n)\s*\/\/\s*Underscore\.js <v>/)]
+  },
+  {
+    id: 'moment.js',
+    name: 'Moment.js',
+    keywords: ['moment.js', 'isdstshifted'],
+    banners: [withVersion(/moment\.js\s*\n?\s*\/\/!\s*version\s*:\s*<v>/)],
+    // hooks.version = '2.29.4'; setHookCallback(createLocal); hooks.fn = proto
+    signatures: [withVersion(/\.version\s*=\s*["']<v>["']\s*[,;]\s*(?:[\w$]+\s*\(\s*[\w$]+\s*\)|[\w$]+\s*=\s*[\w$]+)\s*[,;]\s*[\w$]+\.fn\s*=/)]
+  },
+  {
+    id: 'dompurify',
+    name: 'DOMPurify',
+    keywords: ['dompurify', '.removed=[]'],
+    banners: [withVersion(/DOMPurify <v>/)],
+    constants: [withVersion(/DOMPurify\.version\s*=\s*["']<v>["']/)],
+    // o.version="2.3.3",o.removed=[]
+    signatures: [withVersion(/\.version\s*=\s*["']<v>["']\s*[,;]\s*[\w$]+\.removed\s*=\s*\[\]/)]
+  },
+  {
+    id: 'angularjs',
+    name: 'AngularJS',
+    keywords: ['angularjs', 'codename'],
+    banners: [withVersion(/@license AngularJS v<v>/)],
+    // angular.version = { full: '1.8.2', major: 1, ... codeName: '...' }
+    constants: [withVersion(/\bfull\s*:\s*["']<v>["']\s*,\s*major\s*:/)]
+  },
+  {
+    id: 'angular',
+    name: 'Angular',
+    keywords: ['@license angular'],
+    banners: [withVersion(/@license Angular v<v>/)]
+  },
+  {
+    id: 'react',
+    name: 'React',
+    keywords: ['@license react', '__secret_internals', 'rendererpackagename', 'reconcilerversion'],
+    banners: [withVersion(/@license React v<v>/)],
+    constants: [
+      withVersion(/\bversion\s*:\s*["']<v>["']\s*,\s*rendererPackageName\s*:\s*["']react-dom["']/),
+      // React DOM's devtools registration
+      withVersion(/\breconcilerVersion\s*:\s*["']<v>["']/)
+    ],
+    signatures: [withVersion(/__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED[\s\S]{0,4000}?\bversion\s*=\s*["']<v>["']/)]
+  },
+  {
+    id: 'vue',
+    name: 'Vue.js',
+    keywords: ['vue'],
+    banners: [withVersion(/Vue\.js v<v>/), withVersion(/\*\s*vue v<v>/)]
+  },
+  {
+    id: 'handlebars',
+    name: 'Handlebars',
+    keywords: ['handlebars', 'compiler_revision'],
+    banners: [withVersion(/handlebars v<v>/i)],
+    signatures: [withVersion(/\bVERSION\s*=\s*["']<v>["'][\s\S]{0,120}?COMPILER_REVISION/)]
+  },
+  {
+    id: 'bootstrap',
+    name: 'Bootstrap',
+    keywords: ['bootstrap', 'bs.'],
+    banners: [withVersion(/Bootstrap v<v> \(https?:\/\/getbootstrap\.com/)],
+    // Bootstrap 3: Modal.VERSION = '3.3.7'; Modal.TRANSITION_DURATION = 300
+    constants: [withVersion(/\.VERSION\s*=\s*["']<v>["'][\s\S]{0,200}?TRANSITION_DURATION/)],
+    signatures: [
+      // Bootstrap 4: var VERSION = '4.3.1'; var DATA_KEY = 'bs.alert'
+      withVersion(/["']<v>["']\s*[,;]\s*(?:var\s+)?[\w$]+\s*=\s*["']bs\.[\w-]+["']/),
+      // Bootstrap 5: static get VERSION(){return"5.3.3"}static get DATA_KEY(){return`bs.${this.NAME}`}
+      withVersion(/get VERSION\(\)\s*\{\s*return\s*["']<v>["']\s*\}[\s\S]{0,80}?bs\./)
+    ]
+  },
+  {
+    id: 'knockout',
+    name: 'Knockout',
+    keywords: ['knockout'],
+    banners: [withVersion(/Knockout JavaScript library v<v>/)]
+  },
+  {
+    id: 'prototypejs',
+    name: 'Prototype',
+    keywords: ['prototype'],
+    banners: [withVersion(/Prototype JavaScript framework, version <v>/)],
+    constants: [withVersion(/\bPrototype\s*=\s*\{\s*Version\s*:\s*["']<v>["']/)]
+  },
+  {
+    id: 'axios',
+    name: 'Axios',
+    keywords: ['axios'],
+    banners: [withVersion(/Axios v<v>/)]
+  }
+];
+
+/**
+ * Identify bundled libraries and their versions. Each library and version
+ * is reported once, preferring a banner over a constant over a signature.
+ */
+export function detectLibraries(content: string): DetectedLibrary[] {
+  const lowerContent = content.toLowerCase();
+  const libraries = new Map<string, DetectedLibrary>();
+
+  for (const fingerprint of FINGERPRINTS) {
+    if (!fingerprint.keywords.some(keyword => lowerContent.includes(keyword))) continue;
+
+    const detections: [LibraryDetection, RegExp[] | undefined][] = [
+      ['banner', fingerprint.banners],
+      ['constant', fingerprint.constants],
+      ['signature', fingerprint.signatures]
+    ];
+    for (const [detection, regexes] of detections) {
+      for (const regex of regexes || []) {
+        for (const match of content.matchAll(regex)) {
+          const key = `${fingerprint.id}@${match[1]}`;
+          if (libraries.has(key)) continue;
+
+          libraries.set(key, {
+            id: fingerprint.id,
+            name: fingerprint.name,
+            version: match[1],
+            detection,
+            offset: match.index ?? 0,
+            length: match[0].length
+          });
+        }
+      }
+    }
+  }
+
+  return [...libraries.values()];
+}
+
+/**
+ * Advisories whose library and version range cover a detected library
+ */
+export function findAdvisories(library: DetectedLibrary, advisories: Advisory[]): Advisory[] {
+  const names = [library.id, library.name.toLowerCase()];
+
+  return advisories.filter(advisory =>
+    names.includes(advisory.library.toLowerCase()) &&
+    (!advisory.atOrAbove || compareVersions(library.version, advisory.atOrAbove) >= 0) &&
+    (!advisory.above || compareVersions(library.version, advisory.above) > 0) &&
+    (!advisory.below || compareVersions(library.version, advisory.below) < 0)
+  );
+}
+
+/**
+ * Highest severity among the advisories, `info` when there are none
+ */
+export function advisorySeverity(advisories: Advisory[]): Severity {
+  return advisories.reduce<Severity>(
+    (highest, advisory) => SEVERITIES.indexOf(advisory.severity) > SEVERITIES.indexOf(highest) ? advisory.severity : highest,
+    'info'
+  );
+}
+
+/**
+ * Every advisory id once, e.g. for a CVE column
+ */
+export function advisoryIdentifiers(advisories: Advisory[]): string[] {
+  return [...new Set(advisories.flatMap(advisory => advisory.identifiers))];
+}
+
+/**
+ * Compare dotted versions numerically; a pre-release (`3.0.0-beta1`) sorts
+ * before its release
+ */
+export function compareVersions(a: string, b: string): number {
+  const [aRelease, aPre] = splitVersion(a);
+  const [bRelease, bPre] = splitVersion(b);
+
+  for (let index = 0; index < Math.max(aRelease.length, bRelease.length); index++) {
+    const difference = (aRelease[index] || 0) - (bRelease[index] || 0);
+    if (difference !== 0) return difference;
+  }
+
+  if (aPre === bPre) return 0;
+  if (!aPre) return 1;
+  if (!bPre) return -1;
+  return aPre.localeCompare(bPre, undefined, { numeric: true });
+}
+
+function splitVersion(version: string): [number[], string] {
+  const match = /^(\d+(?:\.\d+)*)(?:[-.]?(.*))?$/.exec(version.trim());
+  if (!match) return [[], version];
+  return [match[1].split('.').map(Number), match[2] || ''];
+}
+
+function withVersion(pattern: RegExp): RegExp {
+  return new RegExp(pattern.source.replace('<v>', VERSION_SOURCE), `${pattern.flags}g`);
+}
@@ -0,0 +1,82 @@
+/**
+ * Source positions and surrounding code snippets for matches
+ */
+
+// Characters of surrounding code kept on each side of a match
+export const CONTEXT_RADIUS = 80;
+
+// Longest stretch of a match kept inside the snippet
+export const MAX_CONTEXT_MATCH_LENGTH = 200;
+
+export interface SourceLocation {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export interface MatchContext {
+  context: string;
+  contextMatchStart: number;
+  contextMatchEnd: number;
+}
+
+/**
+ * Build a table of line start offsets so positions can be resolved
+ * without rescanning the content for every match
+ */
+export function buildLineIndex(content: string): number[] {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) {
+      lineStarts.push(i + 1);
+    }
+  }
+  return lineStarts;
+}
+
+/**
+ * Resolve a character offset to a 1-based line and column
+ */
+export function locateOffset(lineIndex: number[], offset: number): SourceLocation {
+  let low = 0;
+  let high = lineIndex.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineIndex[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return {
+    offset,
+    line: low + 1,
+    column: offset - lineIndex[low] + 1
+  };
+}
+
+/**
+ * Cut a bounded window of code around a match. Whitespace is flattened
+ * so the snippet renders on one line while keeping match positions intact.
+ */
+export function extractContext(content: string, offset: number, length: number, radius: number = CONTEXT_RADIUS): MatchContext {
+  const shownLength = Math.min(length, MAX_CONTEXT_MATCH_LENGTH);
+  const start = Math.max(0, offset - radius);
+  const end = Math.min(content.length, offset + shownLength + radius);
+
+  return {
+    context: content.substring(start, end).replace(/[\r\n\t]/g, ' '),
+    contextMatchStart: offset - start,
+    contextMatchEnd: offset - start + shownLength
+  };
+}
+
+/**
+ * Full text of the line containing an offset
+ */
+export function lineTextAt(content: string, offset: number): string {
+  const start = content.lastIndexOf('\n', offset - 1) + 1;
+  const end = content.indexOf('\n', offset);
+  return content.substring(start, end === -1 ? content.length : end).replace(/\r$/, '');
+}
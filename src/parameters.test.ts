@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { parseJavaScript } from './ast';
+import { extractHttpCalls } from './httpcalls';
+import { EndpointReference, extractParameters, queryParameterNames } from './parameters';
+
+const parametersIn = (content: string, endpoints: EndpointReference[] = []) => {
+  const program = parseJavaScript(content);
+  return extractParameters(program, extractHttpCalls(content, program), endpoints)
+    .map(parameter => `${parameter.name} ${parameter.locations.join(',')} ${parameter.endpoints.join(',') || '-'}`);
+};
+
+describe('queryParameterNames', () => {
+  it('decodes the names and ignores the fragment', () => {
+    expect(queryParameterNames('/search?q=test&page%5Bsize%5D=10&flag#tab=1')).toEqual(['q', 'page[size]', 'flag']);
+    expect(queryParameterNames('/search')).toEqual([]);
+    expect(queryParameterNames('/search?%E0%A4%A=1')).toEqual(['%E0%A4%A']);
+  });
+});
+
+describe('extractParameters', () => {
+  it('reads query strings of endpoint findings under their route template', () => {
+    const endpoints = [
+      { url: '/api/users/42?include=orders&fields=id', offset: 0, length: 38 },
+      { url: '/api/users/7?include=profile', offset: 50, length: 28 }
+    ];
+
+    expect(parametersIn('', endpoints)).toEqual(['include query /api/users/{id}', 'fields query /api/users/{id}']);
+  });
+
+  it('reads the query, body and header keys of HTTP calls', () => {
+    const content = [
+      'fetch("/api/login?next=/home", { method: "POST", headers: { "X-CSRF-Token": token }, body: JSON.stringify({ username, password }) });',
+      'axios.get("/api/search", { params: { q: term, page } });'
+    ].join('\n');
+
+    expect(parametersIn(content)).toEqual([
+      'next query POST /api/login',
+      'username body POST /api/login',
+      'password body POST /api/login',
+      'X-CSRF-Token header POST /api/login',
+      'q query GET /api/search',
+      'page query GET /api/search'
+    ]);
+  });
+
+  it('reads URLSearchParams keys as a query, or as a body when sent', () => {
+    const content = [
+      'const filters = new URLSearchParams({ sort: "asc", limit: 10 });',
+      'const form = new URLSearchParams();',
+      'form.set("grant_type", "password");',
+      'fetch("/oauth/token", { method: "POST", body: form });'
+    ].join('\n');
+
+    expect(parametersIn(content)).toEqual(['sort query -', 'limit query -', 'grant_type body POST /oauth/token']);
+  });
+
+  it('reads FormData fields sent to a call', () => {
+    const content = [
+      'const data = new FormData();',
+      'data.append("avatar", file);',
+      'data.append("userId", id);',
+      'axios.post("/api/users/" + id + "/avatar", data);'
+    ].join('\n');
+
+    expect(parametersIn(content)).toEqual(['avatar form POST /api/users/{id}/avatar', 'userId form POST /api/users/{id}/avatar']);
+  });
+
+  it('reads searchParams.set calls on a URL object', () => {
+    const content = [
+      'const url = new URL("https://api.example.com/v1/export?format=csv");',
+      'url.searchParams.set("from", start);',
+      'url.searchParams.append("to", end);',
+      'other.set("ignored", 1);'
+    ].join('\n');
+
+    expect(parametersIn(content)).toEqual(['from query https://api.example.com/v1/export', 'to query https://api.example.com/v1/export']);
+  });
+
+  it('merges the locations and endpoints of a name and skips non-names', () => {
+    const content = [
+      'fetch("/api/items?id=1");',
+      'fetch("/api/items", { method: "PUT", body: JSON.stringify({ id, "{{placeholder}}": 1, "two words": 2 }) });'
+    ].join('\n');
+
+    expect(parametersIn(content)).toEqual(['id query,body GET /api/items,PUT /api/items']);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Parameter name harvesting from query strings, HTTP call bodies and
+ * headers, URLSearchParams and FormData usage
+ */
+
+import { simple } from 'acorn-walk';
+import { AnyNode, Program } from 'acorn';
+import { HttpCall } from './httpcalls';
+import { routeTemplate } from './routes';
+import {
+  resolveStringExpression,
+  staticReferenceName,
+  getObjectKeys,
+  calleeParts,
+  IdentifierResolver
+} from './ast';
+
+export type ParameterLocation = 'query' | 'body' | 'form' | 'header';
+
+export interface DiscoveredParameter {
+  name: string;
+  locations: ParameterLocation[];
+  // Endpoints the parameter was sent to, when known
+  endpoints: string[];
+  // First occurrence
+  offset: number;
+  length: number;
+}
+
+export interface EndpointReference {
+  url: string;
+  offset: number;
+  length: number;
+}
+
+// Anything else (placeholders, whitespace, long blobs) is not a parameter name
+const PARAMETER_NAME_REGEX = /^[A-Za-z_$][\w$.\-\[\]]{0,63}$/;
+
+type Container = { kind: ParameterLocation; endpoint?: string } | { kind: 'url'; endpoint: string };
+
+/**
+ * Collect parameter names per file, merging every location and endpoint a
+ * name is seen with
+ */
+export function extractParameters(
+  program: Program | null,
+  calls: HttpCall[],
+  endpoints: EndpointReference[],
+  resolve?: IdentifierResolver
+): DiscoveredParameter[] {
+  const parameters = new Map<string, DiscoveredParameter>();
+
+  const add = (name: string, location: ParameterLocation, url: string | undefined, offset: number, length: number) => {
+    if (!PARAMETER_NAME_REGEX.test(name)) return;
+
+    // Linked to the same template the endpoint finding is reported under
+    const endpoint = url ? routeTemplate(url) : undefined;
+
+    const parameter = parameters.get(name);
+    if (!parameter) {
+      parameters.set(name, { name, locations: [location], endpoints: endpoint ? [endpoint] : [], offset, length });
+      return;
+    }
+    if (!parameter.locations.includes(location)) parameter.locations.push(location);
+    if (endpoint && !parameter.endpoints.includes(endpoint)) parameter.endpoints.push(endpoint);
+  };
+
+  for (const endpoint of endpoints) {
+    for (const name of queryParameterNames(endpoint.url)) {
+      add(name, 'query', stripQuery(endpoint.url), endpoint.offset, endpoint.length);
+    }
+  }
+
+  // Variables passed as a request body, keyed by name
+  const bodyTargets = new Map<string, string>();
+
+  for (const call of calls) {
+    const endpoint = `${call.method} ${stripQuery(call.url)}`;
+    for (const name of [...queryParameterNames(call.url), ...call.queryKeys]) {
+      add(name, 'query', endpoint, call.offset, call.length);
+    }
+    for (const name of call.bodyKeys) {
+      add(name, 'body', endpoint, call.offset, call.length);
+    }
+    for (const name of call.headers) {
+      add(name, 'header', endpoint, call.offset, call.length);
+    }
+    if (call.bodyRef) {
+      bodyTargets.set(call.bodyRef, endpoint);
+    }
+  }
+
+  if (!program) {
+    return [...parameters.values()];
+  }
+
+  const containers = new Map<string, Container>();
+
+  const bindContainer = (name: string | null, init: AnyNode | null | undefined) => {
+    if (!name || !init || init.type !== 'NewExpression' || init.callee.type !== 'Identifier') return;
+
+    const arg = init.arguments[0];
+    switch (init.callee.name) {
+      case 'FormData':
+        containers.set(name, { kind: 'form', endpoint: bodyTargets.get(name) });
+        break;
+      case 'URLSearchParams':
+        // Sent as a form-encoded body when passed to a call, otherwise a query string
+        containers.set(name, { kind: bodyTargets.has(name) ? 'body' : 'query', endpoint: bodyTargets.get(name) });
+        break;
+      case 'URL':
+        if (arg && arg.type !== 'SpreadElement') {
+          const url = resolveStringExpression(arg, resolve);
+          if (url.hasLiteral) containers.set(name, { kind: 'url', endpoint: stripQuery(url.value) });
+        }
+        break;
+    }
+  };
+
+  simple(program, {
+    VariableDeclarator(node) {
+      if (node.id.type === 'Identifier') bindContainer(node.id.name, node.init);
+    },
+    AssignmentExpression(node) {
+      bindContainer(staticReferenceName(node.left), node.right);
+    },
+    NewExpression(node) {
+      // new URLSearchParams({ q, page })
+      if (node.callee.type === 'Identifier' && node.callee.name === 'URLSearchParams') {
+        for (const name of getObjectKeys(node.arguments[0])) {
+          add(name, 'query', undefined, node.start, node.end - node.start);
+        }
+      }
+    },
+    CallExpression(node) {
+      const { property } = calleeParts(node.callee);
+      if (node.callee.type !== 'MemberExpression' || (property !== 'append' && property !== 'set')) return;
+
+      const nameArg = node.arguments[0];
+      if (!nameArg || nameArg.type !== 'Literal' || typeof nameArg.value !== 'string') return;
+
+      // url.searchParams.set('q', ...)
+      const receiver = node.callee.object;
+      if (receiver.type === 'MemberExpression' && !receiver.computed &&
+          receiver.property.type === 'Identifier' && receiver.property.name === 'searchParams') {
+        const owner = containers.get(staticReferenceName(receiver.object) || '');
+        add(nameArg.value, 'query', owner?.endpoint, node.start, node.end - node.start);
+        return;
+      }
+
+      // formData.append('file', ...) / params.set('page', ...)
+      const container = containers.get(staticReferenceName(receiver) || '');
+      if (container && container.kind !== 'url') {
+        add(nameArg.value, container.kind, container.endpoint, node.start, node.end - node.start);
+      }
+    }
+  });
+
+  return [...parameters.values()];
+}
+
+/**
+ * Parameter names in the query string of a URL or path
+ */
+export function queryParameterNames(url: string): string[] {
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1) return [];
+
+  return url
+    .substring(queryStart + 1)
+    .replace(/#.*$/, '')
+    .split('&')
+    .map(pair => {
+      const name = pair.split('=')[0];
+      try {
+        return decodeURIComponent(name);
+      } catch {
+        return name;
+      }
+    })
+    .filter(Boolean);
+}
+
+function stripQuery(url: string): string {
+  return url.replace(/[?#].*$/, '');
+}
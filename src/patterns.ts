@@ -2,31 +2,81 @@
  * Regex patterns for detecting various types of sensitive information in JavaScript files
  */
 
+import { SecretCharset, extractSecretValue } from './entropy';
+import { PROVIDER_PATTERNS, hasValidGitHubChecksum } from './providers';
+import { lineTextAt } from './location';
+
+export type PatternType = 'endpoint' | 'secret' | 'email' | 'ip';
+
+export type Severity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
 export interface PatternConfig {
   name: string;
   regex: RegExp;
-  type: 'endpoint' | 'secret' | 'email' | 'ip';
+  type: PatternType;
   description: string;
+  // Fixed severity; otherwise derived from type and name
+  severity?: Severity;
+  // Severity pinned in the pattern settings; wins over every later adjustment
+  severityOverride?: Severity;
+  // Service the secret belongs to, used to group findings
+  provider?: string;
+  // Shape-only secret pattern; its hits inside a more specific secret match are dropped
+  generic?: boolean;
+  // Offline structural check (checksum, decoded length...); a passing hit is marked format-valid
+  validate?: (value: string) => boolean;
+  // Secret matches below this Shannon entropy (bits/char) are dropped
+  minEntropy?: number;
+  // Secret matches below this entropy are kept but demoted to low severity
+  demoteEntropy?: number;
+  // Charsets that can never be this secret (e.g. hex build hashes)
+  rejectCharsets?: SecretCharset[];
+  // Match is a `key: value` assignment; entropy is measured on the value only
+  keyValue?: boolean;
+  // Prefilter: the pattern only runs on files containing one of these (lowercase) words
+  keywords?: string[];
+  // Capture group holding the secret; the finding reports it instead of the whole match
+  secretGroup?: number;
+  // Matches hitting any of these allowlists are discarded
+  allowlists?: PatternAllowlist[];
+  // Shorter matches are ignored; defaults to DEFAULT_MIN_LENGTH for the type
+  minLength?: number;
 }
 
-// Patterns to exclude (false positives)
-export const EXCLUSION_PATTERNS = [
-  /demo/i,
-  /test/i,
-  /sample/i,
-  /todo/i,
-  /example/i,
-  /placeholder/i,
-  /localhost/i,
-  /127\.0\.0\.1/,
-  /0\.0\.0\.0/,
-  /\bfoo\b/i,
-  /\bbar\b/i,
-  /\bbaz\b/i,
-  /\bdummy\b/i,
-  /\bmock\b/i,
-  /\bfake\b/i
-];
+// Matches shorter than this are noise for the type
+export const DEFAULT_MIN_LENGTH: { [type: string]: number } = {
+  secret: 8,
+  endpoint: 5
+};
+
+export type AllowlistTarget = 'secret' | 'match' | 'line';
+
+export interface PatternAllowlist {
+  regexes?: RegExp[];
+  // Part of the finding the regexes are tested against; defaults to the secret
+  regexTarget?: AllowlistTarget;
+  stopwords?: string[];
+  // Tested against the URL of the scanned file
+  paths?: RegExp[];
+  // 'or': any criterion allowlists the match; 'and': every criterion given must
+  condition?: 'or' | 'and';
+}
+
+export interface AllowlistCandidate {
+  secret: string;
+  match: string;
+  line: string;
+  fileUrl: string;
+}
+
+export interface PatternMatch {
+  pattern: PatternConfig;
+  // Reported value: the secret group, quotes stripped
+  value: string;
+  // Whole regex match, highlighted in the context
+  match: string;
+  offset: number;
+}
 
 export const DETECTION_PATTERNS: PatternConfig[] = [
   // API Endpoints
@@ -36,6 +86,24 @@ export const DETECTION_PATTERNS: PatternConfig[] = [
     type: 'endpoint',
     description: 'Absolute HTTP/HTTPS URLs'
   },
+  {
+    name: 'WebSocket URLs',
+    regex: /\bwss?:\/\/[^\s"'<>\[\]{}|\\^`]+/gi,
+    type: 'endpoint',
+    description: 'Absolute ws:// and wss:// WebSocket URLs',
+    // Realtime channels often skip the per-message authorization HTTP routes get
+    severity: 'high',
+    keywords: ['ws://', 'wss://']
+  },
+  {
+    name: 'Non-HTTP Scheme URLs',
+    // Bundler and browser-internal schemes only point at the client itself;
+    // database and bucket URIs are reported as connection strings and buckets
+    regex: /(?<![a-z0-9+.\-])(?!(?:https?|wss?|webpack|webpack-internal|chrome-extension|moz-extension|safari-extension|mongodb(?:\+srv)?|mysql|postgresql|redis|s3|gs):\/\/)[a-z][a-z0-9+.\-]{1,31}:\/\/[^\s"'<>\[\]{}|\\^`]+/gi,
+    type: 'endpoint',
+    description: 'URLs with other schemes: ftp://, custom app schemes',
+    keywords: ['://']
+  },
   {
     name: 'Relative API Paths',
     regex: /\/[a-zA-Z0-9_\-\/\.]+(?:\?[^\s"'<>\[\]{}|\\^`]*)?(?=#|$|[\s"'<>\[\]{}|\\^`])/g,
@@ -52,15 +120,23 @@ export const DETECTION_PATTERNS: PatternConfig[] = [
   // AWS Keys and Tokens
   {
     name: 'AWS Access Key',
-    regex: /AKIA[0-9A-Z]{16}/g,
+    regex: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g,
     type: 'secret',
-    description: 'AWS Access Key ID'
+    description: 'AWS Access Key ID',
+    provider: 'AWS',
+    // Key IDs are base32 after the prefix
+    validate: key => /^[A-Z2-7]{16}$/.test(key.substring(4))
   },
   {
     name: 'AWS Secret Key',
     regex: /[A-Za-z0-9\/+=]{40}/g,
     type: 'secret',
-    description: 'Potential AWS Secret Access Key (40 chars)'
+    generic: true,
+    description: 'Potential AWS Secret Access Key (40 chars)',
+    provider: 'AWS',
+    minEntropy: 4.2,
+    demoteEntropy: 4.6,
+    rejectCharsets: ['hex', 'numeric', 'alpha']
   },
 
   // Google API Keys
@@ -68,29 +144,35 @@ export const DETECTION_PATTERNS: PatternConfig[] = [
     name: 'Google API Key',
     regex: /AIza[0-9A-Za-z\-_]{35}/g,
     type: 'secret',
-    description: 'Google API Key'
+    description: 'Google API Key',
+    provider: 'Google'
   },
 
   // Slack Tokens
   {
     name: 'Slack Token',
-    regex: /xox[baprs]-[0-9A-Za-z]{10,48}/g,
+    regex: /xox[baprs]-[0-9A-Za-z]{10,48}(?:-[0-9A-Za-z]{10,48}){0,3}/g,
     type: 'secret',
-    description: 'Slack API Token'
+    description: 'Slack API Token',
+    provider: 'Slack',
+    // Issued tokens are numeric team / user ids followed by the random part
+    validate: token => /^xox[baprs]-(?:\d{10,13}-){1,3}[0-9A-Za-z]{24,48}$/.test(token)
   },
 
   // Stripe Keys
   {
     name: 'Stripe Live Key',
-    regex: /sk_live_[0-9a-zA-Z]{24}/g,
+    regex: /sk_live_[0-9a-zA-Z]{24,99}/g,
     type: 'secret',
-    description: 'Stripe Live Secret Key'
+    description: 'Stripe Live Secret Key',
+    provider: 'Stripe'
   },
   {
     name: 'Stripe Publishable Key',
-    regex: /pk_live_[0-9a-zA-Z]{24}/g,
+    regex: /pk_live_[0-9a-zA-Z]{24,99}/g,
     type: 'secret',
-    description: 'Stripe Live Publishable Key'
+    description: 'Stripe Live Publishable Key',
+    provider: 'Stripe'
   },
 
   // GitHub Tokens
@@ -98,19 +180,27 @@ export const DETECTION_PATTERNS: PatternConfig[] = [
     name: 'GitHub Personal Access Token',
     regex: /ghp_[0-9A-Za-z]{36}/g,
     type: 'secret',
-    description: 'GitHub Personal Access Token'
+    description: 'GitHub Personal Access Token',
+    provider: 'GitHub',
+    validate: hasValidGitHubChecksum
   },
   {
     name: 'GitHub OAuth Token',
     regex: /gho_[0-9A-Za-z]{36}/g,
     type: 'secret',
-    description: 'GitHub OAuth Token'
+    description: 'GitHub OAuth Token',
+    provider: 'GitHub',
+    validate: hasValidGitHubChecksum
   },
 
+  // Provider secret pack
+  ...PROVIDER_PATTERNS,
+
   // JWT Tokens
   {
     name: 'JWT Token',
-    regex: /eyJ[A-Za-z0-9\-_]{10,}\.[A-Za-z0-9\-_]{10,}\.[A-Za-z0-9\-_]{5,}/g,
+    // Unsigned (alg: none) tokens end with an empty signature
+    regex: /eyJ[A-Za-z0-9\-_]{10,}\.[A-Za-z0-9\-_]{10,}\.(?:[A-Za-z0-9\-_]{5,})?/g,
     type: 'secret',
     description: 'JSON Web Token (JWT)'
   },
@@ -120,13 +210,17 @@ export const DETECTION_PATTERNS: PatternConfig[] = [
     name: 'Generic API Key',
     regex: /["']?[a-zA-Z0-9_\-]*[aA][pP][iI][_\-]?[kK][eE][yY]["']?\s*[:=]\s*["']?[a-zA-Z0-9_\-]{16,}["']?/g,
     type: 'secret',
-    description: 'Generic API key patterns'
+    generic: true,
+    description: 'Generic API key patterns',
+    minEntropy: 3.0,
+    demoteEntropy: 3.5,
+    keyValue: true
   },
 
   // Database Connection Strings
   {
     name: 'Database Connection String',
-    regex: /(mongodb|mysql|postgresql|redis):\/\/[^\s"'<>\[\]{}|\\^`]+/gi,
+    regex: /(mongodb(?:\+srv)?|mysql|postgresql|redis):\/\/[^\s"'<>\[\]{}|\\^`]+/gi,
     type: 'secret',
     description: 'Database connection strings'
   },
@@ -184,21 +278,137 @@ export const DETECTION_PATTERNS: PatternConfig[] = [
     name: 'Generic Secret/Password',
     regex: /["']?(?:secret|password|passwd|pwd|token|key)["']?\s*[:=]\s*["'][^"'\s]{8,}["']/gi,
     type: 'secret',
-    description: 'Generic secret/password patterns'
+    generic: true,
+    description: 'Generic secret/password patterns',
+    minEntropy: 2.5,
+    demoteEntropy: 3.2,
+    keyValue: true
   },
   {
     name: 'Base64 Encoded Data',
     regex: /["'][A-Za-z0-9+\/]{40,}={0,2}["']/g,
     type: 'secret',
-    description: 'Potential Base64 encoded secrets'
+    generic: true,
+    description: 'Potential Base64 encoded secrets',
+    minEntropy: 4.0,
+    demoteEntropy: 4.5,
+    rejectCharsets: ['hex', 'numeric', 'alpha']
   }
 ];
 
 /**
- * Check if a match should be excluded based on exclusion patterns
+ * Run patterns over a file, applying each one's keyword prefilter, secret
+ * group, allowlists and minimum length. A pattern that throws is handed to
+ * `onError` and skipped so it cannot take down the others. Generic secret
+ * hits falling inside a specific secret match (a JWT payload slice read as
+ * an AWS secret key) are dropped.
+ */
+export function matchPatterns(
+  patterns: PatternConfig[],
+  content: string,
+  fileUrl: string,
+  onError?: (pattern: PatternConfig, error: unknown) => void
+): PatternMatch[] {
+  const lowerContent = content.toLowerCase();
+  const matches: PatternMatch[] = [];
+
+  for (const pattern of patterns) {
+    if (!hasPatternKeyword(pattern, lowerContent)) continue;
+
+    let found: RegExpMatchArray[];
+    try {
+      found = [...content.matchAll(pattern.regex)];
+    } catch (error) {
+      onError?.(pattern, error);
+      continue;
+    }
+
+    for (const match of found) {
+      const value = patternSecret(pattern, match).replace(/["']/g, '').trim();
+      const offset = match.index ?? 0;
+      if (value.length < minimumLength(pattern)) continue;
+      if (pattern.allowlists && isAllowlisted(pattern, {
+        secret: value,
+        match: match[0],
+        line: lineTextAt(content, offset),
+        fileUrl
+      })) {
+        continue;
+      }
+
+      matches.push({ pattern, value, match: match[0], offset });
+    }
+  }
+
+  const specific = matches.filter(match => match.pattern.type === 'secret' && !match.pattern.generic);
+  return matches.filter(match => !match.pattern.generic || !specific.some(owner => containsValue(owner, match)));
+}
+
+// Whether the secret carried by `inner` sits within the whole match of `outer`
+function containsValue(outer: PatternMatch, inner: PatternMatch): boolean {
+  const secret = extractSecretValue(inner.pattern, inner.match).replace(/^["']|["']$/g, '');
+  const valueIndex = inner.match.lastIndexOf(secret);
+  const start = inner.offset + Math.max(valueIndex, 0);
+  const end = valueIndex >= 0 ? start + secret.length : inner.offset + inner.match.length;
+  return start >= outer.offset && end <= outer.offset + outer.match.length;
+}
+
+/**
+ * Minimum match length for a pattern
+ */
+export function minimumLength(pattern: PatternConfig): number {
+  return pattern.minLength ?? DEFAULT_MIN_LENGTH[pattern.type] ?? 0;
+}
+
+/**
+ * Whether a pattern's keyword prefilter lets it run on a file. `lowerContent`
+ * is the file content lowercased once by the caller.
+ */
+export function hasPatternKeyword(pattern: PatternConfig, lowerContent: string): boolean {
+  if (!pattern.keywords || pattern.keywords.length === 0) {
+    return true;
+  }
+  return pattern.keywords.some(keyword => lowerContent.includes(keyword));
+}
+
+/**
+ * The part of a match reported as the finding's value
+ */
+export function patternSecret(pattern: PatternConfig, match: RegExpMatchArray): string {
+  if (pattern.secretGroup === undefined) {
+    return match[0];
+  }
+  return match[pattern.secretGroup] || match[0];
+}
+
+/**
+ * Check a candidate against a pattern's allowlists
  */
-export function shouldExclude(match: string): boolean {
-  return EXCLUSION_PATTERNS.some(pattern => pattern.test(match));
+export function isAllowlisted(pattern: PatternConfig, candidate: AllowlistCandidate): boolean {
+  return (pattern.allowlists || []).some(allowlist => {
+    const target = candidate[allowlist.regexTarget || 'secret'];
+    const checks: boolean[] = [];
+
+    if (allowlist.regexes && allowlist.regexes.length > 0) {
+      checks.push(allowlist.regexes.some(regex => testRegex(regex, target)));
+    }
+    if (allowlist.stopwords && allowlist.stopwords.length > 0) {
+      const secret = candidate.secret.toLowerCase();
+      checks.push(allowlist.stopwords.some(word => secret.includes(word.toLowerCase())));
+    }
+    if (allowlist.paths && allowlist.paths.length > 0) {
+      checks.push(allowlist.paths.some(regex => testRegex(regex, candidate.fileUrl)));
+    }
+
+    if (checks.length === 0) return false;
+    return allowlist.condition === 'and' ? checks.every(Boolean) : checks.some(Boolean);
+  });
+}
+
+// `test` on a global regex is stateful; always start from the beginning
+function testRegex(regex: RegExp, value: string): boolean {
+  regex.lastIndex = 0;
+  return regex.test(value);
 }
 
 /**
@@ -220,7 +430,16 @@ export function getMatchTypeColor(type: string): string {
     'endpoint': '#2ecc71',
     'secret': '#e74c3c',
     'email': '#3498db',
-    'ip': '#f39c12'
+    'ip': '#f39c12',
+    'parameter': '#8e44ad',
+    'graphql': '#e10098',
+    'bucket': '#16a085',
+    'host': '#d35400',
+    'route': '#2c3e50',
+    'config': '#7f8c8d',
+    'library': '#c0392b',
+    'sink': '#e67e22',
+    'postmessage': '#9b59b6'
   };
   return colors[type] || '#34495e';
 }
\ No newline at end of file
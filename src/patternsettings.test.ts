@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { DETECTION_PATTERNS } from './patterns';
+import { applyPatternSettings, normalizePatternSettings, InvalidSettingsError } from './patternsettings';
+
+describe('applyPatternSettings', () => {
+  it('drops disabled patterns', () => {
+    const patterns = applyPatternSettings(DETECTION_PATTERNS, { 'Email Address': { enabled: false } });
+
+    expect(patterns.some(pattern => pattern.name === 'Email Address')).toBe(false);
+    expect(patterns).toHaveLength(DETECTION_PATTERNS.length - 1);
+  });
+
+  it('pins the severity instead of replacing the default', () => {
+    const [pattern] = applyPatternSettings(
+      DETECTION_PATTERNS.filter(candidate => candidate.name === 'WebSocket URLs'),
+      { 'WebSocket URLs': { severity: 'info', minLength: 12 } }
+    );
+
+    expect(pattern.severityOverride).toBe('info');
+    expect(pattern.severity).toBe('high');
+    expect(pattern.minLength).toBe(12);
+  });
+
+  it('leaves patterns without settings untouched', () => {
+    expect(applyPatternSettings(DETECTION_PATTERNS, {})).toEqual(DETECTION_PATTERNS);
+  });
+});
+
+describe('normalizePatternSettings', () => {
+  it('drops fields left at their defaults', () => {
+    expect(normalizePatternSettings({ enabled: true })).toEqual({});
+    expect(normalizePatternSettings({ enabled: false, severity: 'low', minLength: 0 })).toEqual({ enabled: false, severity: 'low', minLength: 0 });
+  });
+
+  it('rejects unknown severities and invalid lengths', () => {
+    expect(() => normalizePatternSettings({ severity: 'urgent' as never })).toThrow(InvalidSettingsError);
+    expect(() => normalizePatternSettings({ minLength: -1 })).toThrow(InvalidSettingsError);
+    expect(() => normalizePatternSettings({ minLength: 2.5 })).toThrow(InvalidSettingsError);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Per-pattern enable/disable, severity and minimum length overrides
+ */
+
+import { PatternConfig, Severity } from './patterns';
+
+export const PATTERN_SETTINGS_STORAGE_KEY = 'js-hunter.pattern-settings';
+
+const SEVERITIES: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+export interface PatternSettings {
+  enabled?: boolean;
+  severity?: Severity;
+  minLength?: number;
+}
+
+// Keyed by pattern name, for built-in and custom patterns alike
+export interface PatternSettingsMap {
+  [patternName: string]: PatternSettings;
+}
+
+export class InvalidSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSettingsError';
+  }
+}
+
+/**
+ * Check an override and drop fields left at their defaults
+ */
+export function normalizePatternSettings(settings: PatternSettings): PatternSettings {
+  const normalized: PatternSettings = {};
+
+  if (settings.enabled === false) {
+    normalized.enabled = false;
+  }
+
+  if (settings.severity !== undefined && settings.severity !== null) {
+    if (!SEVERITIES.includes(settings.severity)) {
+      throw new InvalidSettingsError(`Unknown severity "${settings.severity}", expected one of ${SEVERITIES.join(', ')}`);
+    }
+    normalized.severity = settings.severity;
+  }
+
+  if (settings.minLength !== undefined && settings.minLength !== null) {
+    if (!Number.isInteger(settings.minLength) || settings.minLength < 0) {
+      throw new InvalidSettingsError(`Minimum length must be a whole number, got "${settings.minLength}"`);
+    }
+    normalized.minLength = settings.minLength;
+  }
+
+  return normalized;
+}
+
+/**
+ * Drop disabled patterns and apply severity and minimum length overrides.
+ * The severity is pinned rather than used as a starting point, so entropy,
+ * JWT and exposure adjustments cannot move it.
+ */
+export function applyPatternSettings(patterns: PatternConfig[], settings: PatternSettingsMap): PatternConfig[] {
+  return patterns
+    .filter(pattern => settings[pattern.name]?.enabled !== false)
+    .map(pattern => {
+      const override = settings[pattern.name];
+      if (!override) return pattern;
+      return {
+        ...pattern,
+        severityOverride: override.severity,
+        minLength: override.minLength ?? pattern.minLength
+      };
+    });
+}
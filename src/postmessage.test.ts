@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { parseJavaScript } from './ast';
+import { extractMessageHandlers, findMessageListeners, messageHandlerSeverity } from './postmessage';
+import { extractSinks } from './sinks';
+
+const handlersIn = (content: string) => {
+  const program = parseJavaScript(content);
+  return extractMessageHandlers(content, findMessageListeners(program), extractSinks(content, program));
+};
+
+describe('extractMessageHandlers', () => {
+  it('classifies missing, weak and strict origin checks', () => {
+    const content = [
+      'window.addEventListener("message", function (e) { render(e.data); });',
+      'window.addEventListener("message", function (e) { if (e.origin.indexOf("example.com") > -1) render(e.data); });',
+      'window.addEventListener("message", function (e) { if (/example\\.com$/.test(e.origin)) render(e.data); });',
+      'window.addEventListener("message", function (e) { if (e.origin !== "https://example.com") return; render(e.data); });',
+      'window.addEventListener("message", function (e) { if (!/^https:\\/\\/example\\.com$/.test(e.origin)) return; render(e.data); });'
+    ].join('\n');
+
+    expect(handlersIn(content).map(handler => handler.originCheck)).toEqual(['none', 'weak', 'weak', 'strict', 'strict']);
+  });
+
+  it('finds named, bound and jQuery handlers but not socket listeners', () => {
+    const content = [
+      'function onMessage(event) { if (event.origin === ALLOWED) go(event.data); }',
+      'window.addEventListener("message", onMessage);',
+      'class Bridge { listen() { window.addEventListener("message", this.receive.bind(this)); } receive(e) {} }',
+      '$(window).on("message", function (e) { if (e.originalEvent.origin.startsWith("https://app")) run(); });',
+      'socket.addEventListener("message", function (e) { render(e.data); });'
+    ].join('\n');
+
+    expect(handlersIn(content).map(handler => `${handler.registration} ${handler.originCheck}`)).toEqual([
+      'window.addEventListener("message") strict',
+      'window.addEventListener("message") none',
+      '$(window).on("message") weak'
+    ]);
+  });
+
+  it('lists what the handler does with the message data', () => {
+    const content = [
+      'window.onmessage = function (e) {',
+      '  var payload = JSON.parse(e.data);',
+      '  document.getElementById("out").innerHTML = payload.html;',
+      '  location.href = e.data.next;',
+      '  eval(e.data.code);',
+      '};'
+    ].join('\n');
+    const [handler] = handlersIn(content);
+
+    expect(handler.actions).toEqual(['eval', 'navigation', 'dom-write']);
+    expect(messageHandlerSeverity(handler)).toBe('critical');
+  });
+
+  it('reports storage writes of message data without making them DOM sinks', () => {
+    const content = [
+      'window.addEventListener("message", function ({ data }) {',
+      '  const token = data.token;',
+      '  localStorage.setItem("token", token);',
+      '  document.cookie = "session=" + data.session;',
+      '});',
+      'localStorage.setItem("theme", location.hash);',
+      'sessionStorage[key] = document.referrer;'
+    ].join('\n');
+    const program = parseJavaScript(content);
+
+    expect(extractSinks(content, program)).toEqual([]);
+    expect(handlersIn(content).map(handler => handler.actions)).toEqual([['storage']]);
+  });
+
+  it('ignores storage writes of values other than the message data', () => {
+    const content = 'window.addEventListener("message", function (e) { if (e.origin === ORIGIN) localStorage.setItem("seen", Date.now()); });';
+    const [handler] = handlersIn(content);
+
+    expect(handler.actions).toEqual([]);
+    expect(messageHandlerSeverity(handler)).toBe('info');
+  });
+});
@@ -0,0 +1,444 @@
+/**
+ * postMessage handlers: `message` listeners, the origin check guarding each
+ * one and what it does with the message data
+ */
+
+import { ancestor, recursive, simple } from 'acorn-walk';
+import { AnyNode, Function as FunctionNode, Node, Program, Property } from 'acorn';
+import { propertyKeyName, staticReferenceName } from './ast';
+import { DomSink, SinkKind } from './sinks';
+import { Severity } from './patterns';
+
+export type OriginCheck = 'none' | 'weak' | 'strict';
+export type MessageAction = 'eval' | 'navigation' | 'dom-write' | 'storage';
+
+export interface MessageListener {
+  handler: FunctionNode;
+  // `addEventListener("message", ...)` call or `onmessage` assignment
+  registration: Node;
+  // jQuery handlers read the message through `event.originalEvent`
+  jquery: boolean;
+}
+
+export interface MessageHandler {
+  // How the handler is registered, e.g. `window.addEventListener("message")`
+  registration: string;
+  originCheck: OriginCheck;
+  // Weakest origin comparison found, e.g. `e.origin.indexOf("example.com")`
+  originDetail?: string;
+  // What the handler does with the message data
+  actions: MessageAction[];
+  // Handler source on one line, shortened
+  summary: string;
+  // Handler source as written, up to a few hundred characters
+  snippet: string;
+  offset: number;
+  length: number;
+}
+
+export const MESSAGE_DATA_SOURCE = 'postMessage data';
+
+export const ORIGIN_CHECK_LABELS: { [check in OriginCheck]: string } = {
+  none: 'no origin check',
+  weak: 'weak origin check',
+  strict: 'strict origin check'
+};
+
+export const MESSAGE_HANDLER_PATTERN_NAMES: { [check in OriginCheck]: string } = {
+  none: 'Message Handler Without Origin Check',
+  weak: 'Message Handler With Weak Origin Check',
+  strict: 'Message Handler With Origin Check'
+};
+
+const SINK_ACTIONS: { [kind in SinkKind]: MessageAction } = {
+  script: 'eval',
+  navigation: 'navigation',
+  html: 'dom-write'
+};
+
+const MAX_SNIPPET_LENGTH = 600;
+const MAX_SUMMARY_LENGTH = 160;
+const MAX_DETAIL_LENGTH = 120;
+
+// Web storage writes are not DOM sinks, but persisting message data lets a
+// framing page plant values the application trusts on its next load
+const STORAGE_SETTERS = ['localStorage.setItem', 'sessionStorage.setItem'];
+const STORAGE_OBJECTS = ['localStorage', 'sessionStorage'];
+
+// Receivers whose `message` events come from sockets, workers or channels,
+// where the origin means nothing
+const NON_WINDOW_REGEX = /socket|^ws$|worker|port|channel|eventsource|^es$|^sse$|stream|connection|^conn$|peer|broadcast/i;
+
+// Origin tests that match any origin containing or ending with the text
+const SUBSTRING_METHODS = ['indexOf', 'lastIndexOf', 'includes', 'startsWith', 'endsWith'];
+// Allow-list lookups with the origin as the argument
+const MEMBERSHIP_METHODS = ['includes', 'indexOf', 'has'];
+
+/**
+ * Functions registered as window `message` listeners, including named
+ * functions and methods passed by reference or through `.bind(this)`
+ */
+export function findMessageListeners(program: Program | null): MessageListener[] {
+  if (!program) {
+    return [];
+  }
+
+  const functions = namedFunctions(program);
+  const listeners: MessageListener[] = [];
+
+  const add = (value: AnyNode | undefined, registration: Node, jquery: boolean) => {
+    const handler = value ? resolveHandler(value, functions) : null;
+    if (handler && !listeners.some(listener => listener.handler === handler)) {
+      listeners.push({ handler, registration, jquery });
+    }
+  };
+
+  simple(program, {
+    CallExpression(node) {
+      const event = node.arguments[0];
+      if (!event || event.type !== 'Literal' || event.value !== 'message') return;
+
+      const callee = node.callee;
+      if (callee.type === 'Identifier' && callee.name === 'addEventListener') {
+        add(node.arguments[1], node, false);
+      } else if (callee.type === 'MemberExpression' && memberName(callee) === 'addEventListener' && isWindowReceiver(callee.object)) {
+        add(node.arguments[1], node, false);
+      } else if (callee.type === 'MemberExpression' && memberName(callee) === 'on' && isJQueryWindow(callee.object)) {
+        // $(window).on("message", [selector,] handler)
+        add(node.arguments[node.arguments.length - 1], node, true);
+      }
+    },
+    AssignmentExpression(node) {
+      const left = node.left;
+      if ((left.type === 'Identifier' && left.name === 'onmessage') ||
+          (left.type === 'MemberExpression' && memberName(left) === 'onmessage' && isWindowReceiver(left.object))) {
+        add(node.right, node, false);
+      }
+    }
+  });
+
+  return listeners;
+}
+
+/**
+ * Names a listener reads a message property through: `e.data`,
+ * `e.originalEvent.origin`, or the local of a destructured `{ data }`
+ */
+export function messageEventNames(listener: MessageListener, property: 'data' | 'origin'): string[] {
+  const param = listener.handler.params[0];
+  if (!param) return [];
+
+  if (param.type === 'Identifier') {
+    return [listener.jquery ? `${param.name}.originalEvent.${property}` : `${param.name}.${property}`];
+  }
+  if (param.type === 'ObjectPattern' && !listener.jquery) {
+    return param.properties
+      .filter(entry => entry.type === 'Property' && !entry.computed && entry.key.type === 'Identifier' && entry.key.name === property)
+      .map(entry => entry.type === 'Property' && entry.value.type === 'Identifier' ? entry.value.name : null)
+      .filter((name): name is string => name !== null);
+  }
+  return [];
+}
+
+/**
+ * Classify every listener's origin check and list the sinks message data
+ * reaches inside it
+ */
+export function extractMessageHandlers(content: string, listeners: MessageListener[], sinks: DomSink[]): MessageHandler[] {
+  return listeners.map(listener => {
+    const { handler, registration } = listener;
+    const check = classifyOriginCheck(content, listener);
+
+    const actions = new Set<MessageAction>();
+    for (const sink of sinks) {
+      if (sink.source === MESSAGE_DATA_SOURCE && sink.offset >= handler.start && sink.offset < handler.end) {
+        actions.add(SINK_ACTIONS[sink.kind]);
+      }
+    }
+    if (writesMessageDataToStorage(listener)) {
+      actions.add('storage');
+    }
+
+    const code = content.substring(handler.start, handler.end).trim();
+    const summary = code.replace(/\s+/g, ' ');
+    return {
+      registration: describeRegistration(content, registration),
+      originCheck: check.check,
+      originDetail: check.detail,
+      actions: (['eval', 'navigation', 'dom-write', 'storage'] as MessageAction[]).filter(action => actions.has(action)),
+      summary: summary.length > MAX_SUMMARY_LENGTH ? `${summary.substring(0, MAX_SUMMARY_LENGTH)}…` : summary,
+      snippet: code.length > MAX_SNIPPET_LENGTH ? `${code.substring(0, MAX_SNIPPET_LENGTH)}…` : code,
+      offset: registration.start,
+      length: registration.end - registration.start
+    };
+  });
+}
+
+/**
+ * Unchecked handlers that evaluate message data are code execution for any
+ * page able to frame or open the target; a strict check leaves little
+ */
+export function messageHandlerSeverity(handler: MessageHandler): Severity {
+  if (handler.originCheck === 'strict') {
+    return handler.actions.length > 0 ? 'low' : 'info';
+  }
+  if (handler.actions.includes('eval')) return 'critical';
+  return handler.actions.length > 0 ? 'high' : 'medium';
+}
+
+/**
+ * The weakest origin test in the handler: substring or unanchored regex
+ * tests and custom helpers are weak, equality and allow-list lookups strict
+ */
+function classifyOriginCheck(content: string, listener: MessageListener): { check: OriginCheck; detail?: string } {
+  const origins = originNames(listener);
+  let check: OriginCheck = 'none';
+  let detail: string | undefined;
+
+  const isOrigin = (node: AnyNode): boolean => {
+    const name = staticReferenceName(node);
+    if (name && origins.has(name)) return true;
+    // new URL(e.origin).hostname
+    return node.type === 'MemberExpression' && node.object.type === 'NewExpression' &&
+      staticReferenceName(node.object.callee) === 'URL' && !!node.object.arguments[0] && isOrigin(node.object.arguments[0]);
+  };
+  const record = (found: OriginCheck, node: Node) => {
+    // A weak test anywhere is the one worth reporting
+    if (check === 'weak' || (check === 'strict' && found === 'strict')) return;
+    check = found;
+    const code = content.substring(node.start, node.end).replace(/\s+/g, ' ');
+    detail = code.length > MAX_DETAIL_LENGTH ? `${code.substring(0, MAX_DETAIL_LENGTH)}…` : code;
+  };
+
+  ancestor(listener.handler, {
+    BinaryExpression(node) {
+      if (['===', '==', '!==', '!='].includes(node.operator) && (isOrigin(node.left) || isOrigin(node.right))) {
+        record('strict', node);
+      }
+    },
+    CallExpression(node, _state, ancestors) {
+      const args = node.arguments;
+      const callee = node.callee;
+      const method = callee.type === 'MemberExpression' ? memberName(callee) : null;
+
+      if (callee.type === 'MemberExpression' && method && isOrigin(callee.object)) {
+        if (method === 'match' || method === 'search') {
+          record(args[0] ? regexCheck(args[0]) : 'weak', node);
+        } else if (SUBSTRING_METHODS.includes(method)) {
+          record('weak', node);
+        }
+        return;
+      }
+      if (!args.some(arg => isOrigin(arg))) return;
+
+      if (callee.type === 'MemberExpression' && method === 'test') {
+        record(regexCheck(callee.object), node);
+      } else if (method && MEMBERSHIP_METHODS.includes(method)) {
+        record('strict', node);
+      } else if (isCondition(node, ancestors as AnyNode[])) {
+        // if (isTrustedOrigin(e.origin)): unknown logic, worth a look
+        record('weak', node);
+      }
+    }
+  });
+
+  return { check, detail };
+}
+
+/**
+ * Origin references of a listener, plus locals copied from them and the
+ * `host`/`hostname` of a `new URL(origin)` local
+ */
+function originNames(listener: MessageListener): Set<string> {
+  const origins = new Set(messageEventNames(listener, 'origin'));
+
+  simple(listener.handler, {
+    VariableDeclarator(node) {
+      if (node.id.type !== 'Identifier' || !node.init) return;
+      const init = staticReferenceName(node.init);
+      if (init && origins.has(init)) {
+        origins.add(node.id.name);
+      } else if (node.init.type === 'NewExpression' && staticReferenceName(node.init.callee) === 'URL') {
+        const arg = node.init.arguments[0];
+        const argName = arg ? staticReferenceName(arg) : null;
+        if (argName && origins.has(argName)) {
+          for (const property of ['origin', 'host', 'hostname']) origins.add(`${node.id.name}.${property}`);
+        }
+      }
+    }
+  });
+
+  return origins;
+}
+
+/**
+ * Whether the handler passes message data, directly or through a local, to
+ * `localStorage`/`sessionStorage` or `document.cookie`
+ */
+function writesMessageDataToStorage(listener: MessageListener): boolean {
+  const names = new Set(messageEventNames(listener, 'data'));
+  let writes = false;
+
+  simple(listener.handler, {
+    VariableDeclarator(node) {
+      if (node.id.type === 'Identifier' && node.init && readsAny(node.init, names)) names.add(node.id.name);
+    },
+    CallExpression(node) {
+      const callee = staticReferenceName(node.callee);
+      const value = node.arguments[1];
+      if (callee && STORAGE_SETTERS.includes(globalName(callee)) && value && readsAny(value, names)) writes = true;
+    },
+    AssignmentExpression(node) {
+      if (node.left.type !== 'MemberExpression' || !readsAny(node.right, names)) return;
+      // document.cookie = ... / localStorage.token = ... / localStorage[key] = ...
+      const target = staticReferenceName(node.left);
+      const object = staticReferenceName(node.left.object);
+      if ((target && globalName(target) === 'document.cookie') || (object && STORAGE_OBJECTS.includes(globalName(object)))) {
+        writes = true;
+      }
+    }
+  });
+
+  return writes;
+}
+
+/**
+ * Whether an expression reads one of the names; function bodies inside it
+ * are code rather than data and are not searched
+ */
+function readsAny(node: AnyNode, names: Set<string>): boolean {
+  let found = false;
+
+  recursive(node, null, {
+    Function() {},
+    Identifier(identifier) {
+      if (names.has(identifier.name)) found = true;
+    },
+    MemberExpression(member, state, c) {
+      const name = staticReferenceName(member);
+      if (name && names.has(name)) {
+        found = true;
+        return;
+      }
+      c(member.object, state);
+      if (member.computed) c(member.property, state);
+    }
+  });
+
+  return found;
+}
+
+/**
+ * A regex literal anchored at both ends without an unescaped `.` is
+ * strict; anything else can be satisfied by an attacker-chosen domain
+ */
+function regexCheck(node: AnyNode): OriginCheck {
+  if (node.type !== 'Literal' || !node.regex) return 'weak';
+
+  // Escapes and character classes cannot hide an anchor or a wildcard dot
+  const pattern = node.regex.pattern.replace(/\\./g, 'x').replace(/\[[^\]]*\]/g, 'x');
+  const alternatives = /^\^\(.*\)\$$/.test(pattern) ? [pattern] : pattern.split('|');
+  return alternatives.every(alternative => alternative.startsWith('^') && alternative.endsWith('$')) && !pattern.includes('.')
+    ? 'strict'
+    : 'weak';
+}
+
+function isCondition(node: AnyNode, ancestors: AnyNode[]): boolean {
+  const parent = ancestors[ancestors.length - 2];
+  if (!parent) return false;
+  switch (parent.type) {
+    case 'IfStatement':
+    case 'ConditionalExpression':
+      return parent.test === node;
+    case 'UnaryExpression':
+      return parent.operator === '!';
+    case 'LogicalExpression':
+    case 'ReturnStatement':
+      return true;
+    default:
+      return false;
+  }
+}
+
+function describeRegistration(content: string, node: Node): string {
+  const registration = node as AnyNode;
+  const code = (target: Node) => content.substring(target.start, target.end).replace(/\s+/g, '');
+  if (registration.type === 'CallExpression') {
+    return `${code(registration.callee)}("message")`;
+  }
+  if (registration.type === 'AssignmentExpression') {
+    return `${code(registration.left)} =`;
+  }
+  return 'onmessage';
+}
+
+function globalName(name: string): string {
+  return name.replace(/^(?:window|self|globalThis)\./, '');
+}
+
+function isWindowReceiver(node: AnyNode): boolean {
+  if (node.type === 'NewExpression') return false;
+  const name = staticReferenceName(node);
+  return !name || !NON_WINDOW_REGEX.test(name.split('.').pop() || name);
+}
+
+function isJQueryWindow(node: AnyNode): boolean {
+  if (node.type !== 'CallExpression') return false;
+  const callee = staticReferenceName(node.callee);
+  const arg = node.arguments[0];
+  return (callee === '$' || callee === 'jQuery') && !!arg && arg.type === 'Identifier' && (arg.name === 'window' || arg.name === 'self');
+}
+
+function resolveHandler(node: AnyNode, functions: Map<string, FunctionNode | null>): FunctionNode | null {
+  if (node.type === 'FunctionExpression' || node.type === 'ArrowFunctionExpression') {
+    return node;
+  }
+  // handler.bind(this)
+  if (node.type === 'CallExpression' && node.callee.type === 'MemberExpression' && memberName(node.callee) === 'bind') {
+    return resolveHandler(node.callee.object, functions);
+  }
+  const name = node.type === 'Identifier' ? node.name : memberName(node);
+  return name ? functions.get(name) || null : null;
+}
+
+/**
+ * Functions by the name they are declared or assigned under; a name bound
+ * to several functions (common once minified) resolves to none
+ */
+function namedFunctions(program: Program): Map<string, FunctionNode | null> {
+  const functions = new Map<string, FunctionNode | null>();
+
+  const add = (name: string | null | undefined, value: AnyNode | null | undefined) => {
+    if (!name || !value || (value.type !== 'FunctionExpression' && value.type !== 'ArrowFunctionExpression' && value.type !== 'FunctionDeclaration')) {
+      return;
+    }
+    functions.set(name, functions.has(name) && functions.get(name) !== value ? null : value);
+  };
+
+  simple(program, {
+    FunctionDeclaration(node) {
+      add(node.id?.name, node);
+    },
+    VariableDeclarator(node) {
+      if (node.id.type === 'Identifier') add(node.id.name, node.init);
+    },
+    MethodDefinition(node) {
+      if (!node.computed && node.key.type === 'Identifier') add(node.key.name, node.value);
+    },
+    Property(node) {
+      add(propertyKeyName(node as Property), node.value);
+    },
+    AssignmentExpression(node) {
+      add(node.left.type === 'Identifier' ? node.left.name : memberName(node.left), node.right);
+    }
+  });
+
+  return functions;
+}
+
+function memberName(node: AnyNode): string | null {
+  if (node.type !== 'MemberExpression') return null;
+  if (!node.computed && node.property.type === 'Identifier') return node.property.name;
+  if (node.property.type === 'Literal' && typeof node.property.value === 'string') return node.property.value;
+  return null;
+}
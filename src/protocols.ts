@@ -0,0 +1,107 @@
+/**
+ * Endpoint protocols: URL schemes, WebSocket and EventSource connections
+ * and socket.io namespaces
+ */
+
+import { simple } from 'acorn-walk';
+import { CallExpression, NewExpression, Program } from 'acorn';
+import { resolveStringExpression, calleeParts, IdentifierResolver } from './ast';
+
+export type RealtimeClient = 'WebSocket' | 'EventSource' | 'Socket.IO';
+
+export interface RealtimeEndpoint {
+  client: RealtimeClient;
+  protocol: string;
+  url: string;
+  offset: number;
+  length: number;
+}
+
+// Realtime channels, where per-message authorization is often missing
+const WEBSOCKET_PROTOCOLS = ['ws', 'wss', 'socket.io'];
+
+// Constructors per client; polyfills and wrappers take the same URL argument
+const WEBSOCKET_CONSTRUCTORS = ['WebSocket', 'ReconnectingWebSocket'];
+const EVENTSOURCE_CONSTRUCTORS = ['EventSource', 'EventSourcePolyfill', 'NativeEventSource'];
+
+/**
+ * Lowercase scheme of an absolute endpoint (`wss`, `s3`, `myapp`...), with
+ * any `METHOD ` prefix ignored. Relative paths have none.
+ */
+export function endpointProtocol(value: string): string | undefined {
+  const scheme = /^(?:[A-Z]+ )?([a-z][a-z0-9+.\-]*):\/\//i.exec(value);
+  return scheme ? scheme[1].toLowerCase() : undefined;
+}
+
+export function isWebSocketProtocol(protocol: string | undefined): boolean {
+  return protocol !== undefined && WEBSOCKET_PROTOCOLS.includes(protocol);
+}
+
+/**
+ * Find `new WebSocket(url)`, `new EventSource(url)` and socket.io
+ * `io(url)` / `io.connect(url)` connections. Relative socket.io values are
+ * namespaces on the page origin.
+ */
+export function extractRealtimeEndpoints(program: Program | null, resolve?: IdentifierResolver): RealtimeEndpoint[] {
+  if (!program) {
+    return [];
+  }
+
+  const endpoints: RealtimeEndpoint[] = [];
+
+  const add = (client: RealtimeClient, node: CallExpression | NewExpression, allowEmpty = false) => {
+    const arg = node.arguments[0];
+    let url: string;
+    if (!arg || arg.type === 'SpreadElement' || arg.type === 'ObjectExpression') {
+      // io() and io({ ... }) connect to the default namespace
+      if (!allowEmpty) return;
+      url = '/';
+    } else {
+      const resolved = resolveStringExpression(arg, resolve);
+      if (!resolved.hasLiteral) return;
+      url = resolved.value;
+    }
+
+    endpoints.push({
+      client,
+      protocol: realtimeProtocol(client, endpointProtocol(url)),
+      url,
+      offset: node.start,
+      length: node.end - node.start
+    });
+  };
+
+  simple(program, {
+    NewExpression(node) {
+      const { property } = calleeParts(node.callee);
+      if (property && WEBSOCKET_CONSTRUCTORS.includes(property)) {
+        add('WebSocket', node);
+      } else if (property && EVENTSOURCE_CONSTRUCTORS.includes(property)) {
+        add('EventSource', node);
+      }
+    },
+    CallExpression(node) {
+      const { object, property } = calleeParts(node.callee);
+      if ((object === null && property === 'io') || (object === 'io' && property === 'connect')) {
+        add('Socket.IO', node, true);
+      }
+    }
+  });
+
+  return endpoints;
+}
+
+/**
+ * EventSource streams are reported as `sse` and socket.io as `socket.io`
+ * whatever their scheme; a WebSocket is secure over `wss` or `https`
+ */
+function realtimeProtocol(client: RealtimeClient, scheme: string | undefined): string {
+  switch (client) {
+    case 'EventSource':
+      return 'sse';
+    case 'Socket.IO':
+      return 'socket.io';
+    case 'WebSocket':
+      return scheme === 'wss' || scheme === 'https' ? 'wss' : 'ws';
+  }
+}
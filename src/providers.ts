@@ -0,0 +1,417 @@
+/**
+ * Provider secret detectors with offline structural validation
+ */
+
+import { PatternConfig } from './patterns';
+import { decodeBase64 } from './decoder';
+
+const BASE62_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+let crcTable: number[] | null = null;
+
+/**
+ * CRC-32 (IEEE) of an ASCII string
+ */
+export function crc32(value: string): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable.push(c >>> 0);
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < value.length; i++) {
+    crc = crcTable[(crc ^ value.charCodeAt(i)) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function encodeBase62(value: number): string {
+  let encoded = '';
+  do {
+    encoded = BASE62_ALPHABET[value % 62] + encoded;
+    value = Math.floor(value / 62);
+  } while (value > 0);
+  return encoded;
+}
+
+/**
+ * Modern GitHub tokens end in a 6 character base62 CRC32 of the 30 random
+ * characters before it
+ */
+export function hasValidGitHubChecksum(token: string): boolean {
+  const body = token.substring(token.indexOf('_') + 1);
+  if (body.length !== 36) {
+    return false;
+  }
+  return encodeBase62(crc32(body.substring(0, 30))).padStart(6, '0') === body.substring(30);
+}
+
+// Base64 text that decodes to exactly `bytes` bytes
+function decodesToBytes(value: string, bytes: number): boolean {
+  const decoded = decodeBase64(value);
+  return decoded !== null && decoded.length === bytes;
+}
+
+// PEM blocks in bundles usually carry escaped `\n` line breaks
+function hasPemBody(block: string): boolean {
+  const body = block
+    .replace(/-----(?:BEGIN|END) [A-Z ]+-----/g, '')
+    .replace(/\\[nr]/g, '\n')
+    .split('\n')
+    .filter(line => !/^[\w-]+:/.test(line.trim()))
+    .join('')
+    .replace(/\s+/g, '');
+  return /^[A-Za-z0-9+\/=]{64,}$/.test(body);
+}
+
+export const PROVIDER_PATTERNS: PatternConfig[] = [
+  // Private keys
+  {
+    name: 'Private Key (PEM)',
+    regex: /-----BEGIN ((?:RSA |EC |DSA |OPENSSH |ENCRYPTED |PGP )?PRIVATE KEY(?: BLOCK)?)-----[\s\S]{16,12000}?-----END \1-----/g,
+    type: 'secret',
+    description: 'PEM encoded private key',
+    provider: 'PEM',
+    validate: hasPemBody
+  },
+
+  // GitHub
+  {
+    name: 'GitHub App Token',
+    regex: /\bgh[us]_[0-9A-Za-z]{36}\b/g,
+    type: 'secret',
+    description: 'GitHub App user-to-server or server-to-server token',
+    provider: 'GitHub',
+    validate: hasValidGitHubChecksum
+  },
+  {
+    name: 'GitHub Refresh Token',
+    regex: /\bghr_[0-9A-Za-z]{36}\b/g,
+    type: 'secret',
+    description: 'GitHub App refresh token',
+    provider: 'GitHub',
+    validate: hasValidGitHubChecksum
+  },
+  {
+    name: 'GitHub Fine-grained Token',
+    regex: /\bgithub_pat_[0-9A-Za-z]{22}_[0-9A-Za-z]{59}\b/g,
+    type: 'secret',
+    description: 'GitHub fine-grained personal access token',
+    provider: 'GitHub'
+  },
+
+  // GitLab
+  {
+    name: 'GitLab Personal Access Token',
+    regex: /\bglpat-[0-9A-Za-z_\-]{20}\b/g,
+    type: 'secret',
+    description: 'GitLab personal access token',
+    provider: 'GitLab'
+  },
+  {
+    name: 'GitLab Runner Token',
+    regex: /\bglrt-[0-9A-Za-z_\-]{20}\b/g,
+    type: 'secret',
+    description: 'GitLab runner authentication token',
+    provider: 'GitLab'
+  },
+  {
+    name: 'GitLab Deploy Token',
+    regex: /\bgldt-[0-9A-Za-z_\-]{20}\b/g,
+    type: 'secret',
+    description: 'GitLab deploy token',
+    provider: 'GitLab'
+  },
+
+  // Package registries
+  {
+    name: 'npm Access Token',
+    regex: /\bnpm_[0-9A-Za-z]{36}\b/g,
+    type: 'secret',
+    description: 'npm granular or automation access token',
+    provider: 'npm'
+  },
+  {
+    name: 'PyPI API Token',
+    regex: /\bpypi-AgEIcHlwaS5vcmc[0-9A-Za-z_\-]{50,}/g,
+    type: 'secret',
+    description: 'PyPI upload token',
+    provider: 'PyPI',
+    // The whole body must decode as a v2 macaroon located at pypi.org
+    validate: token => (decodeBase64(token.substring(5)) || '').startsWith('\x02\x01\x08pypi.org')
+  },
+
+  // Messaging and email
+  {
+    name: 'Twilio API Key',
+    regex: /\bSK[0-9a-f]{32}\b/g,
+    type: 'secret',
+    description: 'Twilio API key SID',
+    provider: 'Twilio'
+  },
+  {
+    name: 'Twilio Account SID',
+    regex: /\bAC[0-9a-f]{32}\b/g,
+    type: 'secret',
+    description: 'Twilio account SID',
+    provider: 'Twilio',
+    severity: 'low'
+  },
+  {
+    name: 'SendGrid API Key',
+    regex: /\bSG\.[0-9A-Za-z_\-]{22}\.[0-9A-Za-z_\-]{43}\b/g,
+    type: 'secret',
+    description: 'SendGrid API key',
+    provider: 'SendGrid',
+    // Both parts are base64url: a 16 byte key id and a 32 byte secret
+    validate: key => {
+      const [, id, secret] = key.split('.');
+      return decodesToBytes(id, 16) && decodesToBytes(secret, 32);
+    }
+  },
+  {
+    name: 'Mailgun API Key',
+    regex: /\bkey-[0-9a-f]{32}\b/g,
+    type: 'secret',
+    description: 'Mailgun private API key',
+    provider: 'Mailgun'
+  },
+  {
+    name: 'Slack Webhook URL',
+    regex: /https:\/\/hooks\.slack\.com\/services\/T[A-Z0-9]{8,12}\/B[A-Z0-9]{8,12}\/[A-Za-z0-9]{24}/g,
+    type: 'secret',
+    description: 'Slack incoming webhook',
+    provider: 'Slack',
+    severity: 'high'
+  },
+  {
+    name: 'Discord Webhook URL',
+    regex: /https:\/\/(?:ptb\.|canary\.)?discord(?:app)?\.com\/api\/webhooks\/\d{17,20}\/[A-Za-z0-9_\-]{60,68}/g,
+    type: 'secret',
+    description: 'Discord webhook',
+    provider: 'Discord',
+    severity: 'high'
+  },
+  {
+    name: 'Telegram Bot Token',
+    regex: /\b\d{8,10}:AA[0-9A-Za-z_\-]{33}\b/g,
+    type: 'secret',
+    description: 'Telegram Bot API token',
+    provider: 'Telegram'
+  },
+
+  // Google / Firebase
+  {
+    name: 'Firebase Cloud Messaging Server Key',
+    regex: /\bAAAA[A-Za-z0-9_\-]{7}:APA91b[A-Za-z0-9_\-]{134}\b/g,
+    type: 'secret',
+    description: 'Firebase Cloud Messaging legacy server key',
+    provider: 'Firebase',
+    severity: 'high'
+  },
+  {
+    name: 'Firebase Realtime Database',
+    regex: /https:\/\/[a-z0-9\-]+(?:-default-rtdb)?\.(?:firebaseio\.com|firebasedatabase\.app)/g,
+    type: 'endpoint',
+    description: 'Firebase Realtime Database URL',
+    provider: 'Firebase'
+  },
+  {
+    name: 'reCAPTCHA Site Key',
+    regex: /\b6L[0-9A-Za-z_\-]{38}(?![0-9A-Za-z_\-])/g,
+    type: 'secret',
+    description: 'Google reCAPTCHA site or secret key',
+    provider: 'Google',
+    keywords: ['recaptcha', 'grecaptcha', 'sitekey']
+  },
+  {
+    name: 'GCP Service Account Key',
+    regex: /\\?"type\\?"\s*:\s*\\?"service_account\\?"[\s\S]{0,300}?\\?"private_key_id\\?"\s*:\s*\\?"([0-9a-f]{40})\\?"/g,
+    type: 'secret',
+    description: 'Google Cloud service account JSON key',
+    provider: 'Google Cloud',
+    secretGroup: 1,
+    severity: 'critical'
+  },
+
+  // Azure
+  {
+    name: 'Azure Storage Connection String',
+    regex: /DefaultEndpointsProtocol=https?;AccountName=[a-z0-9]{3,24};AccountKey=[A-Za-z0-9+\/]{86}==(?:;EndpointSuffix=[a-z0-9.]+)?/g,
+    type: 'secret',
+    description: 'Azure Storage account connection string',
+    provider: 'Azure',
+    severity: 'critical',
+    // Account keys are 64 random bytes
+    validate: value => {
+      const key = /AccountKey=([^;]+)/.exec(value);
+      return key !== null && decodesToBytes(key[1], 64);
+    }
+  },
+  {
+    name: 'Azure SAS Token',
+    regex: /\bsv=\d{4}-\d{2}-\d{2}&[^\s"'<>`]{0,300}?\bsig=[A-Za-z0-9%+\/=]{40,}/g,
+    type: 'secret',
+    description: 'Azure shared access signature',
+    provider: 'Azure',
+    // The signature is a base64 HMAC-SHA256
+    validate: value => {
+      const sig = /\bsig=([^&]+)/.exec(value);
+      if (!sig) return false;
+      try {
+        return decodesToBytes(decodeURIComponent(sig[1]), 32);
+      } catch {
+        return false;
+      }
+    }
+  },
+
+  // Commerce and payments
+  {
+    name: 'Stripe Restricted Key',
+    regex: /\brk_live_[0-9a-zA-Z]{24,99}\b/g,
+    type: 'secret',
+    description: 'Stripe live restricted API key',
+    provider: 'Stripe'
+  },
+  {
+    name: 'Shopify Access Token',
+    regex: /\bshp(?:at|ca|pa|ss)_[a-fA-F0-9]{32}\b/g,
+    type: 'secret',
+    description: 'Shopify app, custom app, private app or shared secret token',
+    provider: 'Shopify'
+  },
+  {
+    name: 'Square Access Token',
+    regex: /\b(?:EAAA[A-Za-z0-9_\-]{60}|sq0atp-[0-9A-Za-z_\-]{22})\b/g,
+    type: 'secret',
+    description: 'Square access token',
+    provider: 'Square'
+  },
+  {
+    name: 'Square OAuth Secret',
+    regex: /\bsq0csp-[0-9A-Za-z_\-]{43}\b/g,
+    type: 'secret',
+    description: 'Square OAuth application secret',
+    provider: 'Square',
+    severity: 'high'
+  },
+  {
+    name: 'PayPal Braintree Access Token',
+    regex: /\baccess_token\$production\$[0-9a-z]{16}\$[0-9a-f]{32}\b/g,
+    type: 'secret',
+    description: 'PayPal Braintree production access token',
+    provider: 'PayPal'
+  },
+
+  // Hosting and infrastructure
+  {
+    name: 'Heroku API Key',
+    regex: /\bHRKU-[0-9A-Za-z_\-]{60}\b/g,
+    type: 'secret',
+    description: 'Heroku platform API key',
+    provider: 'Heroku'
+  },
+  {
+    name: 'DigitalOcean Token',
+    regex: /\bdo[opr]_v1_[a-f0-9]{64}\b/g,
+    type: 'secret',
+    description: 'DigitalOcean personal access, OAuth or refresh token',
+    provider: 'DigitalOcean'
+  },
+  {
+    name: 'Vault Service Token',
+    regex: /\bhvs\.[A-Za-z0-9_\-]{24,}/g,
+    type: 'secret',
+    description: 'HashiCorp Vault service token',
+    provider: 'HashiCorp'
+  },
+  {
+    name: 'Doppler Token',
+    regex: /\bdp\.(?:pt|st|sa|ct|scim|audit)\.[A-Za-z0-9]{40,44}\b/g,
+    type: 'secret',
+    description: 'Doppler personal, service or CLI token',
+    provider: 'Doppler'
+  },
+  {
+    name: 'Databricks Token',
+    regex: /\bdapi[a-f0-9]{32}(?:-\d)?\b/g,
+    type: 'secret',
+    description: 'Databricks personal access token',
+    provider: 'Databricks'
+  },
+
+  // AI providers
+  {
+    name: 'OpenAI API Key',
+    regex: /\bsk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_\-]{20,}T3BlbkFJ[A-Za-z0-9_\-]{20,}/g,
+    type: 'secret',
+    description: 'OpenAI API key',
+    provider: 'OpenAI'
+  },
+  {
+    name: 'Anthropic API Key',
+    regex: /\bsk-ant-(?:api03|admin01)-[A-Za-z0-9_\-]{93}AA\b/g,
+    type: 'secret',
+    description: 'Anthropic API key',
+    provider: 'Anthropic'
+  },
+  {
+    name: 'Hugging Face Token',
+    regex: /\bhf_[A-Za-z]{34}\b/g,
+    type: 'secret',
+    description: 'Hugging Face access token',
+    provider: 'Hugging Face'
+  },
+
+  // Developer tools and monitoring
+  {
+    name: 'Sentry DSN',
+    regex: /https?:\/\/[0-9a-f]{32}(?::[0-9a-f]{32})?@[a-z0-9.\-]+(?::\d+)?\/\d+/g,
+    type: 'secret',
+    description: 'Sentry client DSN',
+    provider: 'Sentry',
+    severity: 'low'
+  },
+  {
+    name: 'Postman API Key',
+    regex: /\bPMAK-[a-f0-9]{24}-[a-f0-9]{34}\b/g,
+    type: 'secret',
+    description: 'Postman API key',
+    provider: 'Postman'
+  },
+  {
+    name: 'New Relic User API Key',
+    regex: /\bNRAK-[A-Z0-9]{27}\b/g,
+    type: 'secret',
+    description: 'New Relic user API key',
+    provider: 'New Relic'
+  },
+  {
+    name: 'Atlassian API Token',
+    regex: /\bATATT3[A-Za-z0-9_\-=]{186}\b/g,
+    type: 'secret',
+    description: 'Atlassian API token',
+    provider: 'Atlassian'
+  },
+  {
+    name: 'Linear API Key',
+    regex: /\blin_api_[A-Za-z0-9]{40}\b/g,
+    type: 'secret',
+    description: 'Linear personal API key',
+    provider: 'Linear'
+  },
+  {
+    name: 'Mapbox Secret Token',
+    regex: /\bsk\.eyJ[A-Za-z0-9_\-]{50,}\.[A-Za-z0-9_\-]{20,}/g,
+    type: 'secret',
+    description: 'Mapbox secret access token',
+    provider: 'Mapbox'
+  }
+];
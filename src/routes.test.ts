@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ROUTE_SAMPLES, RouteFinding, collapseRoutes, mergeRoute, routeTemplate, templateSegment } from './routes';
+
+const endpoint = (matchValue: string, extra: Partial<RouteFinding> = {}): RouteFinding => ({ matchType: 'endpoint', matchValue, ...extra });
+
+describe('templateSegment', () => {
+  it('replaces numbers, UUIDs, hashes and dates', () => {
+    expect(templateSegment('42')).toBe('{id}');
+    expect(templateSegment('3f2504e0-4f89-11d3-9a0c-0305e82c3301')).toBe('{id}');
+    expect(templateSegment('507f1f77bcf86cd799439011')).toBe('{id}');
+    expect(templateSegment('2024-03-15')).toBe('{date}');
+    expect(templateSegment('20240315')).toBe('{date}');
+  });
+
+  it('keeps words, long hex-letter words and file extensions', () => {
+    expect(templateSegment('users')).toBe('users');
+    expect(templateSegment('v2')).toBe('v2');
+    expect(templateSegment('deadbeefcafebabeface')).toBe('deadbeefcafebabeface');
+    expect(templateSegment('123.json')).toBe('{id}.json');
+    expect(templateSegment('app.js')).toBe('app.js');
+  });
+});
+
+describe('routeTemplate', () => {
+  it('templates only the path', () => {
+    expect(routeTemplate('https://api.example.com:8443/users/42/orders/7?page=2#12')).toBe('https://api.example.com:8443/users/{id}/orders/{id}?page=2#12');
+    expect(routeTemplate('//cdn.example.com/1234/logo.png')).toBe('//cdn.example.com/{id}/logo.png');
+  });
+
+  it('keeps the method prefix of HTTP call values', () => {
+    expect(routeTemplate('DELETE /api/items/99')).toBe('DELETE /api/items/{id}');
+  });
+});
+
+describe('collapseRoutes', () => {
+  it('merges endpoints sharing a template and keeps the concrete values as samples', () => {
+    const results = collapseRoutes([
+      endpoint('/users/1'),
+      { matchType: 'secret', matchValue: 'sk_live_x' },
+      endpoint('/users/2'),
+      endpoint('/users/{id}'),
+      endpoint('/users/me')
+    ]);
+
+    expect(results).toEqual([
+      endpoint('/users/{id}', { samples: ['/users/1', '/users/2'] }),
+      { matchType: 'secret', matchValue: 'sk_live_x' },
+      endpoint('/users/me')
+    ]);
+  });
+
+  it('collapses kept and excluded endpoints separately', () => {
+    const exclusion = { rule: 'test-file' };
+    const results = collapseRoutes([endpoint('/items/1'), endpoint('/items/2', { exclusion }), endpoint('/items/3')]);
+
+    expect(results.map(result => [result.matchValue, result.samples, !!result.exclusion])).toEqual([
+      ['/items/{id}', ['/items/1', '/items/3'], false],
+      ['/items/{id}', ['/items/2'], true]
+    ]);
+  });
+
+  it('caps the samples', () => {
+    const results = collapseRoutes(Array.from({ length: MAX_ROUTE_SAMPLES + 5 }, (_, index) => endpoint(`/orders/${index}`)));
+
+    expect(results).toHaveLength(1);
+    expect(results[0].samples).toHaveLength(MAX_ROUTE_SAMPLES);
+  });
+});
+
+describe('mergeRoute', () => {
+  it('adds the samples of a template found again to the recorded finding', () => {
+    const recorded = [endpoint('/users/{id}', { samples: ['/users/1'] })];
+
+    expect(mergeRoute(recorded, endpoint('/users/{id}', { samples: ['/users/1', '/users/7'] }))).toBe(true);
+    expect(recorded).toEqual([endpoint('/users/{id}', { samples: ['/users/1', '/users/7'] })]);
+  });
+
+  it('leaves new templates and plain endpoints to be recorded', () => {
+    const recorded = [endpoint('/users/{id}', { samples: ['/users/1'] }), endpoint('/api/login')];
+
+    expect(mergeRoute(recorded, endpoint('/orders/{id}', { samples: ['/orders/2'] }))).toBe(false);
+    expect(mergeRoute(recorded, endpoint('/api/login'))).toBe(false);
+  });
+});
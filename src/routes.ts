@@ -0,0 +1,106 @@
+/**
+ * Normalize endpoints into route templates such as `/users/{id}/orders`
+ */
+
+// Concrete examples kept under each template
+export const MAX_ROUTE_SAMPLES = 10;
+
+export interface RouteFinding {
+  matchType: string;
+  matchValue: string;
+  // Concrete values collapsed into the template
+  samples?: string[];
+  exclusion?: unknown;
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Hex digests and object ids; the digit keeps long hex-letter words out
+const HASH_REGEX = /^(?=[a-f]*\d)[0-9a-f]{16,}$/i;
+const DATE_REGEX = /^(?:19|20)\d{2}(-?)(?:0[1-9]|1[0-2])\1(?:0[1-9]|[12]\d|3[01])(?:T[\d:.]+Z?)?$/;
+const NUMBER_REGEX = /^\d+$/;
+
+/**
+ * Placeholder for a variable path segment, or the segment unchanged.
+ * A file extension is kept, so `123.json` becomes `{id}.json`.
+ */
+export function templateSegment(segment: string): string {
+  const extension = /^(.+?)(\.[a-z][a-z0-9]{0,4})$/i.exec(segment);
+  if (extension) {
+    const stem = templateSegment(extension[1]);
+    return stem === extension[1] ? segment : `${stem}${extension[2]}`;
+  }
+
+  if (DATE_REGEX.test(segment)) return '{date}';
+  if (NUMBER_REGEX.test(segment) || UUID_REGEX.test(segment) || HASH_REGEX.test(segment)) return '{id}';
+  return segment;
+}
+
+/**
+ * Template the path of an endpoint, leaving scheme, host, query and
+ * fragment alone. HTTP call values keep their `METHOD ` prefix.
+ */
+export function routeTemplate(value: string): string {
+  const parts = /^([A-Z]+ )?((?:[a-z][a-z0-9+.\-]*:)?\/\/[^\/?#]*)?([^?#]*)([\s\S]*)$/i.exec(value);
+  if (!parts) return value;
+
+  const [, method = '', origin = '', path, rest] = parts;
+  const template = path.split('/').map(templateSegment).join('/');
+  return `${method}${origin}${template}${rest}`;
+}
+
+/**
+ * Collapse endpoint findings that share a template into one finding whose
+ * value is the template and whose samples are the concrete values. Kept
+ * and filtered out findings are collapsed separately.
+ */
+export function collapseRoutes<T extends RouteFinding>(results: T[]): T[] {
+  const collapsed: T[] = [];
+  const byTemplate = new Map<string, T>();
+
+  for (const result of results) {
+    if (result.matchType !== 'endpoint') {
+      collapsed.push(result);
+      continue;
+    }
+
+    const template = routeTemplate(result.matchValue);
+    const concrete = [result.matchValue, ...(result.samples || [])].filter(value => value !== template);
+    const key = `${result.exclusion ? 'excluded' : 'kept'} ${template}`;
+    const existing = byTemplate.get(key);
+
+    if (existing) {
+      existing.samples = addSamples(existing.samples, concrete);
+      continue;
+    }
+
+    const route = { ...result, matchValue: template, samples: addSamples(undefined, concrete) };
+    byTemplate.set(key, route);
+    collapsed.push(route);
+  }
+
+  return collapsed;
+}
+
+/**
+ * Fold a templated endpoint from another file into the recorded finding
+ * with the same template, adding its samples. Returns false when there is
+ * nothing to fold it into.
+ */
+export function mergeRoute<T extends RouteFinding>(recorded: T[], result: T): boolean {
+  if (result.matchType !== 'endpoint' || !result.samples) return false;
+
+  const existing = recorded.find(r => r.matchType === 'endpoint' && r.matchValue === result.matchValue);
+  if (!existing) return false;
+
+  existing.samples = addSamples(existing.samples, result.samples);
+  return true;
+}
+
+function addSamples(samples: string[] | undefined, values: string[]): string[] | undefined {
+  const merged = [...(samples || [])];
+  for (const value of values) {
+    if (merged.length >= MAX_ROUTE_SAMPLES) break;
+    if (!merged.includes(value)) merged.push(value);
+  }
+  return merged.length > 0 ? merged : undefined;
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { RuleImportError, detectRuleFormat, importRules, parseToml, parseYaml, translateGoRegex } from './ruleimport';
+
+describe('parseToml', () => {
+  it('reads arrays of tables, dotted keys and every string form', () => {
+    const config = parseToml([
+      'title = "rules" # trailing comment',
+      '',
+      '[[rules]]',
+      "id = 'literal'",
+      'regex = \'\'\'(?i)key\\s*=\\s*"([a-z]+)"\'\'\'',
+      'entropy = 3.5',
+      'keywords = [',
+      '  "key", # comment inside an array',
+      '  "token",',
+      ']',
+      'allowlist.stopwords = ["example"]',
+      '',
+      '[[rules]]',
+      'id = "basic"',
+      'description = """',
+      'Line one \\',
+      '  continued\\tescaped"""',
+      'meta = { enabled = true, group = 0x10 }'
+    ].join('\n'));
+
+    expect(config).toEqual({
+      title: 'rules',
+      rules: [
+        {
+          id: 'literal',
+          regex: '(?i)key\\s*=\\s*"([a-z]+)"',
+          entropy: 3.5,
+          keywords: ['key', 'token'],
+          allowlist: { stopwords: ['example'] }
+        },
+        { id: 'basic', description: 'Line one continued\tescaped', meta: { enabled: true, group: 16 } }
+      ]
+    });
+  });
+
+  it('adds sub-tables to the last entry of an array of tables', () => {
+    const config = parseToml('[[rules]]\nid = "a"\n[[rules]]\nid = "b"\n[rules.allowlist]\npaths = ["vendor"]');
+
+    expect(config.rules).toEqual([{ id: 'a' }, { id: 'b', allowlist: { paths: ['vendor'] } }]);
+  });
+
+  it('reports the line of a syntax error', () => {
+    expect(() => parseToml('[[rules]]\nid = "a"\nregex = "unterminated')).toThrow(new RuleImportError('TOML line 3: unterminated string'));
+    expect(() => parseToml('id = "a" "b"')).toThrow(/TOML line 1: expected end of line/);
+  });
+});
+
+describe('parseYaml', () => {
+  it('reads nested mappings, sequences and scalars', () => {
+    const config = parseYaml([
+      'detectors:',
+      '- name: HogTokenDetector  # comment',
+      '  keywords:',
+      '    - hog',
+      "    - 'piggy'",
+      '  regex:',
+      '    hogID: \'\\bhog_[a-z]{8}\\b\'',
+      '    token: "\\\\btk_[0-9]+"',
+      '  exclude_words: [test, "demo, sample"]',
+      '  verify: false',
+      '  entropy: 3',
+      '  missing: ~'
+    ].join('\n'));
+
+    expect(config).toEqual({
+      detectors: [{
+        name: 'HogTokenDetector',
+        keywords: ['hog', 'piggy'],
+        regex: { hogID: '\\bhog_[a-z]{8}\\b', token: '\\btk_[0-9]+' },
+        exclude_words: ['test', 'demo, sample'],
+        verify: false,
+        entropy: 3,
+        missing: null
+      }]
+    });
+  });
+
+  it('keeps block scalars verbatim', () => {
+    const config = parseYaml('literal: |\n  first # not a comment\n    indented\nfolded: >-\n  one\n  two\nafter: x');
+
+    expect(config).toEqual({ literal: 'first # not a comment\n  indented\n', folded: 'one two', after: 'x' });
+  });
+
+  it('reports the line of a syntax error', () => {
+    expect(() => parseYaml('detectors:\n  - name: a\n    keywords\n')).toThrow(/YAML line 3: expected "key: value"/);
+    expect(() => parseYaml("name: 'open")).toThrow(/YAML line 1: unterminated string/);
+  });
+});
+
+describe('translateGoRegex', () => {
+  it('turns RE2 syntax into a JavaScript source and flags', () => {
+    expect(translateGoRegex('(?i)\\Aapi[[:digit:]_]{4}(?P<key>[[:xdigit:]]+)\\z')).toEqual({
+      source: '^api[0-9_]{4}(?<key>[0-9A-Fa-f]+)$',
+      flags: 'i'
+    });
+    expect(translateGoRegex('\\Qa.b(c)\\E\\x{41}[]a]').source).toBe('a\\.b\\(c\\)\\u0041[\\]a]');
+  });
+
+  it('rejects constructs JavaScript cannot express', () => {
+    expect(() => translateGoRegex('\\p{Greek}+')).toThrow(/Unicode class escape/);
+    expect(() => translateGoRegex('a(?i)b')).toThrow(/Inline flag group "\(\?i\)"/);
+    expect(() => translateGoRegex('(?U)a+')).toThrow(/Unsupported regex flag "U"/);
+  });
+});
+
+describe('importRules', () => {
+  it('detects the format', () => {
+    expect(detectRuleFormat('[[rules]]\nid = "a"')).toBe('gitleaks');
+    expect(detectRuleFormat('detectors:\n  - name: a')).toBe('trufflehog');
+    expect(() => detectRuleFormat('{"rules": []}')).toThrow(RuleImportError);
+  });
+
+  it('imports gitleaks rules with targeted global allowlists and lists failures', () => {
+    const report = importRules([
+      '[[allowlists]]',
+      'targetRules = ["acme-key"]',
+      'stopwords = ["example"]',
+      '',
+      '[[rules]]',
+      'id = "acme-key"',
+      'regex = \'\'\'acme_([a-z0-9]{16})\'\'\'',
+      'keywords = ["acme_"]',
+      '',
+      '[[rules]]',
+      'id = "env-file"',
+      'path = \'\'\'\\.env$\'\'\'',
+      '',
+      '[[rules]]',
+      'id = "unicode"',
+      'regex = \'\'\'\\p{L}+\'\'\''
+    ].join('\n'));
+
+    expect(report.format).toBe('gitleaks');
+    expect(report.patterns).toEqual([{
+      id: 'gitleaks-acme-key',
+      name: 'acme-key',
+      regex: 'acme_([a-z0-9]{16})',
+      flags: '',
+      type: 'secret',
+      severity: 'high',
+      description: 'gitleaks rule acme-key',
+      enabled: true,
+      keywords: ['acme_'],
+      secretGroup: 1,
+      allowlists: [{ stopwords: ['example'] }]
+    }]);
+    expect(report.failures.map(failure => failure.rule)).toEqual(['env-file', 'unicode']);
+    expect(report.failures[0].reason).toMatch(/Path-only rule/);
+  });
+
+  it('splits trufflehog detectors into one pattern per regex', () => {
+    const report = importRules([
+      'detectors:',
+      '  - name: Hog',
+      '    keywords: [hog]',
+      '    regex:',
+      '      id: hog_[a-z]{8}',
+      '      secret: hogsecret_([A-Za-z0-9]{20})',
+      '    exclude_regexes_capture: ["^0+$"]',
+      '    verify:',
+      '      - endpoint: https://example.com/verify'
+    ].join('\n'), { severity: 'medium' });
+
+    expect(report.patterns.map(pattern => [pattern.name, pattern.severity, pattern.secretGroup])).toEqual([
+      ['Hog (id)', 'medium', undefined],
+      ['Hog (secret)', 'medium', 1]
+    ]);
+    expect(report.patterns[0].allowlists).toEqual([{ regexes: ['/^0+$/'] }]);
+    expect(report.warnings).toEqual(['Hog: verification webhooks are not supported and were skipped']);
+  });
+});
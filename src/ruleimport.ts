@@ -0,0 +1,826 @@
+/**
+ * Import of gitleaks TOML rules and trufflehog custom detector YAML into
+ * custom detection patterns
+ */
+
+import { Severity, AllowlistTarget } from './patterns';
+import {
+  CustomPatternDefinition,
+  CustomAllowlistDefinition,
+  InvalidPatternError,
+  compileCustomPattern
+} from './custompatterns';
+
+export type RuleFormat = 'gitleaks' | 'trufflehog';
+
+export interface RuleImportFailure {
+  rule: string;
+  reason: string;
+}
+
+export interface RuleImportReport {
+  format: RuleFormat;
+  patterns: CustomPatternDefinition[];
+  failures: RuleImportFailure[];
+  warnings: string[];
+}
+
+export interface RuleImportOptions {
+  format?: RuleFormat;
+  // Neither tool assigns severities; imported rules get this one
+  severity?: Severity;
+}
+
+export class RuleImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleImportError';
+  }
+}
+
+type RuleValue = string | number | boolean | null | RuleValue[] | RuleTable;
+
+interface RuleTable {
+  [key: string]: RuleValue;
+}
+
+/**
+ * Translate a rule file into custom pattern definitions. Rules that cannot
+ * be expressed as a JavaScript pattern are listed in `failures` with the
+ * reason instead of aborting the whole import.
+ */
+export function importRules(content: string, options: RuleImportOptions = {}): RuleImportReport {
+  const format = options.format || detectRuleFormat(content);
+  const severity = options.severity || 'high';
+
+  return format === 'gitleaks'
+    ? importGitleaksRules(parseToml(content), severity)
+    : importTrufflehogDetectors(parseYaml(content), severity);
+}
+
+/**
+ * Tell gitleaks TOML from trufflehog YAML
+ */
+export function detectRuleFormat(content: string): RuleFormat {
+  if (/^\s*\[\[?(?:rules|allowlists?|extend)\b/m.test(content)) {
+    return 'gitleaks';
+  }
+  if (/^\s*detectors\s*:/m.test(content) || /^\s*-\s+name\s*:/m.test(content)) {
+    return 'trufflehog';
+  }
+  throw new RuleImportError('Unrecognized rule file; expected gitleaks TOML rules or trufflehog custom detector YAML');
+}
+
+function importGitleaksRules(config: RuleTable, severity: Severity): RuleImportReport {
+  const report: RuleImportReport = { format: 'gitleaks', patterns: [], failures: [], warnings: [] };
+
+  if (config.extend) {
+    report.warnings.push('[extend] is ignored; import the extended config separately');
+  }
+
+  // Global allowlists apply to every rule, or to the rules they target
+  const globalAllowlists = [...tableList(config.allowlist), ...tableList(config.allowlists)];
+
+  for (const rule of tableList(config.rules)) {
+    const id = stringValue(rule.id) || '(unnamed rule)';
+
+    try {
+      const regex = stringValue(rule.regex);
+      if (!regex) {
+        throw new InvalidPatternError(stringValue(rule.path)
+          ? 'Path-only rule; the plugin matches file content, not file names'
+          : 'Rule has no regex');
+      }
+
+      const translated = translateGoRegex(regex);
+      const allowlists = [
+        ...tableList(rule.allowlist),
+        ...tableList(rule.allowlists),
+        ...globalAllowlists.filter(allowlist => {
+          const targets = stringList(allowlist.targetRules);
+          return targets.length === 0 || targets.includes(id);
+        })
+      ].map(allowlist => translateAllowlist(allowlist, {
+        regexes: 'regexes',
+        stopwords: 'stopwords',
+        paths: 'paths'
+      }));
+
+      report.patterns.push(buildDefinition({
+        id: `gitleaks-${id}`,
+        name: id,
+        regex: translated.source,
+        flags: translated.flags,
+        type: 'secret',
+        severity,
+        description: stringValue(rule.description) || `gitleaks rule ${id}`,
+        enabled: true,
+        keywords: stringList(rule.keywords),
+        minEntropy: numberValue(rule.entropy),
+        secretGroup: numberValue(rule.secretGroup) || defaultSecretGroup(translated),
+        allowlists
+      }));
+    } catch (error) {
+      report.failures.push({ rule: id, reason: failureReason(error) });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Trufflehog detectors may combine several named regexes; each one becomes
+ * its own pattern sharing the detector's keywords and exclusions
+ */
+function importTrufflehogDetectors(config: RuleValue, severity: Severity): RuleImportReport {
+  const report: RuleImportReport = { format: 'trufflehog', patterns: [], failures: [], warnings: [] };
+  const detectors = Array.isArray(config) ? tableList(config) : tableList(isTable(config) ? config.detectors : null);
+
+  for (const detector of detectors) {
+    const name = stringValue(detector.name) || '(unnamed detector)';
+
+    if (detector.verify) {
+      report.warnings.push(`${name}: verification webhooks are not supported and were skipped`);
+    }
+
+    const regexes: [string, RuleValue][] = isTable(detector.regex)
+      ? Object.entries(detector.regex)
+      : [['regex', detector.regex]];
+    if (regexes.length === 0) {
+      report.failures.push({ rule: name, reason: 'Detector has no regex' });
+      continue;
+    }
+
+    let allowlists: CustomAllowlistDefinition[];
+    try {
+      allowlists = [
+        translateAllowlist(detector, { stopwords: 'exclude_words' }),
+        translateAllowlist(detector, { regexes: 'exclude_regexes_capture' }, 'secret'),
+        translateAllowlist(detector, { regexes: 'exclude_regexes_match' }, 'match')
+      ].filter(allowlist => allowlist.regexes || allowlist.stopwords);
+    } catch (error) {
+      report.failures.push({ rule: name, reason: failureReason(error) });
+      continue;
+    }
+
+    for (const [regexName, value] of regexes) {
+      const rule = regexes.length > 1 ? `${name} (${regexName})` : name;
+
+      try {
+        const regex = stringValue(value);
+        if (!regex) throw new InvalidPatternError(`Regex "${regexName}" is not a string`);
+
+        const translated = translateGoRegex(regex);
+        report.patterns.push(buildDefinition({
+          id: `trufflehog-${name}-${regexName}`,
+          name: rule,
+          regex: translated.source,
+          flags: translated.flags,
+          type: 'secret',
+          severity,
+          description: stringValue(detector.description) || `trufflehog detector ${name}`,
+          enabled: true,
+          keywords: stringList(detector.keywords),
+          minEntropy: numberValue(detector.entropy),
+          secretGroup: defaultSecretGroup(translated),
+          allowlists
+        }));
+      } catch (error) {
+        report.failures.push({ rule, reason: failureReason(error) });
+      }
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Drop empty optional fields and make sure the definition compiles
+ */
+function buildDefinition(definition: CustomPatternDefinition): CustomPatternDefinition {
+  if (!definition.keywords?.length) delete definition.keywords;
+  if (definition.minEntropy === undefined) delete definition.minEntropy;
+  if (definition.secretGroup === undefined) delete definition.secretGroup;
+  if (!definition.allowlists?.length) delete definition.allowlists;
+
+  compileCustomPattern(definition);
+  return definition;
+}
+
+function translateAllowlist(
+  table: RuleTable,
+  fields: { regexes?: string; stopwords?: string; paths?: string },
+  regexTarget?: AllowlistTarget
+): CustomAllowlistDefinition {
+  const toLiterals = (key: string | undefined) => {
+    if (!key) return undefined;
+    const literals = stringList(table[key]).map(source => {
+      const translated = translateGoRegex(source);
+      return `/${translated.source}/${translated.flags}`;
+    });
+    return literals.length > 0 ? literals : undefined;
+  };
+
+  const target = regexTarget || stringValue(table.regexTarget);
+  const condition = stringValue(table.condition)?.toLowerCase();
+  const stopwords = fields.stopwords ? stringList(table[fields.stopwords]) : [];
+
+  const allowlist: CustomAllowlistDefinition = {
+    regexes: toLiterals(fields.regexes),
+    regexTarget: target === 'match' || target === 'line' ? target : undefined,
+    stopwords: stopwords.length > 0 ? stopwords : undefined,
+    paths: toLiterals(fields.paths),
+    condition: condition === 'and' ? 'and' : undefined
+  };
+
+  for (const key of Object.keys(allowlist) as (keyof CustomAllowlistDefinition)[]) {
+    if (allowlist[key] === undefined) delete allowlist[key];
+  }
+  return allowlist;
+}
+
+// Both tools report the first capture group as the secret when there is one
+function defaultSecretGroup(translated: { source: string; flags: string }): number | undefined {
+  const groups = new RegExp(`${translated.source}|`, translated.flags).exec('')!.length - 1;
+  return groups > 0 ? 1 : undefined;
+}
+
+function failureReason(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// POSIX bracket classes supported by RE2
+const POSIX_CLASSES: { [name: string]: string } = {
+  alnum: 'A-Za-z0-9',
+  alpha: 'A-Za-z',
+  ascii: '\\x00-\\x7F',
+  blank: '\\t ',
+  cntrl: '\\x00-\\x1F\\x7F',
+  digit: '0-9',
+  graph: '!-~',
+  lower: 'a-z',
+  print: ' -~',
+  punct: '!-\\/:-@\\[-`{-~',
+  space: '\\t\\n\\v\\f\\r ',
+  upper: 'A-Z',
+  word: '\\w',
+  xdigit: '0-9A-Fa-f'
+};
+
+/**
+ * Translate a Go RE2 regex into a JavaScript source and flags. Leading
+ * `(?i)`-style flags become regex flags; constructs JavaScript cannot
+ * express throw InvalidPatternError.
+ */
+export function translateGoRegex(pattern: string): { source: string; flags: string } {
+  const flags = new Set<string>();
+  let source = '';
+  let inClass = false;
+  let i = 0;
+
+  const leading = /^\(\?([a-zA-Z]+)\)/.exec(pattern);
+  if (leading) {
+    for (const flag of leading[1]) {
+      if (!'ims'.includes(flag)) {
+        throw new InvalidPatternError(`Unsupported regex flag "${flag}"`);
+      }
+      flags.add(flag);
+    }
+    i = leading[0].length;
+  }
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      const next = pattern[i + 1];
+      if (next === undefined) throw new InvalidPatternError('Regex ends with a trailing backslash');
+
+      if (next === 'A' && !inClass) {
+        source += '^';
+        i += 2;
+      } else if (next === 'z' && !inClass) {
+        source += '$';
+        i += 2;
+      } else if (next === 'Q') {
+        const end = pattern.indexOf('\\E', i + 2);
+        const literal = pattern.substring(i + 2, end === -1 ? pattern.length : end);
+        source += literal.replace(/[\\^$.*+?()[\]{}|\/-]/g, '\\$&');
+        i = end === -1 ? pattern.length : end + 2;
+      } else if (next === 'x' && pattern[i + 2] === '{') {
+        const end = pattern.indexOf('}', i + 3);
+        const code = end === -1 ? NaN : parseInt(pattern.substring(i + 3, end), 16);
+        if (!(code <= 0xffff)) throw new InvalidPatternError(`Unsupported escape "${pattern.substring(i, end + 1)}"`);
+        source += `\\u${code.toString(16).padStart(4, '0')}`;
+        i = end + 1;
+      } else if (next === 'p' || next === 'P' || next === 'C') {
+        throw new InvalidPatternError(`Unicode class escape "\\${next}" is not supported`);
+      } else {
+        source += char + next;
+        i += 2;
+      }
+      continue;
+    }
+
+    if (inClass) {
+      if (char === '[' && pattern[i + 1] === ':') {
+        const end = pattern.indexOf(':]', i + 2);
+        const name = end === -1 ? '' : pattern.substring(i + 2, end);
+        if (!POSIX_CLASSES[name]) throw new InvalidPatternError(`Unsupported character class "[:${name}:]"`);
+        source += POSIX_CLASSES[name];
+        i = end + 2;
+        continue;
+      }
+      if (char === '[') {
+        source += '\\[';
+        i++;
+        continue;
+      }
+      if (char === ']') inClass = false;
+      source += char;
+      i++;
+      continue;
+    }
+
+    if (char === '[') {
+      inClass = true;
+      source += char;
+      i++;
+      // A leading `]` or `^]` is a literal bracket in RE2
+      if (pattern[i] === '^') {
+        source += '^';
+        i++;
+      }
+      if (pattern[i] === ']') {
+        source += '\\]';
+        i++;
+      }
+      continue;
+    }
+
+    if (char === '(' && pattern[i + 1] === '?') {
+      if (pattern.startsWith('(?P<', i)) {
+        source += '(?<';
+        i += 4;
+        continue;
+      }
+      const inline = /^\(\?[a-zA-Z]*(?:-[a-zA-Z]+)?[:)]/.exec(pattern.substring(i, i + 12));
+      if (inline && inline[0] !== '(?:') {
+        throw new InvalidPatternError(`Inline flag group "${inline[0]}" has no JavaScript equivalent`);
+      }
+    }
+
+    source += char;
+    i++;
+  }
+
+  try {
+    new RegExp(source, [...flags].join(''));
+  } catch (error) {
+    throw new InvalidPatternError(`Regex does not compile in JavaScript: ${(error as Error).message}`);
+  }
+
+  return { source, flags: [...flags].join('') };
+}
+
+function isTable(value: RuleValue | undefined): value is RuleTable {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function tableList(value: RuleValue | undefined): RuleTable[] {
+  if (Array.isArray(value)) return value.filter(isTable);
+  return isTable(value) ? [value] : [];
+}
+
+function stringValue(value: RuleValue | undefined): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function numberValue(value: RuleValue | undefined): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function stringList(value: RuleValue | undefined): string[] {
+  if (typeof value === 'string') return [value];
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * Parse the subset of TOML used by gitleaks configs: tables, arrays of
+ * tables, dotted keys, all four string forms, numbers, booleans, arrays
+ * and inline tables
+ */
+export function parseToml(text: string): RuleTable {
+  const root: RuleTable = {};
+  let current = root;
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const line = text.substring(0, pos).split('\n').length;
+    throw new RuleImportError(`TOML line ${line}: ${message}`);
+  };
+
+  const skipSpaces = () => {
+    while (text[pos] === ' ' || text[pos] === '\t') pos++;
+  };
+
+  const skipComment = () => {
+    if (text[pos] === '#') {
+      while (pos < text.length && text[pos] !== '\n') pos++;
+    }
+  };
+
+  // Spaces, comments and newlines, as allowed inside arrays
+  const skipBlank = () => {
+    for (;;) {
+      skipSpaces();
+      skipComment();
+      if (text[pos] === '\n' || text[pos] === '\r') {
+        pos++;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const expect = (token: string) => {
+    skipSpaces();
+    if (!text.startsWith(token, pos)) fail(`expected "${token}"`);
+    pos += token.length;
+  };
+
+  const parseEscape = (): string => {
+    const escape = text[pos + 1];
+    pos += 2;
+    switch (escape) {
+      case 'b': return '\b';
+      case 't': return '\t';
+      case 'n': return '\n';
+      case 'f': return '\f';
+      case 'r': return '\r';
+      case 'e': return '\x1b';
+      case '"': return '"';
+      case '\\': return '\\';
+      case 'u':
+      case 'U': {
+        const length = escape === 'u' ? 4 : 8;
+        const code = parseInt(text.substring(pos, pos + length), 16);
+        if (isNaN(code)) fail('invalid unicode escape');
+        pos += length;
+        return String.fromCodePoint(code);
+      }
+      default:
+        return fail(`invalid escape "\\${escape}"`);
+    }
+  };
+
+  const parseString = (): string => {
+    if (text.startsWith("'''", pos) || text.startsWith('"""', pos)) {
+      const quote = text.substring(pos, pos + 3);
+      pos += 3;
+      // A newline right after the opening delimiter is trimmed
+      if (text[pos] === '\r') pos++;
+      if (text[pos] === '\n') pos++;
+
+      let value = '';
+      while (!text.startsWith(quote, pos)) {
+        if (pos >= text.length) fail('unterminated multi-line string');
+        if (quote === '"""' && text[pos] === '\\') {
+          // Line-ending backslash joins lines
+          if (/^\\[ \t]*\r?\n/.test(text.substring(pos, pos + 64))) {
+            pos++;
+            while (/\s/.test(text[pos])) pos++;
+          } else {
+            value += parseEscape();
+          }
+        } else {
+          value += text[pos++];
+        }
+      }
+      pos += 3;
+      // Up to two quotes may directly precede the closing delimiter
+      while (text[pos] === quote[0]) {
+        value += text[pos++];
+      }
+      return value;
+    }
+
+    const quote = text[pos++];
+    let value = '';
+    while (text[pos] !== quote) {
+      if (pos >= text.length || text[pos] === '\n') fail('unterminated string');
+      if (quote === '"' && text[pos] === '\\') {
+        value += parseEscape();
+      } else {
+        value += text[pos++];
+      }
+    }
+    pos++;
+    return value;
+  };
+
+  const bareKey = /[A-Za-z0-9_-]+/y;
+
+  const parseKey = (): string[] => {
+    const parts: string[] = [];
+    for (;;) {
+      skipSpaces();
+      if (text[pos] === '"' || text[pos] === "'") {
+        parts.push(parseString());
+      } else {
+        bareKey.lastIndex = pos;
+        const match = bareKey.exec(text);
+        if (!match) fail('expected a key');
+        parts.push(match![0]);
+        pos += match![0].length;
+      }
+      skipSpaces();
+      if (text[pos] !== '.') return parts;
+      pos++;
+    }
+  };
+
+  const numberToken = /[+-]?(?:0x[0-9a-fA-F_]+|0o[0-7_]+|0b[01_]+|inf|nan|[0-9_]+(?:\.[0-9_]+)?(?:[eE][+-]?[0-9_]+)?)/y;
+
+  const parseValue = (): RuleValue => {
+    skipSpaces();
+    const char = text[pos];
+
+    if (char === '"' || char === "'") {
+      return parseString();
+    }
+
+    if (char === '[') {
+      pos++;
+      const values: RuleValue[] = [];
+      for (;;) {
+        skipBlank();
+        if (text[pos] === ']') break;
+        values.push(parseValue());
+        skipBlank();
+        if (text[pos] === ',') {
+          pos++;
+        } else if (text[pos] !== ']') {
+          fail('expected "," or "]" in array');
+        }
+      }
+      pos++;
+      return values;
+    }
+
+    if (char === '{') {
+      pos++;
+      const table: RuleTable = {};
+      skipSpaces();
+      if (text[pos] === '}') {
+        pos++;
+        return table;
+      }
+      for (;;) {
+        const key = parseKey();
+        expect('=');
+        setValue(table, key, parseValue());
+        skipSpaces();
+        if (text[pos] === '}') {
+          pos++;
+          return table;
+        }
+        expect(',');
+      }
+    }
+
+    if (text.startsWith('true', pos)) {
+      pos += 4;
+      return true;
+    }
+    if (text.startsWith('false', pos)) {
+      pos += 5;
+      return false;
+    }
+
+    numberToken.lastIndex = pos;
+    const number = numberToken.exec(text);
+    if (number) {
+      pos += number[0].length;
+      const token = number[0].replace(/_/g, '');
+      if (/inf$/.test(token)) return token.startsWith('-') ? -Infinity : Infinity;
+      if (/nan$/.test(token)) return NaN;
+      if (/^[+-]?0o/.test(token)) return parseInt(token.replace('0o', ''), 8);
+      if (/^[+-]?0b/.test(token)) return parseInt(token.replace('0b', ''), 2);
+      return Number(token);
+    }
+
+    return fail('unsupported value');
+  };
+
+  // Resolve a table path; arrays of tables resolve to their last entry
+  const resolveTable = (path: string[]): RuleTable => {
+    let table = root;
+    for (const part of path) {
+      let next = table[part];
+      if (next === undefined) {
+        next = table[part] = {};
+      }
+      if (Array.isArray(next)) {
+        next = next[next.length - 1];
+      }
+      if (!isTable(next)) fail(`"${part}" is not a table`);
+      table = next as RuleTable;
+    }
+    return table;
+  };
+
+  const setValue = (table: RuleTable, key: string[], value: RuleValue) => {
+    const parent = key.slice(0, -1).reduce<RuleTable>((current, part) => {
+      if (current[part] === undefined) current[part] = {};
+      if (!isTable(current[part])) fail(`"${part}" is not a table`);
+      return current[part] as RuleTable;
+    }, table);
+    parent[key[key.length - 1]] = value;
+  };
+
+  for (;;) {
+    skipBlank();
+    if (pos >= text.length) break;
+
+    if (text.startsWith('[[', pos)) {
+      pos += 2;
+      const path = parseKey();
+      expect(']]');
+      const parent = resolveTable(path.slice(0, -1));
+      const name = path[path.length - 1];
+      const list = parent[name] === undefined ? (parent[name] = []) : parent[name];
+      if (!Array.isArray(list)) fail(`"${name}" is not an array of tables`);
+      current = {};
+      (list as RuleValue[]).push(current);
+    } else if (text[pos] === '[') {
+      pos++;
+      const path = parseKey();
+      expect(']');
+      current = resolveTable(path);
+    } else {
+      const key = parseKey();
+      expect('=');
+      setValue(current, key, parseValue());
+    }
+
+    skipSpaces();
+    skipComment();
+    if (pos < text.length && text[pos] !== '\n' && text[pos] !== '\r') {
+      fail('expected end of line');
+    }
+  }
+
+  return root;
+}
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  number: number;
+}
+
+/**
+ * Parse the block-style YAML subset used by trufflehog detector configs:
+ * mappings, sequences, quoted and plain scalars, flow sequences and
+ * `|` / `>` block scalars
+ */
+export function parseYaml(text: string): RuleValue {
+  const rawLines = text.split(/\r?\n/);
+  const lines: YamlLine[] = [];
+  rawLines.forEach((raw, index) => {
+    const content = stripYamlComment(raw);
+    if (!content.trim() || content.trim() === '---') return;
+    lines.push({ indent: content.length - content.trimStart().length, text: content.trim(), number: index + 1 });
+  });
+
+  let index = 0;
+
+  const fail = (line: YamlLine, message: string): never => {
+    throw new RuleImportError(`YAML line ${line.number}: ${message}`);
+  };
+
+  const parseBlock = (indent: number): RuleValue => {
+    const first = lines[index];
+    if (!first || first.indent < indent) return null;
+    return first.text === '-' || first.text.startsWith('- ') ? parseSequence(first.indent) : parseMapping(first.indent);
+  };
+
+  const parseSequence = (indent: number): RuleValue[] => {
+    const items: RuleValue[] = [];
+    while (index < lines.length && lines[index].indent === indent && (lines[index].text === '-' || lines[index].text.startsWith('- '))) {
+      const line = lines[index];
+      const rest = line.text.substring(1).trimStart();
+      if (!rest) {
+        index++;
+        items.push(parseBlock(indent + 1));
+      } else if (/^[^'"\[{][^:]*:(?:\s|$)/.test(rest) || /^(["'])(?:(?!\1).)*\1\s*:(?:\s|$)/.test(rest)) {
+        // `- key: value` starts a mapping indented at the item's content
+        lines[index] = { ...line, indent: indent + (line.text.length - rest.length), text: rest };
+        items.push(parseMapping(lines[index].indent));
+      } else {
+        index++;
+        items.push(parseScalar(rest, line));
+      }
+    }
+    return items;
+  };
+
+  const parseMapping = (indent: number): RuleTable => {
+    const table: RuleTable = {};
+    while (index < lines.length && lines[index].indent === indent) {
+      const line = lines[index];
+      const pair = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^:]+?)\s*:(?:\s+(.*))?$/.exec(line.text);
+      if (!pair) fail(line, 'expected "key: value"');
+
+      const key = String(parseScalar(pair![1], line));
+      const value = pair![2];
+      index++;
+
+      if (value === undefined || value === '') {
+        const next = lines[index];
+        // A sequence may sit at the same indent as its key
+        if (next && (next.indent > indent || (next.indent === indent && (next.text === '-' || next.text.startsWith('- '))))) {
+          table[key] = parseBlock(next.indent);
+        } else {
+          table[key] = null;
+        }
+      } else if (/^[|>][+-]?$/.test(value)) {
+        table[key] = parseBlockScalar(indent, value, line);
+      } else {
+        table[key] = parseScalar(value, line);
+      }
+    }
+    if (index < lines.length && lines[index].indent > indent) {
+      fail(lines[index], 'unexpected indentation');
+    }
+    return table;
+  };
+
+  // Block scalars keep their text verbatim, so they are read from the raw lines
+  const parseBlockScalar = (indent: number, style: string, header: YamlLine): string => {
+    const body: string[] = [];
+    let lineNumber = header.number;
+    while (lineNumber < rawLines.length) {
+      const raw = rawLines[lineNumber];
+      if (raw.trim() && raw.length - raw.trimStart().length <= indent) break;
+      body.push(raw);
+      lineNumber++;
+    }
+    while (index < lines.length && lines[index].number <= lineNumber) index++;
+
+    while (body.length > 0 && !body[body.length - 1].trim()) body.pop();
+    const bodyIndent = Math.min(...body.filter(raw => raw.trim()).map(raw => raw.length - raw.trimStart().length));
+    const text = body.map(raw => raw.substring(bodyIndent)).join(style.startsWith('>') ? ' ' : '\n');
+    return style.endsWith('-') ? text : `${text}\n`;
+  };
+
+  const value = parseBlock(0);
+  if (index < lines.length) {
+    fail(lines[index], 'unexpected content');
+  }
+  return value;
+}
+
+function parseScalar(text: string, line: YamlLine): RuleValue {
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) throw new RuleImportError(`YAML line ${line.number}: unterminated string`);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new RuleImportError(`YAML line ${line.number}: invalid double-quoted string`);
+    }
+  }
+
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) throw new RuleImportError(`YAML line ${line.number}: unterminated flow sequence`);
+    const items = text.slice(1, -1).match(/"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,\s][^,]*/g) || [];
+    return items.map(item => item.trim()).filter(Boolean).map(item => parseScalar(item, line));
+  }
+
+  if (/^(?:true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+  if (/^(?:null|~)$/.test(text)) return null;
+  if (/^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+// `#` starts a comment only outside quotes and after whitespace
+function stripYamlComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      if (i === 0 || /[\s:\-\[,]/.test(line[i - 1])) quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.substring(0, i);
+    }
+  }
+  return line;
+}
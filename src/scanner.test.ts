@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { JSScanner } from './scanner';
+
+const scan = (scanner: JSScanner, content: string) =>
+  scanner.scanJSContent(content, 'https://example.com/app.js', 'request-1', 'https://example.com/');
+
+describe('JSScanner', () => {
+  // 3 bits/char: kept, but below the pattern's demotion threshold
+  const lowEntropyKey = 'const config = { apiKey: "abcdefghabcdefgh" };';
+
+  it('demotes low-entropy secrets to low severity', () => {
+    const result = scan(new JSScanner(), lowEntropyKey).find(r => r.patternName === 'Generic API Key');
+
+    expect(result?.severity).toBe('low');
+  });
+
+  it('keeps the severity pinned in the pattern settings', () => {
+    const scanner = new JSScanner();
+    scanner.setPatternSettings({ 'Generic API Key': { severity: 'critical' } });
+
+    const result = scan(scanner, lowEntropyKey).find(r => r.patternName === 'Generic API Key');
+
+    expect(result?.severity).toBe('critical');
+  });
+
+  it('merges route templates found in several files into one result', async () => {
+    const scanner = new JSScanner();
+    const file = (url: string, content: string) => ({ url, content, sourceRequestId: 'request-1', sourceUrl: 'https://example.com/' });
+
+    await scanner.processJSFile(file('https://example.com/main.js', 'fetch("/users/12/orders");'));
+    await scanner.processJSFile(file('https://example.com/admin.js', 'fetch("/users/34/orders");'));
+
+    const routes = scanner.getResults().filter(r => r.matchValue.endsWith('/users/{id}/orders'));
+    expect(routes).toHaveLength(1);
+    expect(routes[0].samples).toEqual(['GET /users/12/orders', 'GET /users/34/orders']);
+  });
+
+  it('runs custom patterns', () => {
+    const scanner = new JSScanner();
+    scanner.setCustomPatterns([{
+      id: 'custom-1',
+      name: 'Acme Token',
+      regex: 'acme_[a-z0-9]{16}',
+      flags: 'g',
+      type: 'secret',
+      severity: 'high',
+      description: 'Acme API token',
+      enabled: true
+    }]);
+
+    const result = scan(scanner, 'const token = "acme_q8w7e6r5t4y3u2i1";').find(r => r.patternName === 'Acme Token');
+
+    expect(result?.matchValue).toBe('acme_q8w7e6r5t4y3u2i1');
+  });
+});
@@ -1,15 +1,21 @@
-import { DETECTION_PATTERNS, shouldExclude, PatternConfig } from './patterns';
-
-export interface ScanResult {
-  id: string;
-  fileUrl: string;
-  matchType: string;
-  matchValue: string;
-  sourceRequestId: string;
-  sourceUrl: string;
-  patternName: string;
-  timestamp: number;
-}
+import { DETECTION_PATTERNS, PatternConfig } from './patterns';
+import { ScanResult, scanContent, defaultSeverity } from './findings';
+import { resolveChunkUrls } from './chunks';
+import { mergeRoute } from './routes';
+import { configFlags } from './config';
+import { ORIGIN_CHECK_LABELS } from './postmessage';
+import { advisoryIdentifiers } from './libraries';
+import { Advisory, AdvisoryDataset, BUNDLED_ADVISORIES } from './advisories';
+import { HOST_CLASS_LABELS, HOST_PATTERN_NAMES } from './hosts';
+import { describeBucket } from './buckets';
+import { PatternSettingsMap, applyPatternSettings } from './patternsettings';
+import { CustomPatternDefinition, mergePatterns } from './custompatterns';
+import { MAX_FILTERED_RESULTS } from './exclusions';
+import { summarizeJwt } from './jwt';
+import { EXPOSURE_LABELS } from './keyclass';
+import { printOperation } from './graphql';
+
+export type { ScanResult } from './findings';
 
 export interface JSFile {
   url: string;
@@ -21,7 +27,13 @@ export interface JSFile {
 export class JSScanner {
   private scannedFiles = new Set<string>();
   private results: ScanResult[] = [];
+  private filteredResults: ScanResult[] = [];
   private resultCallbacks: ((result: ScanResult) => void)[] = [];
+  private patterns: PatternConfig[] = DETECTION_PATTERNS;
+  private customPatterns: CustomPatternDefinition[] = [];
+  private patternSettings: PatternSettingsMap = {};
+  private scopeCheck?: (url: string) => Promise<boolean>;
+  private advisories: Advisory[] = BUNDLED_ADVISORIES.advisories;
 
   /**
    * Add a callback to be called when new results are found
@@ -30,6 +42,40 @@ export class JSScanner {
     this.resultCallbacks.push(callback);
   }
 
+  /**
+   * Scope check used to mark harvested hostnames as in scope
+   */
+  setScopeCheck(check: (url: string) => Promise<boolean>): void {
+    this.scopeCheck = check;
+  }
+
+  /**
+   * Replace the bundled advisory dataset, e.g. with one loaded from a file
+   */
+  setAdvisories(dataset: AdvisoryDataset): void {
+    this.advisories = dataset.advisories;
+  }
+
+  /**
+   * Apply per-pattern enable/disable, severity and minimum length overrides
+   */
+  setPatternSettings(settings: PatternSettingsMap): void {
+    this.patternSettings = settings;
+    this.refreshPatterns();
+  }
+
+  /**
+   * Run user-defined and imported patterns alongside the built-in ones
+   */
+  setCustomPatterns(definitions: CustomPatternDefinition[]): void {
+    this.customPatterns = definitions;
+    this.refreshPatterns();
+  }
+
+  private refreshPatterns(): void {
+    this.patterns = applyPatternSettings(mergePatterns(this.customPatterns), this.patternSettings);
+  }
+
   /**
    * Extract JavaScript file URLs from HTML content
    */
@@ -125,42 +171,11 @@ export class JSScanner {
    * Scan JavaScript content for patterns
    */
   scanJSContent(content: string, fileUrl: string, sourceRequestId: string, sourceUrl: string): ScanResult[] {
-    const results: ScanResult[] = [];
-    
-    for (const pattern of DETECTION_PATTERNS) {
-      const matches = content.match(pattern.regex);
-      if (matches) {
-        for (const match of matches) {
-          const cleanMatch = match.replace(/["']/g, '').trim();
-          
-          // Skip if match should be excluded
-          if (shouldExclude(cleanMatch)) {
-            continue;
-          }
-
-          // Skip very short matches for certain types
-          if ((pattern.type === 'endpoint' && cleanMatch.length < 5) ||
-              (pattern.type === 'secret' && cleanMatch.length < 8)) {
-            continue;
-          }
-
-          const result: ScanResult = {
-            id: `${fileUrl}-${pattern.name}-${cleanMatch}`.replace(/[^a-zA-Z0-9\-_]/g, '-'),
-            fileUrl,
-            matchType: pattern.type,
-            matchValue: cleanMatch,
-            sourceRequestId,
-            sourceUrl,
-            patternName: pattern.name,
-            timestamp: Date.now()
-          };
-
-          results.push(result);
-        }
-      }
-    }
-
-    return results;
+    return scanContent(content, fileUrl, sourceRequestId, sourceUrl, {
+      patterns: this.patterns,
+      advisories: this.advisories,
+      onPatternError: (pattern, error) => console.error(`Pattern "${pattern.name}" failed:`, error)
+    });
   }
 
   /**
@@ -192,18 +207,58 @@ export class JSScanner {
 
       // Scan the content
       const scanResults = this.scanJSContent(content, jsFile.url, jsFile.sourceRequestId, jsFile.sourceUrl);
+      await this.applyHostScope(scanResults);
       
       // Add results and notify callbacks
       for (const result of scanResults) {
+        // Filtered out hits are kept for auditing but not reported
+        if (result.exclusion) {
+          this.filteredResults.push(result);
+          if (this.filteredResults.length > MAX_FILTERED_RESULTS) {
+            this.filteredResults.shift();
+          }
+          continue;
+        }
+
+        // Templates found in another file already have a row
+        if (mergeRoute(this.results, result)) continue;
+
         this.results.push(result);
         this.resultCallbacks.forEach(callback => callback(result));
       }
 
+      // Follow lazily loaded chunks, attributed to this bundle
+      for (const chunkUrl of resolveChunkUrls(content, jsFile.url)) {
+        await this.processJSFile({
+          url: chunkUrl,
+          content: '',
+          sourceRequestId: jsFile.sourceRequestId,
+          sourceUrl: jsFile.url
+        });
+      }
+
     } catch (error) {
       console.error(`Error processing JS file ${jsFile.url}:`, error);
     }
   }
 
+  /**
+   * Promote `host` findings the scope check covers to in-scope
+   */
+  private async applyHostScope(results: ScanResult[]): Promise<void> {
+    if (!this.scopeCheck) {
+      return;
+    }
+
+    for (const result of results) {
+      if (result.matchType === 'host' && await this.scopeCheck(`https://${result.matchValue}/`)) {
+        result.hostClass = 'in-scope';
+        result.patternName = HOST_PATTERN_NAMES['in-scope'];
+        result.severity = defaultSeverity('host', result.patternName);
+      }
+    }
+  }
+
   /**
    * Process HTTP response to extract and scan JavaScript files
    */
@@ -268,11 +323,19 @@ export class JSScanner {
     return [...this.results];
   }
 
+  /**
+   * Get the hits exclusion rules filtered out, with the reason for each
+   */
+  getFilteredResults(): ScanResult[] {
+    return [...this.filteredResults];
+  }
+
   /**
    * Clear all results and reset scanner
    */
   clear(): void {
     this.results = [];
+    this.filteredResults = [];
     this.scannedFiles.clear();
   }
 
@@ -298,7 +361,7 @@ export class JSScanner {
       return 'No results to export';
     }
 
-    const headers = ['File URL', 'Match Type', 'Match Value', 'Source Request ID', 'Source URL', 'Pattern Name', 'Timestamp'];
+    const headers = ['File URL', 'Match Type', 'Match Value', 'Samples', 'Protocol', 'Source Request ID', 'Source URL', 'Pattern Name', 'Parameter Locations', 'Linked Endpoints', 'GraphQL', 'Bucket', 'Bucket Path', 'Host Class', 'Route Chunk', 'Route Guards', 'Route Roles', 'Config', 'Config Flags', 'Sink', 'Sink Source', 'Origin Check', 'Message Actions', 'Advisories', 'Provider', 'Format Valid', 'Exposure', 'Line', 'Column', 'Decoding', 'Entropy', 'Charset', 'JWT Flags', 'JWT Claims', 'Timestamp'];
     const csvRows = [headers.join(',')];
 
     for (const result of this.results) {
@@ -306,9 +369,37 @@ export class JSScanner {
         `"${result.fileUrl}"`,
         `"${result.matchType}"`,
         `"${result.matchValue}"`,
+        `"${(result.samples || []).join(' ')}"`,
+        `"${result.protocol ?? ''}"`,
         `"${result.sourceRequestId}"`,
         `"${result.sourceUrl}"`,
         `"${result.patternName}"`,
+        `"${(result.parameterLocations || []).join(' ')}"`,
+        `"${(result.parameterEndpoints || []).join(' ')}"`,
+        `"${result.graphql ? printOperation(result.graphql).replace(/"/g, '""') : ''}"`,
+        `"${result.bucket ? describeBucket(result.bucket) : ''}"`,
+        `"${result.bucket?.path ?? ''}"`,
+        `"${result.hostClass ? HOST_CLASS_LABELS[result.hostClass] : ''}"`,
+        `"${result.clientRoute?.chunk ?? ''}"`,
+        `"${(result.clientRoute?.guards || []).join(' ')}"`,
+        `"${(result.clientRoute?.roles || []).join(' ')}"`,
+        `"${(result.config || []).map(entry => `${entry.key}=${entry.value}`).join('; ').replace(/"/g, '""')}"`,
+        `"${result.config ? configFlags(result.config).join(' ') : ''}"`,
+        `"${result.sink?.sink ?? ''}"`,
+        `"${result.sink?.source ?? ''}"`,
+        `"${result.messageHandler ? ORIGIN_CHECK_LABELS[result.messageHandler.originCheck] : ''}"`,
+        `"${(result.messageHandler?.actions || []).join(' ')}"`,
+        `"${advisoryIdentifiers(result.advisories || []).join(' ')}"`,
+        `"${result.provider ?? ''}"`,
+        `"${result.formatValid ?? ''}"`,
+        `"${result.classification ? EXPOSURE_LABELS[result.classification.exposure] : ''}"`,
+        `"${result.line ?? ''}"`,
+        `"${result.column ?? ''}"`,
+        `"${(result.decodingChain || []).join(' → ')}"`,
+        `"${result.entropy ?? ''}"`,
+        `"${result.charset ?? ''}"`,
+        `"${(result.jwt?.flags || []).join(' ')}"`,
+        `"${result.jwt ? summarizeJwt(result.jwt).replace(/"/g, '""') : ''}"`,
         `"${new Date(result.timestamp).toISOString()}"`
       ];
       csvRows.push(row.join(','));
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { parseJavaScript } from './ast';
+import { extractSinks, sinkSeverity } from './sinks';
+
+const sinksIn = (content: string) => extractSinks(content, parseJavaScript(content));
+const describeSinks = (content: string) => sinksIn(content).map(sink => `${sink.sink} ${sink.source ?? '-'} ${sinkSeverity(sink)}`);
+
+describe('extractSinks', () => {
+  it('raises a sink fed by a source through variables of the same function', () => {
+    const content = [
+      'function render() {',
+      '  var hash = location.hash.substring(1);',
+      '  var markup = "<b>" + hash + "</b>";',
+      '  document.getElementById("out").innerHTML = markup;',
+      '}'
+    ].join('\n');
+
+    expect(describeSinks(content)).toEqual(['innerHTML location.hash high']);
+  });
+
+  it('does not carry a source across functions', () => {
+    const content = [
+      'function read() { var hash = location.hash; return hash; }',
+      'function render(markup) { el.innerHTML = markup; }'
+    ].join('\n');
+
+    expect(describeSinks(content)).toEqual(['innerHTML - low']);
+  });
+
+  it('does not treat the origin, host or protocol of the location as a source', () => {
+    const content = [
+      'el.innerHTML = location.origin + "/logo.png";',
+      'frame.srcdoc = window.location.hostname;',
+      'other.innerHTML = document.location.protocol + "//" + cdn;',
+      'last.innerHTML = "" + window.location;'
+    ].join('\n');
+
+    expect(sinksIn(content).map(sink => sink.source ?? '-')).toEqual(['-', '-', '-', 'location']);
+  });
+
+  it('reports string timers but not timers given a function', () => {
+    const content = [
+      'setTimeout("refresh(" + id + ")", 100);',
+      'setTimeout(function () { refresh(id); }, 100);',
+      'setInterval(tick, 1000);',
+      'setTimeout("static()", 10);'
+    ].join('\n');
+
+    expect(describeSinks(content)).toEqual(['setTimeout - medium']);
+  });
+
+  it('reports jQuery html() with non-constant markup', () => {
+    const content = [
+      '$("#out").html(response.body);',
+      '$("#out").html("<p>Loading</p>");',
+      '$(".list").append(location.search);'
+    ].join('\n');
+
+    expect(describeSinks(content)).toEqual(['jQuery.html - low', 'jQuery.append location.search high']);
+  });
+
+  it('raises script sinks fed by message data to critical', () => {
+    const content = 'window.addEventListener("message", function (e) { eval(e.data.code); });';
+
+    expect(describeSinks(content)).toEqual(['eval postMessage data critical']);
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * DOM XSS sinks (`innerHTML`, `document.write`, `eval`, string timers,
+ * `location` assignments, jQuery HTML methods) and the user-controlled
+ * sources flowing into them within the same function
+ */
+
+import { ancestor, recursive, simple } from 'acorn-walk';
+import { AnyNode, Expression, Node, Pattern, Program, Property } from 'acorn';
+import { propertyKeyName, resolveStringExpression, staticReferenceName, getObjectProperty, IdentifierResolver } from './ast';
+import { findMessageListeners, messageEventNames, MESSAGE_DATA_SOURCE } from './postmessage';
+import { Severity } from './patterns';
+
+export type SinkKind = 'html' | 'script' | 'navigation';
+
+export interface DomSink {
+  // Sink API, e.g. `innerHTML`, `document.write`, `jQuery.html`
+  sink: string;
+  kind: SinkKind;
+  // Code reaching the sink, on one line
+  snippet: string;
+  // User-controlled source flowing in, e.g. `location.hash` or `postMessage data`
+  source?: string;
+  offset: number;
+  length: number;
+}
+
+export const SINK_PATTERN_NAMES: { [kind in SinkKind]: string } = {
+  html: 'HTML Injection Sink',
+  script: 'Script Execution Sink',
+  navigation: 'Navigation Sink'
+};
+
+interface CallSink {
+  kind: SinkKind;
+  // Index of the dangerous argument, -1 for the last one, null for all
+  argument: number | null;
+  // Timers also take a function, which is not a sink
+  acceptsFunction?: boolean;
+}
+
+interface SinkCandidate {
+  sink: string;
+  kind: SinkKind;
+  node: Node;
+  values: Expression[];
+  acceptsFunction?: boolean;
+  // Too common to report unless a source reaches it, e.g. `$(selector)`
+  requiresSource?: boolean;
+}
+
+const MAX_SNIPPET_LENGTH = 160;
+const MAX_TAINT_PASSES = 4;
+
+const SOURCES = [
+  'location', 'location.href', 'location.hash', 'location.search', 'location.pathname',
+  'document.URL', 'document.documentURI', 'document.baseURI', 'document.referrer', 'document.cookie'
+];
+
+const HTML_PROPERTIES = ['innerHTML', 'outerHTML', 'srcdoc'];
+const NAVIGATION_TARGETS = ['location', 'location.href'];
+
+// Global functions and methods, by name with any `window.` prefix removed
+const CALL_SINKS: { [name: string]: CallSink } = {
+  'eval': { kind: 'script', argument: 0 },
+  'execScript': { kind: 'script', argument: 0 },
+  'Function': { kind: 'script', argument: -1 },
+  'setTimeout': { kind: 'script', argument: 0, acceptsFunction: true },
+  'setInterval': { kind: 'script', argument: 0, acceptsFunction: true },
+  'document.write': { kind: 'html', argument: null },
+  'document.writeln': { kind: 'html', argument: null },
+  'location.assign': { kind: 'navigation', argument: 0 },
+  'location.replace': { kind: 'navigation', argument: 0 }
+};
+
+// Methods that are sinks on any receiver
+const METHOD_SINKS: { [method: string]: CallSink } = {
+  insertAdjacentHTML: { kind: 'html', argument: 1 },
+  createContextualFragment: { kind: 'html', argument: 0 },
+  html: { kind: 'html', argument: 0 }
+};
+
+// jQuery methods that parse a string argument as HTML; generic names, so
+// only reported on a `$(...)` / `$el` receiver
+const JQUERY_HTML_METHODS = ['append', 'prepend', 'after', 'before', 'replaceWith', 'wrap', 'wrapAll', 'wrapInner'];
+const JQUERY_NAMES = ['$', 'jQuery'];
+
+/**
+ * Find sink usages whose value is not a static string, with the source that
+ * reaches each one through variables of the enclosing function, if any
+ */
+export function extractSinks(content: string, program: Program | null, resolve?: IdentifierResolver): DomSink[] {
+  if (!program) {
+    return [];
+  }
+
+  const sinks: DomSink[] = [];
+  const taints = new Map<AnyNode, Map<string, string>>();
+  const handlers = new Map<Node, string[]>(
+    findMessageListeners(program).map(listener => [listener.handler, messageEventNames(listener, 'data')])
+  );
+
+  const check = (candidate: SinkCandidate, ancestors: AnyNode[]) => {
+    const scope = enclosingFunction(ancestors);
+    let taint = taints.get(scope);
+    if (!taint) {
+      taint = collectTaint(scope, messageDataNames(ancestors, handlers));
+      taints.set(scope, taint);
+    }
+
+    const values = candidate.values.filter(Boolean);
+    const source = values.map(value => sourceOf(value, taint!)).find(Boolean) || undefined;
+    if (!source) {
+      if (candidate.requiresSource) return;
+      if (values.every(value => value.type === 'Literal' || resolveStringExpression(value, resolve).isStatic)) return;
+      if (candidate.acceptsFunction && values.every(value => isFunctionLike(value))) return;
+    }
+
+    sinks.push({
+      sink: candidate.sink,
+      kind: candidate.kind,
+      snippet: snippet(content, candidate.node),
+      source,
+      offset: candidate.node.start,
+      length: candidate.node.end - candidate.node.start
+    });
+  };
+
+  ancestor(program, {
+    AssignmentExpression(node, _state, ancestors) {
+      if (node.operator !== '=' && node.operator !== '+=') return;
+      if (node.left.type !== 'MemberExpression' && node.left.type !== 'Identifier') return;
+
+      const target = staticReferenceName(node.left);
+      const property = node.left.type === 'MemberExpression' ? memberName(node.left) : null;
+      if (property && HTML_PROPERTIES.includes(property)) {
+        check({ sink: property, kind: 'html', node, values: [node.right] }, ancestors as AnyNode[]);
+      } else if (target && node.operator === '=' && NAVIGATION_TARGETS.includes(globalName(target))) {
+        check({ sink: globalName(target), kind: 'navigation', node, values: [node.right] }, ancestors as AnyNode[]);
+      }
+    },
+    CallExpression(node, _state, ancestors) {
+      const callee = staticReferenceName(node.callee);
+      const args = node.arguments.filter((arg): arg is Expression => arg.type !== 'SpreadElement');
+      const global = callee ? CALL_SINKS[globalName(callee)] : undefined;
+
+      if (global) {
+        check({ sink: globalName(callee!), kind: global.kind, node, values: sinkArguments(args, global), acceptsFunction: global.acceptsFunction }, ancestors as AnyNode[]);
+        return;
+      }
+      if (callee && JQUERY_NAMES.includes(callee) && args.length > 0) {
+        // $(location.hash) parses markup in older jQuery versions
+        check({ sink: 'jQuery()', kind: 'html', node, values: [args[0]], requiresSource: true }, ancestors as AnyNode[]);
+        return;
+      }
+      if (node.callee.type !== 'MemberExpression' || args.length === 0) return;
+
+      const method = memberName(node.callee);
+      if (!method) return;
+      const methodSink = METHOD_SINKS[method];
+      if (methodSink) {
+        const sink = method === 'html' ? 'jQuery.html' : method;
+        check({ sink, kind: methodSink.kind, node, values: sinkArguments(args, methodSink) }, ancestors as AnyNode[]);
+      } else if (JQUERY_HTML_METHODS.includes(method) && isJQueryObject(node.callee.object as AnyNode)) {
+        check({ sink: `jQuery.${method}`, kind: 'html', node, values: [args[0]] }, ancestors as AnyNode[]);
+      }
+    },
+    NewExpression(node, _state, ancestors) {
+      const callee = staticReferenceName(node.callee);
+      if (!callee || globalName(callee) !== 'Function') return;
+      const args = node.arguments.filter((arg): arg is Expression => arg.type !== 'SpreadElement');
+      check({ sink: 'Function', kind: 'script', node, values: sinkArguments(args, CALL_SINKS.Function) }, ancestors as AnyNode[]);
+    },
+    Property(node, _state, ancestors) {
+      const key = propertyKeyName(node as Property);
+      const value = node.value as Expression;
+      if (key === 'dangerouslySetInnerHTML' && value.type === 'ObjectExpression') {
+        // React: dangerouslySetInnerHTML: { __html: markup }
+        const markup = getObjectProperty(value, '__html');
+        if (markup) check({ sink: key, kind: 'html', node, values: [markup] }, ancestors as AnyNode[]);
+      } else if (key === 'innerHTML') {
+        // Vue `v-html` compiles to domProps: { innerHTML: markup }
+        check({ sink: key, kind: 'html', node, values: [value] }, ancestors as AnyNode[]);
+      }
+    }
+  });
+
+  return sinks;
+}
+
+/**
+ * Script sinks fed by a source can run attacker code outright; HTML and
+ * navigation sinks need markup or a `javascript:` URL to get there
+ */
+export function sinkSeverity(sink: DomSink): Severity {
+  if (sink.source) {
+    return sink.kind === 'script' ? 'critical' : 'high';
+  }
+  return sink.kind === 'script' ? 'medium' : sink.kind === 'html' ? 'low' : 'info';
+}
+
+/**
+ * Source read by an expression: a location or document property, message
+ * event data, or a variable assigned from one. Function bodies inside the
+ * expression are code rather than data and are not searched.
+ */
+function sourceOf(node: AnyNode, taint: Map<string, string>): string | null {
+  let source: string | null = null;
+
+  const visit = (reference: AnyNode) => {
+    const name = staticReferenceName(reference);
+    if (!source && name) source = taint.get(name) || sourceName(name);
+  };
+
+  recursive(node, null, {
+    Function() {},
+    Identifier(identifier) {
+      visit(identifier);
+    },
+    MemberExpression(member, state, c) {
+      visit(member);
+      if (source) return;
+      // `location` on its own reads the whole URL, but `location.origin`,
+      // `.host` or `.protocol` are not attacker-controlled
+      const object = staticReferenceName(member.object);
+      if (!object || sourceName(object) !== 'location') c(member.object, state);
+      if (member.computed) c(member.property, state);
+    }
+  });
+
+  return source;
+}
+
+/**
+ * Variables of a function holding source data, seeded with the message
+ * data names of enclosing handlers and propagated through assignments
+ */
+function collectTaint(scope: AnyNode, seed: Map<string, string>): Map<string, string> {
+  const taint = new Map(seed);
+
+  const assign = (target: Pattern, value: AnyNode | null | undefined) => {
+    if (!value) return false;
+    const source = sourceOf(value, taint);
+    if (!source) return false;
+
+    let changed = false;
+    for (const name of patternNames(target)) {
+      if (!taint.has(name)) {
+        taint.set(name, source);
+        changed = true;
+      }
+    }
+    return changed;
+  };
+
+  for (let pass = 0; pass < MAX_TAINT_PASSES; pass++) {
+    let changed = false;
+    simple(scope, {
+      VariableDeclarator(node) {
+        if (assign(node.id, node.init)) changed = true;
+      },
+      AssignmentExpression(node) {
+        if (node.left.type !== 'MemberExpression' && assign(node.left, node.right)) changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+
+  return taint;
+}
+
+/**
+ * Message data names (`event.data`, a destructured `{ data }`) of every
+ * enclosing `message` handler
+ */
+function messageDataNames(ancestors: AnyNode[], handlers: Map<Node, string[]>): Map<string, string> {
+  const names = new Map<string, string>();
+
+  for (const node of ancestors) {
+    for (const name of handlers.get(node) || []) names.set(name, MESSAGE_DATA_SOURCE);
+  }
+
+  return names;
+}
+
+function enclosingFunction(ancestors: AnyNode[]): AnyNode {
+  for (let index = ancestors.length - 2; index >= 0; index--) {
+    const node = ancestors[index];
+    if (node.type === 'FunctionDeclaration' || node.type === 'FunctionExpression' || node.type === 'ArrowFunctionExpression') {
+      return node;
+    }
+  }
+  return ancestors[0];
+}
+
+/**
+ * Source name of a reference, normalizing `window.` / `self.` prefixes and
+ * `document.location` to `location`
+ */
+function sourceName(name: string): string | null {
+  if (name === 'window.name' || name === 'self.name') {
+    return 'window.name';
+  }
+  const normalized = globalName(name);
+  return SOURCES.includes(normalized) ? normalized : null;
+}
+
+function globalName(name: string): string {
+  return name
+    .replace(/^(?:window|self|globalThis)\./, '')
+    .replace(/^document\.location(?=\.|$)/, 'location');
+}
+
+function memberName(node: AnyNode): string | null {
+  if (node.type !== 'MemberExpression') return null;
+  if (!node.computed && node.property.type === 'Identifier') return node.property.name;
+  if (node.property.type === 'Literal' && typeof node.property.value === 'string') return node.property.value;
+  return null;
+}
+
+/**
+ * `$(...)`, `jQuery(...)`, `$el` or a method chain on one of them
+ */
+function isJQueryObject(node: AnyNode): boolean {
+  for (let depth = 0; depth < 8; depth++) {
+    if (node.type === 'Identifier') {
+      return node.name.startsWith('$') || node.name === 'jQuery';
+    }
+    if (node.type === 'MemberExpression' && !node.computed) {
+      node = node.object;
+      continue;
+    }
+    if (node.type !== 'CallExpression') return false;
+
+    const callee = staticReferenceName(node.callee);
+    if (callee && JQUERY_NAMES.includes(callee)) return true;
+    if (node.callee.type !== 'MemberExpression') return false;
+    node = node.callee.object;
+  }
+  return false;
+}
+
+function isFunctionLike(node: AnyNode): boolean {
+  return node.type === 'FunctionExpression' || node.type === 'ArrowFunctionExpression' ||
+    node.type === 'Identifier' || node.type === 'MemberExpression';
+}
+
+function sinkArguments(args: Expression[], sink: CallSink): Expression[] {
+  if (sink.argument === null) return args;
+  const arg = sink.argument === -1 ? args[args.length - 1] : args[sink.argument];
+  return arg ? [arg] : [];
+}
+
+function patternNames(pattern: Pattern): string[] {
+  switch (pattern.type) {
+    case 'Identifier':
+      return [pattern.name];
+    case 'ObjectPattern':
+      return pattern.properties.flatMap(property => patternNames(property.type === 'Property' ? property.value : property.argument));
+    case 'ArrayPattern':
+      return pattern.elements.flatMap(element => element ? patternNames(element) : []);
+    case 'AssignmentPattern':
+      return patternNames(pattern.left);
+    case 'RestElement':
+      return patternNames(pattern.argument);
+    default:
+      return [];
+  }
+}
+
+function snippet(content: string, node: Node): string {
+  const code = content.substring(node.start, node.end).replace(/\s+/g, ' ').trim();
+  return code.length > MAX_SNIPPET_LENGTH ? `${code.substring(0, MAX_SNIPPET_LENGTH)}…` : code;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decodeInlineSourceMap,
+  extractOriginalSources,
+  findSourceMapReference,
+  parseSourceMap,
+  resolveSourceMapUrl
+} from './sourcemap';
+
+describe('findSourceMapReference', () => {
+  const content = 'console.log(1);\n//# sourceMappingURL=vendor.js.map\nconsole.log(2);\n//# sourceMappingURL=app.js.map\n';
+
+  it('prefers the SourceMap header over the comment', () => {
+    expect(findSourceMapReference(content, ' /maps/app.js.map ')).toEqual({ url: '/maps/app.js.map', offset: -1 });
+  });
+
+  it('takes the last comment when there is no header', () => {
+    expect(findSourceMapReference(content, '')).toEqual({ url: 'app.js.map', offset: content.lastIndexOf('//#') });
+    expect(findSourceMapReference('/*# sourceMappingURL=style.css.map */')?.url).toBe('style.css.map');
+    expect(findSourceMapReference('console.log(1);')).toBeNull();
+  });
+});
+
+describe('resolveSourceMapUrl', () => {
+  it('resolves relative URLs against the bundle and keeps data URIs', () => {
+    expect(resolveSourceMapUrl('app.js.map', 'https://example.com/static/js/app.js')).toBe('https://example.com/static/js/app.js.map');
+    expect(resolveSourceMapUrl('../maps/app.js.map', 'https://example.com/static/js/app.js')).toBe('https://example.com/static/maps/app.js.map');
+    expect(resolveSourceMapUrl('data:application/json;base64,e30=', 'https://example.com/app.js')).toBe('data:application/json;base64,e30=');
+  });
+});
+
+describe('decodeInlineSourceMap', () => {
+  it('decodes base64 data URIs as UTF-8', () => {
+    const map = JSON.stringify({ version: 3, sources: ['greeting.ts'], sourcesContent: ['export const hello = "Grüße, 世界";'] });
+    const dataUrl = `data:application/json;charset=utf-8;base64,${Buffer.from(map).toString('base64')}`;
+
+    expect(decodeInlineSourceMap(dataUrl)).toBe(map);
+    expect(parseSourceMap(decodeInlineSourceMap(dataUrl)!)?.sourcesContent).toEqual(['export const hello = "Grüße, 世界";']);
+  });
+
+  it('decodes percent-encoded data URIs and rejects anything else', () => {
+    expect(decodeInlineSourceMap('data:application/json,%7B%22version%22%3A3%7D')).toBe('{"version":3}');
+    expect(decodeInlineSourceMap('data:application/json;base64,%%%')).toBeNull();
+    expect(decodeInlineSourceMap('https://example.com/app.js.map')).toBeNull();
+  });
+});
+
+describe('parseSourceMap', () => {
+  it('strips the XSSI guard', () => {
+    expect(parseSourceMap(')]}\'\n{"version":3,"sources":["a.js"]}')).toEqual({ version: 3, sources: ['a.js'] });
+  });
+
+  it('rejects JSON that is not a source map', () => {
+    expect(parseSourceMap('{"version":3}')).toBeNull();
+    expect(parseSourceMap('<html>')).toBeNull();
+  });
+});
+
+describe('extractOriginalSources', () => {
+  it('prefixes relative sources with the sourceRoot and skips missing content', () => {
+    const sources = extractOriginalSources({
+      version: 3,
+      sourceRoot: 'webpack://app',
+      sources: ['src/api.ts', 'src/empty.ts', 'https://cdn.example.com/lib.js'],
+      sourcesContent: ['fetch("/api")', null, 'lib()']
+    });
+
+    expect(sources).toEqual([
+      { path: 'webpack://app/src/api.ts', content: 'fetch("/api")' },
+      { path: 'https://cdn.example.com/lib.js', content: 'lib()' }
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Source map discovery and extraction of original sources
+ */
+
+import { decodeUtf8 } from './decoder';
+
+export interface SourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources: string[];
+  sourcesContent?: (string | null)[];
+}
+
+export interface SourceMapReference {
+  url: string;
+  // Offset of the sourceMappingURL comment, or -1 when taken from a header
+  offset: number;
+}
+
+export interface OriginalSource {
+  path: string;
+  content: string;
+}
+
+/**
+ * Locate the source map of a bundle, preferring the SourceMap response
+ * header over the trailing `//# sourceMappingURL=` comment
+ */
+export function findSourceMapReference(content: string, headerValue?: string): SourceMapReference | null {
+  if (headerValue && headerValue.trim()) {
+    return { url: headerValue.trim(), offset: -1 };
+  }
+
+  const commentRegex = /\/[\/*][#@]\s*sourceMappingURL=([^\s'"*]+)/g;
+  let reference: SourceMapReference | null = null;
+  let match;
+  while ((match = commentRegex.exec(content)) !== null) {
+    // The last comment wins, earlier ones may belong to concatenated files
+    reference = { url: match[1], offset: match.index };
+  }
+
+  return reference;
+}
+
+/**
+ * Resolve a source map URL relative to the bundle that referenced it
+ */
+export function resolveSourceMapUrl(mapUrl: string, fileUrl: string): string | null {
+  if (mapUrl.startsWith('data:')) {
+    return mapUrl;
+  }
+
+  try {
+    return new URL(mapUrl, fileUrl).href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode an inline `data:application/json;base64,...` source map
+ */
+export function decodeInlineSourceMap(dataUrl: string): string | null {
+  const match = dataUrl.match(/^data:[^,]*?(;base64)?,(.*)$/);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    // atob yields bytes; non-ASCII sourcesContent is UTF-8 encoded
+    return match[1] ? decodeUtf8(atob(match[2])) : decodeURIComponent(match[2]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse source map JSON, returning null for anything that is not a map
+ */
+export function parseSourceMap(text: string): SourceMap | null {
+  try {
+    // Strip the XSSI guard some servers prepend
+    const data = JSON.parse(text.replace(/^\)\]\}'[^\n]*\n/, ''));
+    if (!data || typeof data !== 'object' || !Array.isArray(data.sources)) {
+      return null;
+    }
+    return data as SourceMap;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get every original source embedded in the map's sourcesContent
+ */
+export function extractOriginalSources(map: SourceMap): OriginalSource[] {
+  const sources: OriginalSource[] = [];
+  const contents = map.sourcesContent || [];
+
+  map.sources.forEach((source, index) => {
+    const content = contents[index];
+    if (typeof content !== 'string' || !content) {
+      return;
+    }
+
+    const root = map.sourceRoot && !/^[a-z]+:/i.test(source) ? map.sourceRoot.replace(/\/?$/, '/') : '';
+    sources.push({ path: root + source, content });
+  });
+
+  return sources;
+}
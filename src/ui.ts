@@ -1,5 +1,14 @@
 import { ScanResult } from './scanner';
 import { getMatchTypeColor } from './patterns';
+import { summarizeJwt } from './jwt';
+import { EXPOSURE_LABELS } from './keyclass';
+import { printOperation } from './graphql';
+import { isWebSocketProtocol } from './protocols';
+import { describeBucket } from './buckets';
+import { HOST_CLASS_LABELS } from './hosts';
+import { configFlags } from './config';
+import { advisoryIdentifiers } from './libraries';
+import { ORIGIN_CHECK_LABELS } from './postmessage';
 
 export interface PluginStats {
   totalResults: number;
@@ -110,6 +119,15 @@ export class PluginUI {
                 <option value="endpoint">🌐 Endpoints</option>
                 <option value="email">📧 Emails</option>
                 <option value="ip">🖥️ IP Addresses</option>
+                <option value="parameter">🧷 Parameters</option>
+                <option value="graphql">🕸️ GraphQL</option>
+                <option value="bucket">🪣 Buckets</option>
+                <option value="host">🏠 Hosts</option>
+                <option value="route">🚪 Client Routes</option>
+                <option value="config">⚙️ Config</option>
+                <option value="library">📚 Libraries</option>
+                <option value="sink">💉 DOM Sinks</option>
+                <option value="postmessage">📨 postMessage Handlers</option>
               </select>
               <select id="severity-filter" class="filter-select">
                 <option value="all">All Severity</option>
@@ -548,6 +566,24 @@ export class PluginUI {
       .severity-medium { background: rgba(255, 206, 84, 0.2); color: #ffce54; }
       .severity-low { background: rgba(150, 206, 180, 0.2); color: #96ceb4; }
       
+      .entropy-badge {
+        display: inline-block;
+        margin-left: 6px;
+        padding: 1px 6px;
+        border-radius: 6px;
+        font-size: 10px;
+        background: rgba(255, 255, 255, 0.08);
+        color: #aaa;
+      }
+
+      .entropy-badge.protocol-websocket,
+      .entropy-badge.library-vulnerable,
+      .entropy-badge.sink-tainted,
+      .entropy-badge.message-unchecked {
+        background: rgba(231, 76, 60, 0.2);
+        color: #e74c3c;
+      }
+      
       .match-type {
         display: inline-flex;
         align-items: center;
@@ -738,7 +774,7 @@ export class PluginUI {
     }
 
     this.resultsBody.innerHTML = filteredResults.map(result => {
-      const severity = this.getSeverity(result.matchType);
+      const severity = this.getResultSeverity(result);
       const severityClass = `severity-${severity}`;
       const fileName = this.extractFileName(result.fileUrl);
       
@@ -750,8 +786,8 @@ export class PluginUI {
               ${this.getTypeIcon(result.matchType)} ${result.matchType}
             </span>
           </td>
-          <td class="match-value" title="${this.escapeHtml(result.matchValue)}">${this.escapeHtml(this.truncateValue(result.matchValue))}</td>
-          <td class="file-url" title="${this.escapeHtml(fileName)}">${this.escapeHtml(fileName)}</td>
+          <td class="match-value" title="${this.escapeHtml(result.context || result.matchValue)}">${this.escapeHtml(this.truncateValue(result.matchValue))}${this.renderEntropy(result)}${this.renderDecodingChain(result)}${this.renderJwt(result)}${this.renderClassification(result)}${this.renderProtocol(result)}${this.renderSamples(result)}${this.renderParameter(result)}${this.renderGraphQL(result)}${this.renderBucket(result)}${this.renderHostClass(result)}${this.renderClientRoute(result)}${this.renderConfig(result)}${this.renderLibrary(result)}${this.renderSink(result)}${this.renderMessageHandler(result)}</td>
+          <td class="file-url" title="${this.escapeHtml(result.fileUrl)}">${this.escapeHtml(fileName)}${result.line !== undefined ? `:${result.line}:${result.column}` : ''}</td>
           <td class="source-url" title="${this.escapeHtml(result.sourceUrl)}">${this.escapeHtml(this.truncateUrl(result.sourceUrl))}</td>
           <td class="timestamp">${new Date(result.timestamp).toLocaleString()}</td>
           <td><button class="action-btn" onclick="navigator.clipboard.writeText('${this.escapeHtml(result.matchValue)}')" title="Copy to clipboard">📋</button></td>
@@ -767,7 +803,7 @@ export class PluginUI {
     
     return this.results.filter(result => {
       const typeMatch = typeFilter === 'all' || result.matchType === typeFilter;
-      const severityMatch = severityFilter === 'all' || this.getSeverity(result.matchType) === severityFilter;
+      const severityMatch = severityFilter === 'all' || this.getResultSeverity(result) === severityFilter;
       const searchMatch = !searchTerm || 
         result.matchValue.toLowerCase().includes(searchTerm) ||
         result.fileUrl.toLowerCase().includes(searchTerm) ||
@@ -794,6 +830,108 @@ export class PluginUI {
     return severityMap[type] || 'medium';
   }
 
+  private getResultSeverity(result: ScanResult): string {
+    return result.severity || this.getSeverity(result.matchType);
+  }
+
+  private renderEntropy(result: ScanResult): string {
+    if (result.entropy === undefined) return '';
+    return `<span class="entropy-badge" title="Shannon entropy (${result.charset})">H ${result.entropy.toFixed(2)}</span>`;
+  }
+
+  private renderDecodingChain(result: ScanResult): string {
+    if (!result.decodingChain || result.decodingChain.length === 0) return '';
+    return `<span class="entropy-badge" title="Revealed by decoding">${this.escapeHtml(result.decodingChain.join(' → '))}</span>`;
+  }
+
+  private renderJwt(result: ScanResult): string {
+    if (!result.jwt) return '';
+    const flags = result.jwt.flags.length > 0 ? result.jwt.flags.join(', ') : 'no issues';
+    return `<span class="entropy-badge" title="${this.escapeHtml(summarizeJwt(result.jwt))}">JWT: ${this.escapeHtml(flags)}</span>`;
+  }
+
+  private renderClassification(result: ScanResult): string {
+    if (!result.classification) return '';
+    return `<span class="entropy-badge" title="${this.escapeHtml(result.classification.reason)}">${EXPOSURE_LABELS[result.classification.exposure]}</span>`;
+  }
+
+  private renderProtocol(result: ScanResult): string {
+    if (!result.protocol || result.protocol === 'http' || result.protocol === 'https') return '';
+    const className = isWebSocketProtocol(result.protocol) ? 'entropy-badge protocol-websocket' : 'entropy-badge';
+    return `<span class="${className}">${this.escapeHtml(result.protocol)}</span>`;
+  }
+
+  private renderSamples(result: ScanResult): string {
+    if (!result.samples || result.samples.length === 0) return '';
+    return `<span class="entropy-badge" title="${this.escapeHtml(result.samples.join('\n'))}">${result.samples.length} samples</span>`;
+  }
+
+  private renderParameter(result: ScanResult): string {
+    if (!result.parameterLocations) return '';
+    const endpoints = result.parameterEndpoints ? result.parameterEndpoints.join('\n') : 'No linked endpoint';
+    return `<span class="entropy-badge" title="${this.escapeHtml(endpoints)}">${this.escapeHtml(result.parameterLocations.join(', '))}</span>`;
+  }
+
+  private renderGraphQL(result: ScanResult): string {
+    if (!result.graphql) return '';
+    return `<span class="entropy-badge" title="${this.escapeHtml(printOperation(result.graphql))}">${result.graphql.variables.length} variables</span>`;
+  }
+
+  private renderBucket(result: ScanResult): string {
+    if (!result.bucket) return '';
+    return `<span class="entropy-badge" title="${this.escapeHtml(result.bucket.path || '')}">${this.escapeHtml(describeBucket(result.bucket))}</span>`;
+  }
+
+  private renderHostClass(result: ScanResult): string {
+    if (!result.hostClass) return '';
+    return `<span class="entropy-badge">${HOST_CLASS_LABELS[result.hostClass]}</span>`;
+  }
+
+  private renderClientRoute(result: ScanResult): string {
+    if (!result.clientRoute) return '';
+    const { chunk, guards, roles } = result.clientRoute;
+    const details = [chunk && `chunk: ${chunk}`, ...guards, roles.length > 0 && `roles: ${roles.join(', ')}`].filter(Boolean).join('\n');
+    const label = guards.length > 0 || roles.length > 0 ? 'guarded' : result.clientRoute.framework;
+    return `<span class="entropy-badge" title="${this.escapeHtml(details)}">${this.escapeHtml(label)}</span>`;
+  }
+
+  private renderConfig(result: ScanResult): string {
+    if (!result.config) return '';
+    const entries = result.config
+      .map(entry => `${entry.key} = ${entry.value}${entry.flags.length > 0 ? ` [${entry.flags.join(', ')}]` : ''}`)
+      .join('\n');
+    const flags = configFlags(result.config);
+    const label = `${result.config.length} keys${flags.length > 0 ? `, ${flags.join(', ')}` : ''}`;
+    return `<span class="entropy-badge" title="${this.escapeHtml(entries)}">${this.escapeHtml(label)}</span>`;
+  }
+
+  private renderSink(result: ScanResult): string {
+    if (!result.sink) return '';
+    if (!result.sink.source) {
+      return `<span class="entropy-badge">${this.escapeHtml(result.sink.sink)}</span>`;
+    }
+    return `<span class="entropy-badge sink-tainted">${this.escapeHtml(`${result.sink.source} → ${result.sink.sink}`)}</span>`;
+  }
+
+  private renderMessageHandler(result: ScanResult): string {
+    if (!result.messageHandler) return '';
+    const { originCheck, originDetail, actions, snippet } = result.messageHandler;
+    const label = [ORIGIN_CHECK_LABELS[originCheck], ...actions].join(', ');
+    const details = [originDetail, snippet].filter(Boolean).join('\n\n');
+    const unchecked = originCheck !== 'strict' ? ' message-unchecked' : '';
+    return `<span class="entropy-badge${unchecked}" title="${this.escapeHtml(details)}">${this.escapeHtml(label)}</span>`;
+  }
+
+  private renderLibrary(result: ScanResult): string {
+    if (!result.library) return '';
+    const advisories = result.advisories || [];
+    if (advisories.length === 0) {
+      return `<span class="entropy-badge">${result.library.detection}</span>`;
+    }
+    const details = advisories.map(advisory => `${advisory.identifiers.join(', ')} (${advisory.severity}): ${advisory.summary}`).join('\n');
+    return `<span class="entropy-badge library-vulnerable" title="${this.escapeHtml(details)}">${this.escapeHtml(advisoryIdentifiers(advisories).join(', '))}</span>`;
+  }
+
   private extractFileName(url: string): string {
     try {
       const urlObj = new URL(url);
@@ -819,7 +957,16 @@ export class PluginUI {
       'ENDPOINT': '🌐',
       'EMAIL': '📧',
       'IP': '🖥️',
-      'URL': '🔗'
+      'URL': '🔗',
+      'parameter': '🧷',
+      'graphql': '🕸️',
+      'bucket': '🪣',
+      'host': '🏠',
+      'route': '🚪',
+      'config': '⚙️',
+      'library': '📚',
+      'sink': '💉',
+      'postmessage': '📨'
     };
     
     return iconMap[type] || '📋';
@@ -858,20 +1005,16 @@ export class PluginUI {
     this.stats.totalResults++;
     
     switch (result.matchType) {
-      case 'API_KEY':
-      case 'SECRET':
-      case 'TOKEN':
-      case 'PASSWORD':
-      case 'PRIVATE_KEY':
+      case 'secret':
         this.stats.secretsCount++;
         break;
-      case 'ENDPOINT':
+      case 'endpoint':
         this.stats.endpointsCount++;
         break;
-      case 'EMAIL':
+      case 'email':
         this.stats.emailsCount++;
         break;
-      case 'IP':
+      case 'ip':
         this.stats.ipsCount++;
         break;
     }